@@ -0,0 +1,58 @@
+import { backendSqlitePath } from '../server/config.mjs'
+import { jsonWorkspaceStore } from '../server/jsonWorkspaceStore.mjs'
+import { sqliteWorkspaceStore } from '../server/sqliteWorkspaceStore.mjs'
+import { normalizeCollectionPayloadForSave } from '../server/storage.mjs'
+
+// 一次性把 JSON 存储（state.json、collection.json、tasks/）导入 SQLite：npm run migrate-storage [-- --force]
+// 需要先停止服务；JSON 文件原样保留作为备份，确认无误后再手动删除。
+
+const USAGE = `用法: npm run migrate-storage [-- --force]
+
+  默认跳过 SQLite 中已有数据的工作区，--force 时用 JSON 数据覆盖同名记录`
+
+const main = async () => {
+  const args = process.argv.slice(2)
+  if (args.some((arg) => arg !== '--force')) {
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+  const force = args.includes('--force')
+  await sqliteWorkspaceStore.open()
+  const existing = new Set(await sqliteWorkspaceStore.listWorkspaceIds())
+  let migratedWorkspaces = 0
+  let migratedTasks = 0
+  for (const workspaceId of await jsonWorkspaceStore.listWorkspaceIds()) {
+    const label = workspaceId || '默认工作区'
+    if (existing.has(workspaceId) && !force) {
+      console.log(`跳过 ${label}：SQLite 中已有数据`)
+      continue
+    }
+    // 密钥保持加密状态原样导入
+    const state = await jsonWorkspaceStore.readState(workspaceId)
+    if (state) {
+      await sqliteWorkspaceStore.writeState(workspaceId, state)
+    }
+    const collection = normalizeCollectionPayloadForSave(await jsonWorkspaceStore.readCollection(workspaceId))
+    await sqliteWorkspaceStore.writeCollection(workspaceId, collection)
+    const taskIds = await jsonWorkspaceStore.listTaskIds(workspaceId)
+    for (const taskId of taskIds) {
+      const task = await jsonWorkspaceStore.readTask(workspaceId, taskId)
+      if (task) await sqliteWorkspaceStore.writeTask(workspaceId, taskId, task)
+    }
+    // 图片索引缺失时服务会从图片存储重建，这里有就一并带上，省去一次重建
+    const imageIndex = await jsonWorkspaceStore.readImageIndex(workspaceId)
+    if (imageIndex) await sqliteWorkspaceStore.writeImageIndex(workspaceId, imageIndex)
+    if (!state && collection.length === 0 && taskIds.length === 0) continue
+    migratedWorkspaces += 1
+    migratedTasks += taskIds.length
+    console.log(`已迁移 ${label}：${taskIds.length} 个任务，${collection.length} 条收藏`)
+  }
+  console.log(`完成：${migratedWorkspaces} 个工作区，${migratedTasks} 个任务已写入 ${backendSqlitePath}`)
+  console.log('设置 BACKEND_STORAGE=sqlite 后重启服务即可使用，JSON 文件已保留作为备份')
+}
+
+main().catch((err) => {
+  console.error(err?.message || err)
+  process.exitCode = 1
+})
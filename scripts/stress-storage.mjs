@@ -0,0 +1,160 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+// 存储并发压力测试：npm run stress-storage [-- --sqlite]
+// 在临时工作区里并行执行大量读改写，确认全局统计累加、子任务状态切换与收藏追加一次都不会丢失。
+// SQLite 模式使用临时数据库文件；JSON 模式写入 server-data/users 下的临时目录，结束后删除。
+
+const USAGE = `用法: npm run stress-storage [-- --sqlite] [-- --rounds <次数>]
+
+  默认测试 JSON 存储，--sqlite 时改用临时 SQLite 数据库（需要安装 better-sqlite3）`
+
+const DEFAULT_ROUNDS = 200
+
+const parseArgs = (args) => {
+  const options = { sqlite: false, rounds: DEFAULT_ROUNDS }
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]
+    if (arg === '--sqlite') {
+      options.sqlite = true
+    } else if (arg === '--rounds') {
+      options.rounds = Math.floor(Number(args[index + 1]))
+      index += 1
+    } else {
+      return null
+    }
+  }
+  return Number.isFinite(options.rounds) && options.rounds > 0 ? options : null
+}
+
+const times = (count, fn) => Array.from({ length: count }, (_item, index) => fn(index))
+
+const expectEqual = (failures, label, actual, expected) => {
+  const ok = actual === expected
+  console.log(`${ok ? '通过' : '失败'} ${label}：${actual} / ${expected}`)
+  if (!ok) failures.push(label)
+}
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2))
+  if (!options) {
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+  // 环境变量要在加载配置之前设置，config.mjs 不会用 .env 覆盖已有的值
+  const tempDir = options.sqlite ? fs.mkdtempSync(path.join(os.tmpdir(), 'stress-storage-')) : ''
+  process.env.BACKEND_STORAGE = options.sqlite ? 'sqlite' : 'json'
+  if (tempDir) {
+    process.env.BACKEND_SQLITE_PATH = path.join(tempDir, 'backend.sqlite')
+  }
+  const { getWorkspacePaths } = await import('../server/config.mjs')
+  const storage = await import('../server/storage.mjs')
+
+  const { rounds } = options
+  const workspaceId = `stress-${crypto.randomUUID()}`
+  const taskId = crypto.randomUUID()
+  const failures = []
+  try {
+    await storage.initBackendStorage()
+    console.log(`存储: ${process.env.BACKEND_STORAGE}，并发次数: ${rounds}`)
+
+    // 对照组：不加锁的读改写，丢失的累加次数说明测试确实制造了并发
+    await Promise.all(
+      times(rounds, async () => {
+        const state = await storage.loadBackendState(workspaceId)
+        const globalStats = { ...state.globalStats, totalRequests: state.globalStats.totalRequests + 1 }
+        await storage.saveBackendState(workspaceId, { ...state, globalStats })
+      }),
+    )
+    const unlocked = (await storage.loadBackendState(workspaceId)).globalStats.totalRequests
+    console.log(`对照 未加锁的读改写保留了 ${unlocked} / ${rounds} 次累加`)
+    await storage.updateBackendState(workspaceId, (state) => ({
+      ...state,
+      globalStats: { ...state.globalStats, totalRequests: 0, successCount: 0 },
+    }))
+
+    await Promise.all(
+      times(rounds, () =>
+        storage.updateBackendState(workspaceId, (state) => ({
+          ...state,
+          globalStats: {
+            ...state.globalStats,
+            totalRequests: state.globalStats.totalRequests + 1,
+            successCount: state.globalStats.successCount + 1,
+          },
+        })),
+      ),
+    )
+    const { globalStats } = await storage.loadBackendState(workspaceId)
+    expectEqual(failures, '全局请求数', globalStats.totalRequests, rounds)
+    expectEqual(failures, '全局成功数', globalStats.successCount, rounds)
+
+    // 子任务各自切换为成功并累加统计，同时穿插只改统计的更新
+    await storage.updateTaskState(workspaceId, taskId, () => ({
+      ...storage.createDefaultTaskState(),
+      results: times(rounds, (index) => ({ id: `sub-${index}`, status: 'loading' })),
+    }))
+    await Promise.all([
+      ...times(rounds, (index) =>
+        storage.updateTaskState(workspaceId, taskId, (taskState) => {
+          const resultIndex = taskState.results.findIndex((item) => item.id === `sub-${index}`)
+          taskState.results[resultIndex] = { ...taskState.results[resultIndex], status: 'success' }
+          taskState.stats = { ...taskState.stats, successCount: taskState.stats.successCount + 1 }
+          return taskState
+        }),
+      ),
+      ...times(rounds, () =>
+        storage.updateTaskState(workspaceId, taskId, (taskState) => ({
+          ...taskState,
+          stats: { ...taskState.stats, totalRequests: taskState.stats.totalRequests + 1 },
+        })),
+      ),
+    ])
+    const taskState = await storage.loadTaskState(workspaceId, taskId)
+    expectEqual(
+      failures,
+      '成功的子任务',
+      taskState.results.filter((item) => item.status === 'success').length,
+      rounds,
+    )
+    expectEqual(failures, '任务请求数', taskState.stats.totalRequests, rounds)
+    expectEqual(failures, '任务成功数', taskState.stats.successCount, rounds)
+
+    // 生图完成后的自动收藏与前端整体保存并行写入同一份收藏
+    await Promise.all([
+      ...times(rounds, (index) =>
+        storage.updateBackendCollection(workspaceId, (items) => [
+          ...items,
+          { id: `auto-${index}`, prompt: 'stress', taskId, timestamp: index },
+        ]),
+      ),
+      ...times(rounds, (index) =>
+        storage.updateBackendCollection(workspaceId, (items) =>
+          items.map((item) => (item.id === `auto-${index}` ? { ...item, prompt: 'saved' } : item)),
+        ),
+      ),
+    ])
+    const collection = await storage.loadBackendCollection(workspaceId)
+    expectEqual(failures, '收藏条目', collection.length, rounds)
+  } finally {
+    await storage.deleteTaskState(workspaceId, taskId)
+    if (tempDir) {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+    }
+    fs.rmSync(getWorkspacePaths(workspaceId).baseDir, { recursive: true, force: true })
+  }
+  if (failures.length > 0) {
+    console.error(`有 ${failures.length} 项检查失败`)
+    process.exitCode = 1
+    return
+  }
+  console.log('全部通过')
+}
+
+main().catch((err) => {
+  console.error(err?.message || err)
+  process.exitCode = 1
+})
@@ -0,0 +1,79 @@
+import readline from 'node:readline'
+import {
+  adoptLegacyWorkspace,
+  createUser,
+  listUsers,
+  removeUser,
+  setUserPassword,
+} from '../server/users.mjs'
+
+// 后端多用户账号管理：npm run users -- <命令> [参数]
+
+const USAGE = `用法: npm run users -- <命令> [参数]
+
+  list                       列出所有用户
+  add <用户名> [密码]        新建用户，省略密码时交互输入
+  passwd <用户名> [密码]     修改密码
+  remove <用户名>            删除用户（工作区目录保留）
+  adopt <用户名>             把单密码模式下的数据迁移到该用户的工作区`
+
+const promptPassword = (label) =>
+  new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+    rl.question(label, (answer) => {
+      rl.close()
+      resolve(answer)
+    })
+  })
+
+const resolvePassword = async (value) => value || promptPassword('密码: ')
+
+const main = async () => {
+  const [command, username, password] = process.argv.slice(2)
+  switch (command) {
+    case 'list': {
+      const users = await listUsers()
+      if (users.length === 0) {
+        console.log('暂无用户，后端使用 BACKEND_PASSWORD 单密码模式')
+        return
+      }
+      users.forEach((user) => {
+        console.log(`${user.username}\t${user.id}\t${new Date(user.createdAt).toLocaleString('zh-CN')}`)
+      })
+      return
+    }
+    case 'add': {
+      const user = await createUser(username, await resolvePassword(password))
+      console.log(`已创建用户 ${user.username}（${user.id}）`)
+      return
+    }
+    case 'passwd': {
+      const user = await setUserPassword(username, await resolvePassword(password))
+      console.log(`已更新 ${user.username} 的密码，已登录的设备不受影响，可在设置中撤销`)
+      return
+    }
+    case 'remove': {
+      const user = await removeUser(username)
+      console.log(`已删除用户 ${user.username}，其会话将在下次请求时失效`)
+      return
+    }
+    case 'adopt': {
+      const { user, moved } = await adoptLegacyWorkspace(username)
+      if (moved.length === 0) {
+        console.log('没有需要迁移的数据')
+        return
+      }
+      console.log(`已迁移到 ${user.username} 的工作区:`)
+      moved.forEach((target) => console.log(`  ${target}`))
+      return
+    }
+    default:
+      console.log(USAGE)
+      process.exitCode = command ? 1 : 0
+  }
+}
+
+main().catch((err) => {
+  console.error(err?.code === 'INVALID_USER' ? err.message : err)
+  process.exitCode = 1
+})
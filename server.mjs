@@ -3,10 +3,9 @@ import crypto from 'node:crypto'
 import fs from 'node:fs'
 import path from 'node:path'
 import {
-  backendImagesDir,
   backendLogRequests,
   backendPassword,
-  backendTasksDir,
+  backendTrustProxy,
   distDir,
   isProd,
   port,
@@ -24,47 +23,145 @@ import {
   describeFetchError,
 } from './server/logger.mjs'
 import { addSseClient, removeSseClient, sendSseEvent } from './server/sse.mjs'
+import {
+  createBackendSession,
+  findBackendSession,
+  listBackendSessions,
+  revokeBackendSession,
+  verifyBackendToken,
+} from './server/sessions.mjs'
+import { redactStateSecrets, restoreRedactedSecrets } from './server/secrets.mjs'
+import { buildSignedImageUrl, getImageUrlExpiresAt, verifyImageSignature } from './server/imageSigning.mjs'
+import {
+  beginAuthAttempt,
+  clearAuthFailures,
+  delayAuthAttempt,
+  recordAuthFailure,
+  safeEqualSecret,
+} from './server/authGuard.mjs'
+import {
+  authenticateUser,
+  findUserById,
+  isMultiUserMode,
+  toPublicUser,
+} from './server/users.mjs'
+import {
+  dequeueSubTask,
+  enqueueJob,
+  getQueueSnapshot,
+  isSubTaskScheduled,
+  pauseProvider,
+  resolveProviderKey,
+} from './server/scheduler.mjs'
+import {
+  getKeyRateLimitedUntil,
+  markKeyRateLimited,
+  parseRateLimitResetAt,
+} from './server/rateLimit.mjs'
 import {
   createDefaultTaskState,
+  deleteTaskState,
+  encryptStoredStateSecrets,
+  initBackendStorage,
+  listReferencedImageKeys,
+  listTaskIds,
+  listWorkspaceIds,
   loadBackendCollection,
   loadBackendState,
   loadTaskState,
   normalizeCollectionPayloadForSave,
   normalizeConcurrency,
-  saveBackendCollection,
-  saveBackendState,
-  saveTaskState,
+  normalizeImagesPerRequest,
+  normalizeProviderSelection,
+  updateBackendCollection,
+  updateBackendState,
+  updateTaskState,
 } from './server/storage.mjs'
-import { parseMarkdownImage, resolveImageFromResponse } from './server/imageParser.mjs'
-import { getMimeFromFilename, saveBackendImageBuffer, saveImageBuffer } from './server/imageStore.mjs'
-
-const readRequestBody = async (req) => {
-  const chunks = []
-  for await (const chunk of req) {
-    chunks.push(chunk)
-  }
-  return Buffer.concat(chunks)
-}
+import {
+  mergeGeminiStreamChunks,
+  mergeOpenAiStreamChunks,
+  parseImageResponse,
+} from './shared/imageResponse.mjs'
+import { maybeConvertToWebp } from './server/imageTranscode.mjs'
+import {
+  createLoadingResults,
+  isTaskGenerating,
+  mergeGenerationResults,
+} from './server/taskResults.mjs'
+import { buildProviderRequest, resolveApiFormat } from './shared/providerRequest.mjs'
+import {
+  resolvePrimaryProviderConfig,
+  resolveProviderCandidates,
+  runWithProviderFailover,
+} from './shared/providerProfiles.mjs'
+import { applyTaskOverrides, normalizeTaskOverrides } from './shared/taskOverrides.mjs'
+import {
+  addDailyUsage,
+  addUsageToStats,
+  computeUsageCost,
+  findModelPrice,
+  normalizeUsage,
+} from './shared/usageCost.mjs'
+import {
+  computeRetryDelay,
+  formatRetryDelay,
+  hasRetryAttemptsLeft,
+  normalizeRetryPolicy,
+} from './shared/retryPolicy.mjs'
+import {
+  createProviderError,
+  detectSafetyBlock,
+  extractProviderErrorDetail,
+  isPermanentErrorKind,
+  resolveErrorKind,
+} from './shared/providerError.mjs'
+import { downloadRemoteImage } from './server/imageDownload.mjs'
+import { getMimeFromFilename } from './server/imageInfo.mjs'
+import {
+  deleteBackendImage,
+  initImageStorage,
+  listBackendImageKeys,
+  readBackendImage,
+  reconcileBackendImageIndex,
+  saveBackendImageBuffer,
+  saveImageBuffer,
+  sendBackendImage,
+} from './server/imageStore.mjs'
+import {
+  collectImageKeysFromCollection,
+  collectImageKeysFromTask,
+  getCollectionImageKey,
+} from './server/imageRefs.mjs'
+import {
+  createTaskSchedule,
+  deleteSchedule,
+  listTaskSchedules,
+  removeTaskSchedules,
+  startScheduleRunner,
+  updateSchedule,
+} from './server/schedules.mjs'
+import {
+  buildSharePagePath,
+  createShare,
+  findActiveShare,
+  listShares,
+  normalizeShareInput,
+  removeTaskShares,
+  revokeShare,
+  toPublicShare,
+} from './server/shares.mjs'
+import { isValidTaskId } from './server/taskId.mjs'
+import { renderSharePage, renderShareUnavailablePage } from './server/sharePage.mjs'
+import {
+  buildCollectionGroupKey,
+  isUploadCollectionKey,
+  normalizeCollectionPrompt,
+} from './shared/collectionGroup.mjs'
 
-const RETRY_DELAY_MS = 1000
 const ORPHAN_CLEANUP_DELAY_MS = 1500
 
 let orphanCleanupTimer = null
-
-const collectImageKeysFromTask = (taskState) => {
-  const keys = new Set()
-  const uploads = Array.isArray(taskState?.uploads) ? taskState.uploads : []
-  const results = Array.isArray(taskState?.results) ? taskState.results : []
-  uploads.forEach((item) => {
-    if (!item?.localKey) return
-    keys.add(path.basename(item.localKey))
-  })
-  results.forEach((item) => {
-    if (!item?.localKey) return
-    keys.add(path.basename(item.localKey))
-  })
-  return keys
-}
+const pendingOrphanCleanups = new Set()
 
 const getRemovedImageKeys = (prevState, nextState) => {
   const prevKeys = collectImageKeysFromTask(prevState)
@@ -76,93 +173,42 @@ const getRemovedImageKeys = (prevState, nextState) => {
   return removed
 }
 
-const extractBackendImageKeyFromUrl = (value) => {
-  if (typeof value !== 'string') return ''
-  const match = value.match(/\/api\/backend\/image\/([^?]+)/)
-  return match ? decodeURIComponent(match[1]) : ''
-}
-
-const getCollectionImageKey = (item) => {
-  const localKey = typeof item?.localKey === 'string' ? item.localKey : ''
-  const imageKey = extractBackendImageKeyFromUrl(item?.image)
-  const key = localKey || imageKey
-  return key ? path.basename(String(key)) : ''
-}
-
-const getTaskFilePath = (taskId) => path.join(backendTasksDir, `${taskId}.json`)
-
-const collectImageKeysFromCollection = (items) => {
-  const keys = new Set()
-  if (!Array.isArray(items)) return keys
-  items.forEach((item) => {
-    const key = getCollectionImageKey(item)
-    if (!key) return
-    keys.add(key)
-  })
-  return keys
-}
-
-const listTaskIds = async () => {
-  try {
-    const entries = await fs.promises.readdir(backendTasksDir, { withFileTypes: true })
-    return entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
-      .map((entry) => path.basename(entry.name, '.json'))
-  } catch (err) {
-    if (err && err.code === 'ENOENT') return []
-    throw err
-  }
-}
-
-const collectAllReferencedImageKeys = async () => {
-  const keys = new Set()
-  const taskIds = await listTaskIds()
-  for (const taskId of taskIds) {
-    const taskState = await loadTaskState(taskId)
-    if (!taskState) continue
-    const taskKeys = collectImageKeysFromTask(taskState)
-    taskKeys.forEach((key) => keys.add(key))
-  }
-  const collectionItems = await loadBackendCollection()
-  const collectionKeys = collectImageKeysFromCollection(collectionItems)
-  collectionKeys.forEach((key) => keys.add(key))
-  return keys
-}
-
-const cleanupUnusedImages = async (removedKeys = []) => {
+const cleanupUnusedImages = async (workspaceId, removedKeys = []) => {
   if (!removedKeys.length) return
-  const referencedKeys = await collectAllReferencedImageKeys()
+  const referencedKeys = await listReferencedImageKeys(workspaceId)
   for (const key of removedKeys) {
     const safeKey = path.basename(String(key))
     if (!safeKey || referencedKeys.has(safeKey)) continue
-    const filePath = path.join(backendImagesDir, safeKey)
-    await fs.promises.unlink(filePath).catch(() => undefined)
+    await deleteBackendImage(workspaceId, safeKey)
   }
 }
 
-const cleanupOrphanedImages = async () => {
-  let entries = []
-  try {
-    entries = await fs.promises.readdir(backendImagesDir, { withFileTypes: true })
-  } catch (err) {
-    if (err && err.code === 'ENOENT') return
-    throw err
-  }
-  const referencedKeys = await collectAllReferencedImageKeys()
-  for (const entry of entries) {
-    if (!entry.isFile()) continue
-    if (referencedKeys.has(entry.name)) continue
-    const filePath = path.join(backendImagesDir, entry.name)
-    await fs.promises.unlink(filePath).catch(() => undefined)
+const cleanupOrphanedImages = async (workspaceId) => {
+  const keys = await listBackendImageKeys(workspaceId)
+  const referencedKeys = keys.length > 0 ? await listReferencedImageKeys(workspaceId) : new Set()
+  const remaining = []
+  for (const key of keys) {
+    if (referencedKeys.has(key)) {
+      remaining.push(key)
+      continue
+    }
+    await deleteBackendImage(workspaceId, key)
   }
+  // 顺带校正图片索引，修正异常退出或手动增删文件造成的偏差
+  await reconcileBackendImageIndex(workspaceId, remaining)
 }
 
-const scheduleOrphanCleanup = () => {
+const scheduleOrphanCleanup = (workspaceId) => {
+  pendingOrphanCleanups.add(workspaceId)
   if (orphanCleanupTimer) return
   orphanCleanupTimer = setTimeout(() => {
     orphanCleanupTimer = null
-    cleanupOrphanedImages().catch((err) => {
-      console.warn('清理后端图片缓存失败:', err)
+    const workspaceIds = Array.from(pendingOrphanCleanups)
+    pendingOrphanCleanups.clear()
+    workspaceIds.forEach((id) => {
+      cleanupOrphanedImages(id).catch((err) => {
+        console.warn('清理后端图片缓存失败:', err)
+      })
     })
   }, ORPHAN_CLEANUP_DELAY_MS)
 }
@@ -203,19 +249,13 @@ const mergeCollectionItems = (existing, incoming) => {
   return next
 }
 
-let backendCollectionQueue = Promise.resolve()
-
-const appendBackendCollectionItems = (items) => {
+const appendBackendCollectionItems = (workspaceId, items) => {
   if (!Array.isArray(items) || items.length === 0) return
-  backendCollectionQueue = backendCollectionQueue
-    .then(async () => {
-      const existing = await loadBackendCollection()
-      const next = mergeCollectionItems(existing, items)
-      await saveBackendCollection(next)
-    })
-    .catch((err) => {
+  updateBackendCollection(workspaceId, (existing) => mergeCollectionItems(existing, items)).catch(
+    (err) => {
       console.warn('后端收藏写入失败:', err)
-    })
+    },
+  )
 }
 
 const parseDataUrl = (dataUrl = '') => {
@@ -233,6 +273,7 @@ const clearRetryTimer = (subTaskId) => {
     clearTimeout(timer)
     retryTimers.delete(subTaskId)
   }
+  dequeueSubTask(subTaskId)
 }
 
 const abortActiveController = (subTaskId) => {
@@ -263,252 +304,45 @@ const updateStats = (stats, type, duration, count = 1) => {
   return next
 }
 
-const updateGlobalStats = async (type, duration, count) => {
-  const state = await loadBackendState()
-  const stats = updateStats(state.globalStats, type, duration, count)
-  await saveBackendState({ ...state, globalStats: stats })
+const updateGlobalStats = (workspaceId, type, duration, count) =>
+  updateBackendState(workspaceId, (state) => ({
+    ...state,
+    globalStats: updateStats(state.globalStats, type, duration, count),
+  }))
+
+const updateGlobalUsage = async (workspaceId, usage, cost, timestamp) => {
+  if (!usage && !cost) return
+  await updateBackendState(workspaceId, (state) => ({
+    ...state,
+    globalStats: addDailyUsage(addUsageToStats(state.globalStats, usage, cost), usage, cost, timestamp),
+  }))
 }
 
-const buildMessagesForTask = async (taskState) => {
-  const content = []
-  if (taskState.prompt) {
-    content.push({ type: 'text', text: taskState.prompt })
-  }
+const buildReferencesForTask = async (workspaceId, taskState, config) => {
+  const convertToWebp = resolveApiFormat(config?.apiFormat) !== 'openai'
+  const references = []
   const uploads = Array.isArray(taskState.uploads) ? taskState.uploads : []
   for (const upload of uploads) {
     if (!upload?.localKey) continue
-    const filePath = path.join(backendImagesDir, upload.localKey)
     try {
-      const buffer = await fs.promises.readFile(filePath)
+      const buffer = await readBackendImage(workspaceId, path.basename(upload.localKey))
+      if (!buffer) {
+        console.warn('上传图片已不存在:', upload.localKey)
+        continue
+      }
       const mime = upload.type || getMimeFromFilename(upload.localKey)
-      const base64 = buffer.toString('base64')
-      content.push({
-        type: 'image_url',
-        image_url: { url: `data:${mime};base64,${base64}` },
+      const converted = convertToWebp
+        ? await maybeConvertToWebp(buffer, mime, config)
+        : { mimeType: mime, buffer }
+      references.push({
+        mimeType: converted.mimeType,
+        data: converted.buffer.toString('base64'),
       })
     } catch (err) {
       console.warn('读取上传图片失败:', err)
     }
   }
-  return [{ role: 'user', content }]
-}
-
-const API_VERSION_REGEX = /^v1(?:beta1|beta)?$/i
-const apiMarkerSegments = new Set(['projects', 'locations', 'publishers', 'models'])
-const isVersionSegment = (value) => API_VERSION_REGEX.test(String(value || ''))
-
-const DEFAULT_API_BASES = {
-  openai: 'https://api.openai.com/v1',
-  gemini: 'https://generativelanguage.googleapis.com',
-  vertex: 'https://aiplatform.googleapis.com',
-}
-
-const ensureProtocol = (value) =>
-  /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`
-
-const resolveApiUrl = (apiUrl, apiFormat) => {
-  const trimmed = String(apiUrl || '').trim()
-  if (trimmed) return trimmed
-  return DEFAULT_API_BASES[apiFormat] || DEFAULT_API_BASES.openai
-}
-
-const normalizeApiBase = (apiUrl = '') => {
-  const cleaned = String(apiUrl).trim().replace(/\/+$/, '')
-  if (!cleaned) {
-    return { origin: '', segments: [], host: '' }
-  }
-  try {
-    const url = new URL(ensureProtocol(cleaned))
-    return {
-      origin: `${url.protocol}//${url.host}`,
-      segments: url.pathname.split('/').filter(Boolean),
-      host: url.host.toLowerCase(),
-    }
-  } catch {
-    return { origin: cleaned, segments: [], host: '' }
-  }
-}
-
-const extractVertexProjectId = (apiUrl = '') => {
-  const { segments } = normalizeApiBase(apiUrl)
-  const index = segments.indexOf('projects')
-  if (index < 0) return null
-  const candidate = segments[index + 1]
-  if (!candidate) return null
-  if (apiMarkerSegments.has(candidate)) return null
-  if (API_VERSION_REGEX.test(candidate)) return null
-  return candidate
-}
-
-const inferApiVersionFromUrl = (apiUrl = '') => {
-  const cleaned = String(apiUrl).trim()
-  if (!cleaned) return null
-  try {
-    const url = new URL(ensureProtocol(cleaned))
-    const segments = url.pathname.split('/').filter(Boolean)
-    for (let i = segments.length - 1; i >= 0; i -= 1) {
-      const segment = segments[i]
-      if (API_VERSION_REGEX.test(segment)) return segment
-    }
-    return null
-  } catch {
-    const segments = cleaned.split('/').filter(Boolean)
-    for (let i = segments.length - 1; i >= 0; i -= 1) {
-      const segment = segments[i]
-      if (API_VERSION_REGEX.test(segment)) return segment
-    }
-    return null
-  }
-}
-
-const resolveApiVersion = (apiUrl, apiVersion, fallback) => {
-  const inferred = inferApiVersionFromUrl(apiUrl)
-  if (inferred) return inferred
-  const trimmed = String(apiVersion || '').trim()
-  return trimmed || fallback
-}
-
-const buildGeminiContentsFromMessages = (messages = []) => {
-  const parts = []
-  messages.forEach((message) => {
-    const content = Array.isArray(message.content) ? message.content : []
-    content.forEach((part) => {
-      if (part?.type === 'text' && typeof part.text === 'string') {
-        parts.push({ text: part.text })
-      }
-      if (part?.type === 'image_url') {
-        const url = part?.image_url?.url || part?.image_url
-        if (!url) return
-        const parsed = parseDataUrl(url)
-        if (parsed?.buffer) {
-          parts.push({
-            inline_data: {
-              mime_type: parsed.contentType || 'image/png',
-              data: parsed.buffer.toString('base64'),
-            },
-          })
-        } else if (typeof url === 'string') {
-          parts.push({ file_data: { file_uri: url } })
-        }
-      }
-    })
-  })
-  return [{ role: 'user', parts }]
-}
-
-const buildGeminiRequest = (config) => {
-  const apiFormat = config?.apiFormat || 'openai'
-  const format = apiFormat === 'vertex' ? 'vertex' : 'gemini'
-  const apiUrl = resolveApiUrl(config?.apiUrl, format)
-  const baseInfo = normalizeApiBase(apiUrl)
-  const baseOrigin = baseInfo.origin || String(apiUrl || '').replace(/\/+$/, '')
-  const versionFallback = format === 'vertex' ? 'v1beta1' : 'v1beta'
-  const version = resolveApiVersion(apiUrl, config?.apiVersion, versionFallback)
-  const hasVersion = Boolean(inferApiVersionFromUrl(apiUrl))
-  const segments = [...baseInfo.segments]
-
-  if (!hasVersion && version) {
-    const markerIndex = segments.findIndex((segment) => apiMarkerSegments.has(segment))
-    if (markerIndex >= 0) {
-      segments.splice(markerIndex, 0, version)
-    } else {
-      segments.push(version)
-    }
-  }
-
-  const modelValue = String(config?.model || '').trim()
-  if (!modelValue) {
-    throw new Error('模型名称未配置')
-  }
-
-  const modelSegments = modelValue.split('/').filter(Boolean)
-  const modelHasProjectPath = modelSegments.includes('projects')
-  const geminiModelIsPath = modelSegments[0] === 'models'
-  const normalizedModel = geminiModelIsPath ? modelSegments.slice(1).join('/') : modelValue
-
-  const applyModelPath = () => {
-    const modelIndex = segments.indexOf('models')
-    if (geminiModelIsPath) {
-      if (modelIndex >= 0 && modelSegments[0] === 'models') {
-        segments.splice(modelIndex + 1)
-        segments.push(...modelSegments.slice(1))
-      } else {
-        segments.push(...modelSegments)
-      }
-      return
-    }
-    if (modelIndex >= 0) {
-      segments.splice(modelIndex + 1)
-      segments.push(modelValue)
-    } else {
-      segments.push('models', modelValue)
-    }
-  }
-
-  const ensureMarkerValue = (marker, value) => {
-    const idx = segments.indexOf(marker)
-    if (idx === -1) {
-      if (!value) return false
-      segments.push(marker, value)
-      return true
-    }
-    const next = segments[idx + 1]
-    if (!next || apiMarkerSegments.has(next) || isVersionSegment(next)) {
-      if (!value) return false
-      segments.splice(idx + 1, 0, value)
-      return true
-    }
-    return true
-  }
-
-  if (format === 'vertex') {
-    const projectId =
-      String(config?.vertexProjectId || '').trim() ||
-      extractVertexProjectId(apiUrl) ||
-      ''
-    const location = String(config?.vertexLocation || '').trim() || 'us-central1'
-    const publisher = String(config?.vertexPublisher || '').trim() || 'google'
-    const hasProjectsMarker = segments.includes('projects')
-    const useVertexMarkers = Boolean(projectId || hasProjectsMarker || modelHasProjectPath)
-
-    if (modelHasProjectPath) {
-      segments.push(...modelSegments)
-    } else if (useVertexMarkers) {
-      if (projectId) {
-        ensureMarkerValue('projects', projectId)
-      }
-      if (segments.includes('projects') || projectId) {
-        ensureMarkerValue('locations', location)
-        ensureMarkerValue('publishers', publisher)
-      }
-      if (segments.includes('projects') || projectId) {
-        ensureMarkerValue('models', normalizedModel)
-      } else {
-        applyModelPath()
-      }
-    } else {
-      applyModelPath()
-    }
-  } else {
-    applyModelPath()
-  }
-
-  const suffix = config?.stream ? ':streamGenerateContent' : ':generateContent'
-  let url = `${baseOrigin}${segments.length ? `/${segments.join('/')}` : ''}${suffix}`
-  const headers = {
-    'Content-Type': 'application/json',
-    Connection: 'close',
-  }
-  const isOfficial =
-    format === 'vertex'
-      ? baseInfo.host === 'aiplatform.googleapis.com'
-      : baseInfo.host === 'generativelanguage.googleapis.com'
-  if (isOfficial) {
-    url += `${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(config?.apiKey || '')}`
-  } else {
-    headers.Authorization = `Bearer ${config?.apiKey || ''}`
-  }
-  return { url, headers }
+  return references
 }
 
 const readGeminiStream = async (response) => {
@@ -518,7 +352,7 @@ const readGeminiStream = async (response) => {
   }
   const decoder = new TextDecoder()
   let buffer = ''
-  let lastJson = null
+  const chunks = []
 
   while (true) {
     const { value, done } = await reader.read()
@@ -533,7 +367,7 @@ const readGeminiStream = async (response) => {
       const cleaned = line.replace(/^data:\s*/i, '').trim()
       if (!cleaned || cleaned === '[DONE]') continue
       try {
-        lastJson = JSON.parse(cleaned)
+        chunks.push(JSON.parse(cleaned))
       } catch {
         // ignore
       }
@@ -547,33 +381,58 @@ const readGeminiStream = async (response) => {
     const cleaned = remainder.replace(/^data:\s*/i, '').trim()
     if (cleaned && cleaned !== '[DONE]') {
       try {
-        lastJson = JSON.parse(cleaned)
+        chunks.push(JSON.parse(cleaned))
       } catch {
         // ignore
       }
     }
   }
 
-  return lastJson
+  return mergeGeminiStreamChunks(chunks)
 }
 
 const readResponseError = async (response) => {
   const fallback = response.statusText || `HTTP ${response.status}`
   try {
     const text = await response.text()
-    if (!text) return fallback
+    if (!text) return { message: fallback }
     try {
       const data = JSON.parse(text)
-      return data?.error?.message || data?.message || text
+      const detail = extractProviderErrorDetail(data)
+      return { ...detail, message: detail.message || text }
     } catch {
-      return text
+      return { message: text }
     }
   } catch {
-    return fallback
+    return { message: fallback }
+  }
+}
+
+// 限流错误带上供应商给出的恢复时间，调度器据此暂停对应的供应商/密钥
+const withRateLimitReset = (error, response) => {
+  if (error.errorKind === 'rate_limit' || response.status === 429) {
+    error.rateLimitResetAt = parseRateLimitResetAt(response.headers)
   }
+  return error
 }
 
-const requestImageUrl = async (config, messages, signal) => {
+const throwResponseError = async (response, label) => {
+  const detail = await readResponseError(response)
+  logBackendResponse(label, { status: response.status, message: detail.message })
+  throw withRateLimitReset(
+    createProviderError(detail.message, { ...detail, status: response.status }),
+    response,
+  )
+}
+
+const assertNotSafetyBlocked = (data) => {
+  const blockMessage = detectSafetyBlock(data)
+  if (blockMessage) {
+    throw createProviderError(blockMessage, { kind: 'safety' })
+  }
+}
+
+const requestImages = async (config, input, signal) => {
   if (!config?.apiKey) {
     throw new Error('API Key 未配置')
   }
@@ -581,8 +440,10 @@ const requestImageUrl = async (config, messages, signal) => {
     throw new Error('模型名称未配置')
   }
 
-  const apiFormat = config?.apiFormat || 'openai'
-  const apiUrl = resolveApiUrl(config?.apiUrl, apiFormat === 'vertex' ? 'vertex' : apiFormat)
+  const apiFormat = resolveApiFormat(config?.apiFormat)
+  const built = buildProviderRequest(config, input)
+  const headers = { ...built.headers, Connection: 'close' }
+  const body = JSON.stringify(built.body)
 
   if (apiFormat !== 'openai') {
     const requestInfo = {
@@ -594,14 +455,12 @@ const requestImageUrl = async (config, messages, signal) => {
     let response
     let data
     try {
-      const contents = buildGeminiContentsFromMessages(messages)
-      const built = buildGeminiRequest(config)
       requestInfo.url = built.url
       logBackendOutbound('api-request', requestInfo)
       response = await fetch(built.url, {
         method: 'POST',
-        headers: built.headers,
-        body: JSON.stringify({ contents }),
+        headers,
+        body,
         signal,
       })
       data = config.stream ? await readGeminiStream(response) : await response.json()
@@ -615,41 +474,29 @@ const requestImageUrl = async (config, messages, signal) => {
 
     logBackendOutbound('api-response', { ...requestInfo, status: response.status })
     if (!response.ok) {
+      const detail = extractProviderErrorDetail(data)
       const message =
-        data?.error?.message ||
+        detail.message ||
         (typeof data === 'string' ? data : '') ||
         response.statusText
       logBackendResponse('json-error', { status: response.status, message })
-      throw new Error(message)
+      throw withRateLimitReset(
+        createProviderError(message, { ...detail, status: response.status }),
+        response,
+      )
     }
 
-    const imageUrl = resolveImageFromResponse(data)
-    if (!imageUrl) {
+    const parsed = parseImageResponse(data)
+    if (parsed.images.length === 0) {
       logBackendResponse('json-response', data)
+      assertNotSafetyBlocked(data)
     }
-    return imageUrl
-  }
-
-  const baseInfo = normalizeApiBase(apiUrl)
-  const basePath = baseInfo.origin
-    ? `${baseInfo.origin}${baseInfo.segments.length ? `/${baseInfo.segments.join('/')}` : ''}`
-    : String(apiUrl || '').replace(/\/+$/, '')
-  const version = resolveApiVersion(apiUrl, config.apiVersion, 'v1')
-  const hasVersion = Boolean(inferApiVersionFromUrl(apiUrl))
-  const openAiBase = hasVersion ? basePath : `${basePath}/${version}`
-  const chatUrl = openAiBase.endsWith('/chat/completions')
-    ? openAiBase
-    : `${openAiBase}/chat/completions`
-  const headers = {
-    Authorization: `Bearer ${config.apiKey}`,
-    'x-api-key': config.apiKey,
-    'Content-Type': 'application/json',
-    Connection: 'close',
+    return parsed
   }
 
   if (config.stream) {
     const requestInfo = {
-      url: chatUrl,
+      url: built.url,
       model: config.model,
       stream: true,
     }
@@ -659,7 +506,7 @@ const requestImageUrl = async (config, messages, signal) => {
       response = await fetch(requestInfo.url, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ model: config.model, messages, stream: true }),
+        body,
         signal,
       })
     } catch (err) {
@@ -671,13 +518,11 @@ const requestImageUrl = async (config, messages, signal) => {
     }
     logBackendOutbound('api-response', { ...requestInfo, status: response.status })
     if (!response.ok) {
-      const message = await readResponseError(response)
-      logBackendResponse('stream-error', { status: response.status, message })
-      throw new Error(message)
+      await throwResponseError(response, 'stream-error')
     }
     const reader = response.body?.getReader()
     const decoder = new TextDecoder()
-    let generatedText = ''
+    const chunks = []
     let pending = ''
     const consumeLine = (line) => {
       const cleaned = line.replace(/\r$/, '')
@@ -685,10 +530,7 @@ const requestImageUrl = async (config, messages, signal) => {
       const payload = cleaned.slice(5).trimStart()
       if (!payload || payload === '[DONE]') return
       try {
-        const json = JSON.parse(payload)
-        const delta = json.choices?.[0]?.delta
-        if (delta?.content) generatedText += delta.content
-        if (delta?.reasoning_content) generatedText += delta.reasoning_content
+        chunks.push(JSON.parse(payload))
       } catch {
         // ignore chunk parse errors
       }
@@ -712,15 +554,17 @@ const requestImageUrl = async (config, messages, signal) => {
     if (pending) {
       consumeLine(pending)
     }
-    const imageUrl = parseMarkdownImage(generatedText)
-    if (!imageUrl) {
-      logBackendResponse('stream-response', generatedText)
+    // n 大于 1 时各个 choice 的分块交错到达，按 index 合并后统一解析
+    const merged = mergeOpenAiStreamChunks(chunks)
+    const parsed = parseImageResponse(merged)
+    if (parsed.images.length === 0) {
+      logBackendResponse('stream-response', merged)
     }
-    return imageUrl
+    return parsed
   }
 
   const requestInfo = {
-    url: chatUrl,
+    url: built.url,
     model: config.model,
     stream: false,
   }
@@ -730,7 +574,7 @@ const requestImageUrl = async (config, messages, signal) => {
     response = await fetch(requestInfo.url, {
       method: 'POST',
       headers,
-      body: JSON.stringify({ model: config.model, messages, stream: false }),
+      body,
       signal,
     })
   } catch (err) {
@@ -742,19 +586,18 @@ const requestImageUrl = async (config, messages, signal) => {
   }
   logBackendOutbound('api-response', { ...requestInfo, status: response.status })
   if (!response.ok) {
-    const message = await readResponseError(response)
-    logBackendResponse('json-error', { status: response.status, message })
-    throw new Error(message)
+    await throwResponseError(response, 'json-error')
   }
   const data = await response.json()
-  const imageUrl = resolveImageFromResponse(data)
-  if (!imageUrl) {
+  const parsed = parseImageResponse(data)
+  if (parsed.images.length === 0) {
     logBackendResponse('json-response', data)
+    assertNotSafetyBlocked(data)
   }
-  return imageUrl
+  return parsed
 }
 
-const downloadImageBuffer = async (imageUrl) => {
+const downloadImageBuffer = async (imageUrl, signal) => {
   if (!imageUrl) return null
   if (imageUrl.startsWith('data:image')) {
     const parsed = parseDataUrl(imageUrl)
@@ -764,52 +607,93 @@ const downloadImageBuffer = async (imageUrl) => {
   if (!/^https?:\/\//i.test(imageUrl)) {
     return null
   }
-  let response
   try {
-    response = await fetch(imageUrl, { headers: { Connection: 'close' } })
+    return await downloadRemoteImage(imageUrl, { signal })
   } catch (err) {
+    if (signal?.aborted) throw err
     logBackendOutbound('image-download-error', {
       url: imageUrl,
+      status: err?.status,
       error: describeFetchError(err),
     })
     throw err
   }
-  if (!response.ok) {
-    logBackendOutbound('image-download-response', {
-      url: imageUrl,
-      status: response.status,
-    })
-    throw new Error(response.statusText)
-  }
-  const arrayBuffer = await response.arrayBuffer()
-  const contentType = response.headers.get('content-type') || 'application/octet-stream'
-  return { buffer: Buffer.from(arrayBuffer), contentType }
 }
 
-const scheduleRetry = (taskId, subTaskId) => {
+const scheduleRetry = (workspaceId, taskId, subTaskId, delayMs) => {
   if (retryTimers.has(subTaskId)) return
   const timer = setTimeout(async () => {
     retryTimers.delete(subTaskId)
-    const taskState = await loadTaskState(taskId)
+    const taskState = await loadTaskState(workspaceId, taskId)
     if (!taskState) return
     const resultIndex = taskState.results.findIndex((item) => item.id === subTaskId)
     if (resultIndex === -1) return
     const current = taskState.results[resultIndex]
     if (current?.autoRetry === false) return
     if (current.status !== 'loading') return
-    void runSubTask(taskId, subTaskId)
-  }, RETRY_DELAY_MS)
+    void enqueueSubTask(workspaceId, taskId, subTaskId)
+  }, delayMs)
   retryTimers.set(subTaskId, timer)
 }
 
-const runSubTask = async (taskId, subTaskId, options = {}) => {
+// 在任务锁内按 ID 替换子任务结果，updater 可顺带修改任务统计；任务或子任务已不存在时不写入
+const updateSubTaskResult = (workspaceId, taskId, subTaskId, updater) =>
+  updateTaskState(workspaceId, taskId, (taskState) => {
+    const index = taskState ? taskState.results.findIndex((item) => item.id === subTaskId) : -1
+    if (index === -1) return null
+    taskState.results[index] = updater(taskState.results[index], taskState)
+    return taskState
+  })
+
+// 供应商池按首个配置分组限流，失败切换后的请求仍占用同一个槽位
+const resolveTaskProviderKey = (config, taskState) =>
+  resolveProviderKey(
+    applyTaskOverrides(
+      resolvePrimaryProviderConfig(config, taskState?.providerSelection) || config,
+      taskState?.overrides,
+    ),
+  )
+
+// 正在限流的密钥排到最后；全部都在限流时直接返回最早的恢复时间，不再发请求
+const orderCandidatesByRateLimit = (candidates, taskState) => {
+  const available = []
+  const limited = []
+  candidates.forEach((candidate) => {
+    const until = getKeyRateLimitedUntil(applyTaskOverrides(candidate.config, taskState.overrides))
+    if (until) {
+      limited.push({ candidate, until })
+    } else {
+      available.push(candidate)
+    }
+  })
+  const earliest = limited.length > 0 ? Math.min(...limited.map((item) => item.until)) : null
+  return {
+    candidates: [...available, ...limited.map((item) => item.candidate)],
+    pausedUntil: available.length === 0 ? earliest : null,
+  }
+}
+
+const enqueueSubTask = async (workspaceId, taskId, subTaskId, options = {}) => {
+  if (activeControllers.has(subTaskId) || isSubTaskScheduled(subTaskId)) return
+  const backendState = await loadBackendState(workspaceId)
+  const taskState = await loadTaskState(workspaceId, taskId)
+  enqueueJob({
+    workspaceId,
+    taskId,
+    subTaskId,
+    providerKey: resolveTaskProviderKey(backendState.config, taskState),
+    run: () => runSubTask(workspaceId, taskId, subTaskId, options),
+  })
+}
+
+const runSubTask = async (workspaceId, taskId, subTaskId, options = {}) => {
   const countRequest = options.countRequest !== false
   if (activeControllers.has(subTaskId)) return
   clearRetryTimer(subTaskId)
   const controller = new AbortController()
   activeControllers.set(subTaskId, controller)
 
-  const taskState = await loadTaskState(taskId)
+  const taskState = await loadTaskState(workspaceId, taskId)
   if (!taskState) {
     activeControllers.delete(subTaskId)
     return
@@ -824,76 +708,190 @@ const runSubTask = async (taskId, subTaskId, options = {}) => {
   }
 
   const currentResult = taskState.results[resultIndex]
+  const limitState = await loadBackendState(workspaceId)
+  const { pausedUntil } = orderCandidatesByRateLimit(
+    resolveProviderCandidates(limitState.config, taskState.providerSelection, { advance: false }),
+    taskState,
+  )
+  if (pausedUntil) {
+    // 所有可用密钥都在限流：不发请求、不计入尝试次数，等到恢复时间再排队
+    await updateSubTaskResult(workspaceId, taskId, subTaskId, (current) => ({
+      ...current,
+      status: 'loading',
+      errorKind: 'rate_limit',
+      nextRetryAt: pausedUntil,
+      rateLimitedUntil: pausedUntil,
+      autoRetry: current?.autoRetry !== false,
+    }))
+    activeControllers.delete(subTaskId)
+    pauseProvider(resolveTaskProviderKey(limitState.config, taskState), pausedUntil)
+    scheduleRetry(workspaceId, taskId, subTaskId, pausedUntil - Date.now())
+    return
+  }
   const startTime =
     typeof currentResult?.startTime === 'number' && Number.isFinite(currentResult.startTime)
       ? currentResult.startTime
       : Date.now()
-  taskState.results[resultIndex] = {
-    ...currentResult,
-    status: 'loading',
-    error: currentResult?.error,
-    startTime,
-    endTime: undefined,
-    duration: undefined,
-    autoRetry: currentResult?.autoRetry !== false,
-    savedLocal: false,
-  }
-  if (countRequest) {
-    taskState.stats = updateStats(taskState.stats, 'request')
+  const started = await updateSubTaskResult(workspaceId, taskId, subTaskId, (current, state) => {
+    if (countRequest) {
+      state.stats = updateStats(state.stats, 'request')
+    }
+    return {
+      ...current,
+      status: 'loading',
+      error: current?.error,
+      nextRetryAt: undefined,
+      rateLimitedUntil: undefined,
+      usage: undefined,
+      cost: undefined,
+      startTime,
+      endTime: undefined,
+      duration: undefined,
+      autoRetry: current?.autoRetry !== false,
+      savedLocal: false,
+    }
+  })
+  if (!started) {
+    activeControllers.delete(subTaskId)
+    return
   }
-  await saveTaskState(taskId, taskState)
   if (countRequest) {
-    await updateGlobalStats('request')
+    await updateGlobalStats(workspaceId, 'request')
   }
 
   try {
-    const backendState = await loadBackendState()
+    const backendState = await loadBackendState(workspaceId)
     const shouldCollect = Boolean(backendState?.config?.enableCollection)
-    const messages = await buildMessagesForTask(taskState)
-    const imageUrl = await requestImageUrl(backendState.config, messages, controller.signal)
-    if (!imageUrl) {
-      throw new Error('未在响应中找到图片数据')
+    const { candidates } = orderCandidatesByRateLimit(
+      resolveProviderCandidates(backendState.config, taskState.providerSelection),
+      taskState,
+    )
+    const { parsed, requestConfig: usedConfig } = await runWithProviderFailover(
+      candidates,
+      async (candidate) => {
+        // 任务级覆盖在供应商配置之后合并，保证本任务指定的模型、比例等优先生效
+        const requestConfig = applyTaskOverrides(candidate.config, taskState.overrides)
+        const references = await buildReferencesForTask(workspaceId, taskState, requestConfig)
+        try {
+          const result = await requestImages(
+            requestConfig,
+            {
+              prompt: taskState.prompt,
+              references,
+              imageCount: normalizeImagesPerRequest(taskState.imagesPerRequest),
+            },
+            controller.signal,
+          )
+          return { parsed: result, requestConfig }
+        } catch (err) {
+          if (err?.rateLimitResetAt) {
+            markKeyRateLimited(requestConfig, err.rateLimitResetAt)
+          }
+          throw err
+        }
+      },
+      {
+        resolveErrorKind,
+        signal: controller.signal,
+        onFailover: (candidate, err, next) => {
+          console.warn(
+            `供应商 ${candidate.profileName} (密钥 #${candidate.keyIndex + 1}) 请求失败，切换到 ${next.profileName} (密钥 #${next.keyIndex + 1}):`,
+            err?.message || err,
+          )
+        },
+      },
+    )
+    if (parsed.images.length === 0) {
+      throw createProviderError('未在响应中找到图片数据', { kind: 'no_image' })
     }
-    const downloaded = await downloadImageBuffer(imageUrl)
-    if (!downloaded) {
+    const savedImages = []
+    for (const [index, imageUrl] of parsed.images.entries()) {
+      try {
+        const downloaded = await downloadImageBuffer(imageUrl, controller.signal)
+        if (!downloaded) continue
+        savedImages.push(await saveBackendImageBuffer(workspaceId, downloaded.buffer, downloaded.contentType))
+      } catch (err) {
+        // 首张图失败或任务已取消时交给外层处理，附加图片失败只记录日志
+        if (index === 0 || controller.signal.aborted) throw err
+        console.warn('附加图片下载失败:', err)
+      }
+    }
+    if (savedImages.length === 0) {
       throw new Error('图片下载失败')
     }
-    const saved = await saveBackendImageBuffer(downloaded.buffer, downloaded.contentType)
     const endTime = Date.now()
     const duration = endTime - startTime
-
-    const freshState = await loadTaskState(taskId)
-    if (!freshState) return
-    const freshIndex = freshState.results.findIndex((item) => item.id === subTaskId)
-    if (freshIndex === -1) return
-    freshState.results[freshIndex] = {
-      ...freshState.results[freshIndex],
+    // 用量按整次请求记在第一张图上，花费按价格表中匹配到的模型计算
+    const usage = normalizeUsage(parsed.usage)
+    const cost = computeUsageCost(
+      usage,
+      findModelPrice(backendState.config.priceTable, usedConfig.model),
+      savedImages.length,
+    )
+
+    const buildSuccessResult = (saved) => ({
       status: 'success',
       error: undefined,
+      errorKind: undefined,
+      nextRetryAt: undefined,
+      rateLimitedUntil: undefined,
       localKey: saved.fileName,
       sourceUrl: `/api/backend/image/${encodeURIComponent(saved.fileName)}`,
       savedLocal: false,
       autoRetry: false,
+      startTime,
       endTime,
       duration,
+    })
+    // 一次响应里的多张图各自成为独立的子任务结果，并按「一次请求一张图」计入统计
+    const extraResults = savedImages.slice(1).map((saved) => ({
+      id: crypto.randomUUID(),
+      retryCount: 0,
+      ...buildSuccessResult(saved),
+    }))
+    const resultIds = [subTaskId, ...extraResults.map((item) => item.id)]
+    const completed = await updateTaskState(workspaceId, taskId, (freshState) => {
+      const freshIndex = freshState ? freshState.results.findIndex((item) => item.id === subTaskId) : -1
+      if (freshIndex === -1) return null
+      freshState.results[freshIndex] = {
+        ...freshState.results[freshIndex],
+        ...buildSuccessResult(savedImages[0]),
+        usage: usage || undefined,
+        cost: cost || undefined,
+      }
+      freshState.results.splice(freshIndex + 1, 0, ...extraResults)
+      if (extraResults.length > 0) {
+        freshState.stats = updateStats(freshState.stats, 'request', undefined, extraResults.length)
+      }
+      resultIds.forEach(() => {
+        freshState.stats = updateStats(freshState.stats, 'success', duration)
+      })
+      freshState.stats = addUsageToStats(freshState.stats, usage, cost)
+      return freshState
+    })
+    if (!completed) return
+    if (extraResults.length > 0) {
+      await updateGlobalStats(workspaceId, 'request', undefined, extraResults.length)
+    }
+    for (let i = 0; i < resultIds.length; i += 1) {
+      await updateGlobalStats(workspaceId, 'success', duration)
     }
-    freshState.stats = updateStats(freshState.stats, 'success', duration)
-    await saveTaskState(taskId, freshState)
-    await updateGlobalStats('success', duration)
+    await updateGlobalUsage(workspaceId, usage, cost, endTime)
     if (shouldCollect) {
       const items = []
       const timestamp = endTime
       const taskKey = typeof taskId === 'string' ? taskId : ''
       const prompt = requestPrompt || ''
-      if (saved?.fileName) {
+      savedImages.forEach((saved, index) => {
+        if (!saved?.fileName) return
         items.push({
-          id: buildResultCollectionKey(subTaskId, timestamp),
+          id: buildResultCollectionKey(resultIds[index], timestamp),
           prompt,
           timestamp,
           taskId: taskKey,
           localKey: path.basename(String(saved.fileName)),
         })
-      }
+      })
       if (requestUploads.length > 0) {
         requestUploads.forEach((upload) => {
           const uploadKey =
@@ -921,143 +919,262 @@ const runSubTask = async (taskId, subTaskId, options = {}) => {
           })
         })
       }
-      appendBackendCollectionItems(items)
+      appendBackendCollectionItems(workspaceId, items)
     }
   } catch (err) {
     if (controller.signal.aborted) {
       return
     }
     const errorMessage = err?.message || '未知错误'
-    const freshState = await loadTaskState(taskId)
-    if (!freshState) return
-    const freshIndex = freshState.results.findIndex((item) => item.id === subTaskId)
-    if (freshIndex === -1) return
-    const current = freshState.results[freshIndex]
-    const shouldRetry = current?.autoRetry !== false
-    if (shouldRetry) {
-      freshState.results[freshIndex] = {
-        ...current,
-        status: 'loading',
-        error: `${errorMessage} (1s后重试...)`,
-        retryCount: (current.retryCount || 0) + 1,
-        autoRetry: true,
+    const errorKind = resolveErrorKind(err)
+    const backendState = await loadBackendState(workspaceId)
+    const retryPolicy = normalizeRetryPolicy(backendState?.config?.retryPolicy)
+    const isPermanent = isPermanentErrorKind(errorKind)
+    const rateLimitedUntil =
+      errorKind === 'rate_limit' && err?.rateLimitResetAt > Date.now() ? err.rateLimitResetAt : null
+    let retryDelayMs = null
+    await updateSubTaskResult(workspaceId, taskId, subTaskId, (current, freshState) => {
+      const nextRetryCount = (current.retryCount || 0) + 1
+      const canRetry = hasRetryAttemptsLeft(retryPolicy, nextRetryCount)
+      const shouldRetry = current?.autoRetry !== false && canRetry && !isPermanent
+      if (rateLimitedUntil) {
+        const { pausedUntil } = orderCandidatesByRateLimit(
+          resolveProviderCandidates(backendState.config, freshState.providerSelection, {
+            advance: false,
+          }),
+          freshState,
+        )
+        if (pausedUntil) {
+          pauseProvider(resolveTaskProviderKey(backendState.config, freshState), pausedUntil)
+        }
       }
-      await saveTaskState(taskId, freshState)
-      scheduleRetry(taskId, subTaskId)
-    } else {
-      freshState.results[freshIndex] = {
+      if (shouldRetry) {
+        // 限流时至少等到供应商给出的恢复时间，避免提前重试加重限流
+        retryDelayMs = Math.max(
+          computeRetryDelay(retryPolicy, nextRetryCount),
+          rateLimitedUntil ? rateLimitedUntil - Date.now() : 0,
+        )
+        return {
+          ...current,
+          status: 'loading',
+          error: `${errorMessage} (${formatRetryDelay(retryDelayMs)}后重试...)`,
+          errorKind,
+          retryCount: nextRetryCount,
+          nextRetryAt: Date.now() + retryDelayMs,
+          rateLimitedUntil: rateLimitedUntil || undefined,
+          autoRetry: true,
+        }
+      }
+      return {
         ...current,
         status: 'error',
-        error: errorMessage,
+        error:
+          canRetry || isPermanent
+            ? errorMessage
+            : `${errorMessage} (已达最大尝试次数 ${retryPolicy.maxAttempts})`,
+        errorKind,
+        nextRetryAt: undefined,
+        rateLimitedUntil: undefined,
         endTime: Date.now(),
         autoRetry: false,
       }
-      await saveTaskState(taskId, freshState)
+    })
+    if (retryDelayMs !== null) {
+      scheduleRetry(workspaceId, taskId, subTaskId, retryDelayMs)
     }
   } finally {
     activeControllers.delete(subTaskId)
   }
 }
 
-const startGeneration = async (taskId) => {
-  const taskState = (await loadTaskState(taskId)) || createDefaultTaskState()
-  const previousState = {
-    ...taskState,
-    results: Array.isArray(taskState.results) ? [...taskState.results] : [],
-    uploads: Array.isArray(taskState.uploads) ? [...taskState.uploads] : [],
-  }
-  taskState.results.forEach((result) => {
-    abortActiveController(result.id)
-    clearRetryTimer(result.id)
+// append 为 true 时保留已有结果，把新一轮的子任务追加在后面（定时计划使用），否则替换上一轮结果
+const startGeneration = async (workspaceId, taskId, { append = false } = {}) => {
+  let previousState = null
+  let concurrency = 0
+  let newResults = []
+  const taskState = await updateTaskState(workspaceId, taskId, (current) => {
+    const next = current || createDefaultTaskState()
+    previousState = {
+      ...next,
+      results: Array.isArray(next.results) ? [...next.results] : [],
+      uploads: Array.isArray(next.uploads) ? [...next.uploads] : [],
+    }
+    if (!append) {
+      next.results.forEach((result) => {
+        abortActiveController(result.id)
+        clearRetryTimer(result.id)
+      })
+    }
+    concurrency = normalizeConcurrency(next.concurrency)
+    newResults = createLoadingResults(concurrency)
+    next.results = mergeGenerationResults(previousState.results, newResults, { append })
+    next.stats = updateStats(next.stats, 'request', undefined, concurrency)
+    return next
   })
-  const concurrency = normalizeConcurrency(taskState.concurrency)
-  const startTime = Date.now()
-  taskState.results = Array.from({ length: concurrency }).map(() => ({
-    id: crypto.randomUUID(),
-    status: 'loading',
-    retryCount: 0,
-    startTime,
-    autoRetry: true,
-    savedLocal: false,
-  }))
-  taskState.stats = updateStats(taskState.stats, 'request', undefined, concurrency)
-  await saveTaskState(taskId, taskState)
-  await updateGlobalStats('request', undefined, concurrency)
-  const removedKeys = getRemovedImageKeys(previousState, taskState)
-  await cleanupUnusedImages(removedKeys)
-  scheduleOrphanCleanup()
-  taskState.results.forEach((result) => {
-    void runSubTask(taskId, result.id, { countRequest: false })
+  await updateGlobalStats(workspaceId, 'request', undefined, concurrency)
+  if (!append) {
+    const removedKeys = getRemovedImageKeys(previousState, taskState)
+    await cleanupUnusedImages(workspaceId, removedKeys)
+    scheduleOrphanCleanup(workspaceId)
+  }
+  newResults.forEach((result) => {
+    void enqueueSubTask(workspaceId, taskId, result.id, { countRequest: false })
   })
   return taskState
 }
 
-const retrySubTask = async (taskId, subTaskId) => {
-  const taskState = await loadTaskState(taskId)
-  if (!taskState) return null
-  const resultIndex = taskState.results.findIndex((item) => item.id === subTaskId)
-  if (resultIndex === -1) return taskState
-  const startTime = Date.now()
-  const current = taskState.results[resultIndex]
-  const removedKey = current?.localKey
-  clearRetryTimer(subTaskId)
-  taskState.results[resultIndex] = {
-    ...current,
-    status: 'loading',
-    error: undefined,
-    retryCount: current.retryCount || 0,
-    startTime,
-    endTime: undefined,
-    duration: undefined,
-    localKey: undefined,
-    sourceUrl: undefined,
-    autoRetry: true,
-    savedLocal: false,
-  }
-  await saveTaskState(taskId, taskState)
+// 定时计划触发时调用：上一轮仍在生成就推迟，避免打断进行中的请求；
+// 每轮的结果追加保留，不会清掉之前几轮生成的图片
+const runScheduledGeneration = async (workspaceId, taskId) => {
+  const taskState = await loadTaskState(workspaceId, taskId)
+  if (!taskState) return 'missing'
+  if (isTaskGenerating(taskState)) return 'busy'
+  await startGeneration(workspaceId, taskId, { append: true })
+  return 'started'
+}
+
+const retrySubTask = async (workspaceId, taskId, subTaskId) => {
+  let removedKey
+  const taskState = await updateSubTaskResult(workspaceId, taskId, subTaskId, (current) => {
+    removedKey = current?.localKey
+    clearRetryTimer(subTaskId)
+    return {
+      ...current,
+      status: 'loading',
+      error: undefined,
+      errorKind: undefined,
+      retryCount: 0,
+      nextRetryAt: undefined,
+      rateLimitedUntil: undefined,
+      startTime: Date.now(),
+      endTime: undefined,
+      duration: undefined,
+      localKey: undefined,
+      sourceUrl: undefined,
+      autoRetry: true,
+      savedLocal: false,
+    }
+  })
+  // 子任务已不存在时原样返回任务，任务不存在时返回 null
+  if (!taskState) return loadTaskState(workspaceId, taskId)
   if (removedKey) {
-    await cleanupUnusedImages([removedKey])
+    await cleanupUnusedImages(workspaceId, [removedKey])
   }
-  scheduleOrphanCleanup()
-  void runSubTask(taskId, subTaskId)
+  scheduleOrphanCleanup(workspaceId)
+  void enqueueSubTask(workspaceId, taskId, subTaskId)
   return taskState
 }
 
+// 重启后内存中的请求与重试定时器都已丢失，按重试策略恢复仍处于 loading 的子任务
+const resumeWorkspaceSubTasks = async (workspaceId) => {
+  const backendState = await loadBackendState(workspaceId)
+  const retryPolicy = normalizeRetryPolicy(backendState?.config?.retryPolicy)
+  const taskIds = await listTaskIds(workspaceId)
+  let resumed = 0
+  let interrupted = 0
+  for (const taskId of taskIds) {
+    const now = Date.now()
+    const toEnqueue = []
+    const toSchedule = []
+    const taskState = await updateTaskState(workspaceId, taskId, (current) => {
+      if (!current || !Array.isArray(current.results)) return null
+      let changed = false
+      const results = current.results.map((item) => {
+        if (item?.status !== 'loading') return item
+        changed = true
+        const waitingRetry = typeof item.nextRetryAt === 'number' && Number.isFinite(item.nextRetryAt)
+        // 重启时正在请求中的那次尝试视为失败，计入已尝试次数
+        const retryCount = waitingRetry ? item.retryCount || 0 : (item.retryCount || 0) + 1
+        if (item.autoRetry === false || !hasRetryAttemptsLeft(retryPolicy, retryCount)) {
+          interrupted += 1
+          return {
+            ...item,
+            status: 'error',
+            error: '服务重启后已中断',
+            errorKind: undefined,
+            nextRetryAt: undefined,
+            rateLimitedUntil: undefined,
+            autoRetry: false,
+            endTime: now,
+          }
+        }
+        resumed += 1
+        if (waitingRetry && item.nextRetryAt > now) {
+          toSchedule.push({ id: item.id, delayMs: item.nextRetryAt - now })
+          return item
+        }
+        toEnqueue.push(item.id)
+        return {
+          ...item,
+          retryCount,
+          nextRetryAt: undefined,
+          rateLimitedUntil: undefined,
+          error: '服务重启，已恢复执行',
+        }
+      })
+      return changed ? { ...current, results } : null
+    })
+    if (!taskState) continue
+    toSchedule.forEach(({ id, delayMs }) => scheduleRetry(workspaceId, taskId, id, delayMs))
+    toEnqueue.forEach((id) => {
+      void enqueueSubTask(workspaceId, taskId, id)
+    })
+  }
+  return { resumed, interrupted }
+}
+
+const resumeInterruptedSubTasks = async () => {
+  let resumed = 0
+  let interrupted = 0
+  for (const workspaceId of await listWorkspaceIds()) {
+    const counts = await resumeWorkspaceSubTasks(workspaceId)
+    resumed += counts.resumed
+    interrupted += counts.interrupted
+  }
+  if (resumed || interrupted) {
+    console.log(`[server] 已恢复 ${resumed} 个中断的子任务，${interrupted} 个标记为中断`)
+  }
+}
+
 const normalizeStopMode = (mode) => (mode === 'abort' ? 'abort' : 'pause')
 
-const stopSubTask = async (taskId, subTaskId, mode = 'pause') => {
-  const taskState = await loadTaskState(taskId)
-  if (!taskState) return null
-  const resolvedMode = normalizeStopMode(mode)
-  const shouldAbort = resolvedMode === 'abort'
-  const targets = subTaskId
-    ? taskState.results.filter((item) => item.id === subTaskId)
-    : taskState.results
-
-  targets.forEach((target) => {
-    if (shouldAbort) {
-      abortActiveController(target.id)
-    }
-    clearRetryTimer(target.id)
-  })
+const stopSubTask = (workspaceId, taskId, subTaskId, mode = 'pause') =>
+  updateTaskState(workspaceId, taskId, (taskState) => {
+    if (!taskState) return null
+    const resolvedMode = normalizeStopMode(mode)
+    const shouldAbort = resolvedMode === 'abort'
+    const targets = subTaskId
+      ? taskState.results.filter((item) => item.id === subTaskId)
+      : taskState.results
+
+    targets.forEach((target) => {
+      if (shouldAbort) {
+        abortActiveController(target.id)
+      }
+      clearRetryTimer(target.id)
+    })
 
-  const nextResults = taskState.results.map((item) => {
-    if (subTaskId && item.id !== subTaskId) return item
-    if (item.status !== 'loading') return item
-    return {
-      ...item,
-      status: 'error',
-      error: shouldAbort ? '已停止' : '已暂停重试',
-      autoRetry: false,
-      endTime: shouldAbort ? Date.now() : item.endTime,
-    }
+    const nextResults = taskState.results.map((item) => {
+      if (subTaskId && item.id !== subTaskId) return item
+      if (item.status !== 'loading') return item
+      return {
+        ...item,
+        status: 'error',
+        error: shouldAbort ? '已停止' : '已暂停重试',
+        errorKind: undefined,
+        nextRetryAt: undefined,
+        rateLimitedUntil: undefined,
+        autoRetry: false,
+        endTime: shouldAbort ? Date.now() : item.endTime,
+      }
+    })
+    return { ...taskState, results: nextResults }
   })
-  const nextState = { ...taskState, results: nextResults }
-  await saveTaskState(taskId, nextState)
-  return nextState
-}
 
 const app = express()
+if (backendTrustProxy) {
+  app.set('trust proxy', backendTrustProxy)
+}
 
 app.use(express.json({ limit: '50mb' }))
 if (backendLogRequests) {
@@ -1075,11 +1192,19 @@ if (backendLogRequests) {
   })
 }
 
-void cleanupOrphanedImages().catch((err) => {
-  console.warn('启动时清理后端图片缓存失败:', err)
-})
+await initBackendStorage()
+await initImageStorage()
+
+void listWorkspaceIds()
+  .then(async (workspaceIds) => {
+    for (const workspaceId of workspaceIds) {
+      await cleanupOrphanedImages(workspaceId)
+    }
+  })
+  .catch((err) => {
+    console.warn('启动时清理后端图片缓存失败:', err)
+  })
 
-const backendTokens = new Set()
 const PROMPT_MANAGER_URL = 'https://prompt.vioaki.xyz/api/gallery'
 
 app.get('/api/prompt-manager', async (_req, res) => {
@@ -1088,7 +1213,7 @@ app.get('/api/prompt-manager', async (_req, res) => {
       headers: { Accept: 'application/json', Connection: 'close' },
     })
     if (!response.ok) {
-      const message = await readResponseError(response)
+      const { message } = await readResponseError(response)
       res.status(response.status).json({ error: message })
       return
     }
@@ -1100,35 +1225,161 @@ app.get('/api/prompt-manager', async (_req, res) => {
   }
 })
 
-const requireBackendAuth = (req, res, next) => {
+const BACKEND_STREAM_PATH = '/api/backend/stream'
+const BACKEND_IMAGE_PATH = '/api/backend/image/:key'
+
+// 多用户模式下工作区必须对应现有用户（账号被删除后随之失效）；单密码模式只有根工作区
+const resolveWorkspaceUser = async (userId) => {
+  const user = userId ? await findUserById(userId) : null
+  const valid = (await isMultiUserMode()) ? Boolean(user) : !userId
+  return valid ? { user } : null
+}
+
+const requireBackendAuth = async (req, res, next) => {
   const headerToken = req.headers['x-backend-token']
-  const queryToken = req.query?.token
+  // EventSource 无法设置请求头，只有事件流允许把令牌放在查询参数里
+  const queryToken = req.route?.path === BACKEND_STREAM_PATH ? req.query?.token : undefined
   const token = Array.isArray(headerToken)
     ? headerToken[0]
     : (headerToken || queryToken)
-  if (!token || !backendTokens.has(token)) {
-    res.status(401).json({ error: 'Unauthorized' })
+  try {
+    // 图片 GET 可以改用签名地址，签名只对这一张图片有效，签发它的会话撤销或过期后随之失效
+    if (!token && req.method === 'GET' && req.route?.path === BACKEND_IMAGE_PATH && req.query?.sig) {
+      const signed = verifyImageSignature(path.basename(req.params.key), req.query)
+      const signedSession = signed ? await findBackendSession(signed.sessionId) : null
+      const resolved =
+        signedSession && (signedSession.userId || '') === signed.workspaceId
+          ? await resolveWorkspaceUser(signed.workspaceId)
+          : null
+      if (!resolved) {
+        res.status(401).json({ error: 'Unauthorized' })
+        return
+      }
+      req.backendUser = resolved.user
+      req.workspaceId = signed.workspaceId
+      next()
+      return
+    }
+    const session = token ? await verifyBackendToken(token) : null
+    const resolved = session ? await resolveWorkspaceUser(session.userId || '') : null
+    if (!resolved) {
+      res.status(401).json({ error: 'Unauthorized' })
+      return
+    }
+    const { user } = resolved
+    req.backendSession = session
+    req.backendUser = user
+    req.workspaceId = user ? user.id : ''
+  } catch (err) {
+    console.error('backend auth error:', err)
+    res.status(500).json({ error: 'Auth Error' })
     return
   }
   next()
 }
 
+const sendAuthLocked = (res, lockedUntil) => {
+  res.set('Retry-After', String(Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000))))
+  res.status(429).json({ error: 'Too many failed attempts', lockedUntil })
+}
+
 app.post('/api/backend/auth', async (req, res) => {
-  if (!backendPassword) {
-    res.status(500).json({ error: 'BACKEND_PASSWORD not set' })
-    return
+  const { username, password } = req.body || {}
+  const ip = req.ip || ''
+  const rejectAuth = (error) => {
+    const lockedUntil = recordAuthFailure(ip, {
+      username: typeof username === 'string' ? username : undefined,
+      userAgent: req.headers['user-agent'],
+    })
+    if (lockedUntil) {
+      sendAuthLocked(res, lockedUntil)
+      return
+    }
+    res.status(401).json({ error })
   }
-  const { password } = req.body || {}
-  if (!password || password !== backendPassword) {
-    res.status(401).json({ error: 'Invalid password' })
-    return
+  try {
+    // 先同步计入本次尝试再等待校验，并发请求各自拿到递增后的次数
+    const attempt = beginAuthAttempt(ip)
+    if (attempt.lockedUntil) {
+      sendAuthLocked(res, attempt.lockedUntil)
+      return
+    }
+    await delayAuthAttempt(attempt)
+    let user = null
+    if (await isMultiUserMode()) {
+      user = await authenticateUser(username, password)
+      if (!user) {
+        rejectAuth('Invalid username or password')
+        return
+      }
+    } else {
+      if (!backendPassword) {
+        res.status(500).json({ error: 'BACKEND_PASSWORD not set' })
+        return
+      }
+      if (!password || !safeEqualSecret(password, backendPassword)) {
+        rejectAuth('Invalid password')
+        return
+      }
+    }
+    clearAuthFailures(ip)
+    const { token, session } = await createBackendSession({
+      userId: user ? user.id : '',
+      userAgent: req.headers['user-agent'],
+      ip: req.ip,
+    })
+    res.json({
+      token,
+      sessionId: session.id,
+      expiresAt: session.expiresAt,
+      user: toPublicUser(user),
+    })
+  } catch (err) {
+    console.error('backend session error:', err)
+    res.status(500).json({ error: 'Auth Error' })
   }
-  const token = crypto.randomBytes(16).toString('hex')
-  backendTokens.add(token)
-  res.json({ token })
 })
 
-app.get('/api/backend/stream', requireBackendAuth, async (req, res) => {
+app.post('/api/backend/logout', requireBackendAuth, async (req, res) => {
+  try {
+    await revokeBackendSession(req.backendSession.id, req.workspaceId)
+    res.json({ ok: true })
+  } catch (err) {
+    console.error('backend logout error:', err)
+    res.status(500).json({ error: 'Logout Error' })
+  }
+})
+
+app.get('/api/backend/sessions', requireBackendAuth, async (req, res) => {
+  try {
+    const sessions = await listBackendSessions(req.workspaceId)
+    res.json(
+      sessions.map((session) => ({
+        ...session,
+        current: session.id === req.backendSession.id,
+      })),
+    )
+  } catch (err) {
+    console.error('backend sessions error:', err)
+    res.status(500).json({ error: 'Read Error' })
+  }
+})
+
+app.delete('/api/backend/sessions/:sessionId', requireBackendAuth, async (req, res) => {
+  try {
+    const removed = await revokeBackendSession(req.params.sessionId, req.workspaceId)
+    if (!removed) {
+      res.status(404).json({ error: 'Not Found' })
+      return
+    }
+    res.json({ ok: true })
+  } catch (err) {
+    console.error('backend session revoke error:', err)
+    res.status(500).json({ error: 'Revoke Error' })
+  }
+})
+
+app.get(BACKEND_STREAM_PATH, requireBackendAuth, async (req, res) => {
   res.set({
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache',
@@ -1137,22 +1388,23 @@ app.get('/api/backend/stream', requireBackendAuth, async (req, res) => {
   })
   res.flushHeaders()
   res.write('retry: 2000\n\n')
-  addSseClient(res)
+  addSseClient(res, { sessionId: req.backendSession.id, workspaceId: req.workspaceId })
   req.on('close', () => {
     removeSseClient(res)
   })
   try {
-    const state = await loadBackendState()
-    sendSseEvent(res, 'state', state)
+    const state = await loadBackendState(req.workspaceId)
+    sendSseEvent(res, 'state', redactStateSecrets(state))
+    sendSseEvent(res, 'queue', getQueueSnapshot(req.workspaceId))
   } catch (err) {
     console.warn('初始化事件流状态失败:', err)
   }
 })
 
-app.get('/api/backend/state', requireBackendAuth, async (_req, res) => {
+app.get('/api/backend/state', requireBackendAuth, async (req, res) => {
   try {
-    const state = await loadBackendState()
-    res.json(state)
+    const state = await loadBackendState(req.workspaceId)
+    res.json(redactStateSecrets(state))
   } catch (err) {
     console.error('backend state error:', err)
     res.status(500).json({ error: 'Read Error' })
@@ -1161,43 +1413,45 @@ app.get('/api/backend/state', requireBackendAuth, async (_req, res) => {
 
 app.patch('/api/backend/state', requireBackendAuth, async (req, res) => {
   try {
-    const current = await loadBackendState()
-    const next = { ...current }
-    if (req.body?.configByFormat) {
-      const incoming = req.body.configByFormat
-      if (incoming && typeof incoming === 'object' && !Array.isArray(incoming)) {
-        next.configByFormat = { ...next.configByFormat, ...incoming }
+    const next = await updateBackendState(req.workspaceId, (current) => {
+      const next = { ...current }
+      if (req.body?.configByFormat) {
+        const incoming = req.body.configByFormat
+        if (incoming && typeof incoming === 'object' && !Array.isArray(incoming)) {
+          next.configByFormat = { ...next.configByFormat, ...incoming }
+        }
       }
-    }
-    if (req.body?.config) {
-      next.config = { ...DEFAULT_BACKEND_CONFIG, ...req.body.config }
-      const apiFormat =
-        next.config.apiFormat === 'gemini' || next.config.apiFormat === 'vertex'
-          ? next.config.apiFormat
-          : 'openai'
-      next.config.apiFormat = apiFormat
-      next.configByFormat = {
-        ...next.configByFormat,
-        [apiFormat]: pickFormatConfig(next.config),
+      if (req.body?.config) {
+        next.config = { ...DEFAULT_BACKEND_CONFIG, ...req.body.config }
+        const apiFormat =
+          next.config.apiFormat === 'gemini' || next.config.apiFormat === 'vertex'
+            ? next.config.apiFormat
+            : 'openai'
+        next.config.apiFormat = apiFormat
+        next.configByFormat = {
+          ...next.configByFormat,
+          [apiFormat]: pickFormatConfig(next.config),
+        }
       }
-    }
-    if (Array.isArray(req.body?.tasksOrder)) {
-      next.tasksOrder = Array.from(new Set(req.body.tasksOrder.filter((id) => typeof id === 'string')))
-    }
-    if (req.body?.globalStats) {
-      next.globalStats = { ...DEFAULT_GLOBAL_STATS, ...req.body.globalStats }
-    }
-    await saveBackendState(next)
-    res.json(next)
+      if (Array.isArray(req.body?.tasksOrder)) {
+        next.tasksOrder = Array.from(new Set(req.body.tasksOrder.filter((id) => typeof id === 'string')))
+      }
+      if (req.body?.globalStats) {
+        next.globalStats = { ...DEFAULT_GLOBAL_STATS, ...req.body.globalStats }
+      }
+      // 前端拿到的是脱敏后的密钥，原样提交回来时换回已保存的明文
+      return restoreRedactedSecrets(next, current)
+    })
+    res.json(redactStateSecrets(next))
   } catch (err) {
     console.error('backend state write error:', err)
     res.status(500).json({ error: 'Write Error' })
   }
 })
 
-app.get('/api/backend/collection', requireBackendAuth, async (_req, res) => {
+app.get('/api/backend/collection', requireBackendAuth, async (req, res) => {
   try {
-    const items = await loadBackendCollection()
+    const items = await loadBackendCollection(req.workspaceId)
     res.json(items)
   } catch (err) {
     console.error('backend collection read error:', err)
@@ -1207,17 +1461,20 @@ app.get('/api/backend/collection', requireBackendAuth, async (_req, res) => {
 
 app.put('/api/backend/collection', requireBackendAuth, async (req, res) => {
   try {
-    const previous = await loadBackendCollection()
     const items = normalizeCollectionPayloadForSave(req.body)
-    await saveBackendCollection(items)
+    let previous = []
+    await updateBackendCollection(req.workspaceId, (current) => {
+      previous = current
+      return items
+    })
     const prevKeys = collectImageKeysFromCollection(previous)
     const nextKeys = collectImageKeysFromCollection(items)
     const removedKeys = []
     for (const key of prevKeys) {
       if (!nextKeys.has(key)) removedKeys.push(key)
     }
-    await cleanupUnusedImages(removedKeys)
-    scheduleOrphanCleanup()
+    await cleanupUnusedImages(req.workspaceId, removedKeys)
+    scheduleOrphanCleanup(req.workspaceId)
     res.json(items)
   } catch (err) {
     console.error('backend collection write error:', err)
@@ -1225,16 +1482,26 @@ app.put('/api/backend/collection', requireBackendAuth, async (req, res) => {
   }
 })
 
+// 任务 ID 会拼进存储路径，所有 /api/backend/task/:id 路由先统一校验
+app.use('/api/backend/task/:id', (req, res, next) => {
+  if (!isValidTaskId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid Task ID' })
+    return
+  }
+  next()
+})
+
 app.get('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
   try {
     const taskId = req.params.id
-    const taskState = await loadTaskState(taskId)
+    const taskState = await loadTaskState(req.workspaceId, taskId)
     if (!taskState) {
-      const backendState = await loadBackendState()
+      const backendState = await loadBackendState(req.workspaceId)
       if (backendState.tasksOrder.includes(taskId)) {
-        const next = createDefaultTaskState()
-        await saveTaskState(taskId, next)
-        res.json(next)
+        const next = await updateTaskState(req.workspaceId, taskId, (current) =>
+          current ? null : createDefaultTaskState(),
+        )
+        res.json(next || (await loadTaskState(req.workspaceId, taskId)))
         return
       }
       res.status(404).json({ error: 'Not Found' })
@@ -1250,21 +1517,26 @@ app.get('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
 app.put('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
   try {
     const payload = req.body || {}
-    const previous = await loadTaskState(req.params.id)
-    const next = {
-      ...createDefaultTaskState(),
-      ...payload,
-      concurrency: normalizeConcurrency(payload?.concurrency),
-      stats: { ...DEFAULT_TASK_STATS, ...(payload?.stats || {}) },
-      results: Array.isArray(payload?.results) ? payload.results : [],
-      uploads: Array.isArray(payload?.uploads) ? payload.uploads : [],
-    }
-    await saveTaskState(req.params.id, next)
+    let previous = null
+    const next = await updateTaskState(req.workspaceId, req.params.id, (current) => {
+      previous = current
+      return {
+        ...createDefaultTaskState(),
+        ...payload,
+        concurrency: normalizeConcurrency(payload?.concurrency),
+        imagesPerRequest: normalizeImagesPerRequest(payload?.imagesPerRequest),
+        providerSelection: normalizeProviderSelection(payload?.providerSelection),
+        overrides: normalizeTaskOverrides(payload?.overrides),
+        stats: { ...DEFAULT_TASK_STATS, ...(payload?.stats || {}) },
+        results: Array.isArray(payload?.results) ? payload.results : [],
+        uploads: Array.isArray(payload?.uploads) ? payload.uploads : [],
+      }
+    })
     if (previous) {
       const removedKeys = getRemovedImageKeys(previous, next)
-      await cleanupUnusedImages(removedKeys)
+      await cleanupUnusedImages(req.workspaceId, removedKeys)
     }
-    scheduleOrphanCleanup()
+    scheduleOrphanCleanup(req.workspaceId)
     res.json(next)
   } catch (err) {
     console.error('backend task write error:', err)
@@ -1275,18 +1547,32 @@ app.put('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
 app.patch('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
   try {
     const payload = req.body || {}
-    const current = (await loadTaskState(req.params.id)) || createDefaultTaskState()
-    const next = {
-      ...current,
-      prompt: typeof payload.prompt === 'string' ? payload.prompt : current.prompt,
-      concurrency: normalizeConcurrency(payload?.concurrency, current.concurrency || DEFAULT_CONCURRENCY),
-      enableSound: typeof payload.enableSound === 'boolean' ? payload.enableSound : current.enableSound,
-      uploads: Array.isArray(payload?.uploads) ? payload.uploads : current.uploads,
-    }
-    await saveTaskState(req.params.id, next)
+    let current = null
+    const next = await updateTaskState(req.workspaceId, req.params.id, (existing) => {
+      current = existing || createDefaultTaskState()
+      return {
+        ...current,
+        prompt: typeof payload.prompt === 'string' ? payload.prompt : current.prompt,
+        concurrency: normalizeConcurrency(payload?.concurrency, current.concurrency || DEFAULT_CONCURRENCY),
+        imagesPerRequest: normalizeImagesPerRequest(
+          payload?.imagesPerRequest,
+          current.imagesPerRequest,
+        ),
+        providerSelection: normalizeProviderSelection(
+          payload?.providerSelection,
+          current.providerSelection,
+        ),
+        overrides:
+          payload?.overrides !== undefined
+            ? normalizeTaskOverrides(payload.overrides)
+            : current.overrides,
+        enableSound: typeof payload.enableSound === 'boolean' ? payload.enableSound : current.enableSound,
+        uploads: Array.isArray(payload?.uploads) ? payload.uploads : current.uploads,
+      }
+    })
     const removedKeys = getRemovedImageKeys(current, next)
-    await cleanupUnusedImages(removedKeys)
-    scheduleOrphanCleanup()
+    await cleanupUnusedImages(req.workspaceId, removedKeys)
+    scheduleOrphanCleanup(req.workspaceId)
     res.json(next)
   } catch (err) {
     console.error('backend task patch error:', err)
@@ -1296,7 +1582,7 @@ app.patch('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
 
 app.delete('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
   try {
-    const existing = await loadTaskState(req.params.id)
+    const existing = await loadTaskState(req.workspaceId, req.params.id)
     const removedKeys = existing ? Array.from(collectImageKeysFromTask(existing)) : []
     if (existing?.results) {
       existing.results.forEach((result) => {
@@ -1308,15 +1594,15 @@ app.delete('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
         clearRetryTimer(result.id)
       })
     }
-    await fs.promises.unlink(getTaskFilePath(req.params.id)).catch(() => undefined)
-    const state = await loadBackendState()
-    const next = {
+    await deleteTaskState(req.workspaceId, req.params.id)
+    await updateBackendState(req.workspaceId, (state) => ({
       ...state,
       tasksOrder: state.tasksOrder.filter((id) => id !== req.params.id),
-    }
-    await saveBackendState(next)
-    await cleanupUnusedImages(removedKeys)
-    await cleanupOrphanedImages()
+    }))
+    await removeTaskSchedules(req.workspaceId, req.params.id)
+    await removeTaskShares(req.workspaceId, req.params.id)
+    await cleanupUnusedImages(req.workspaceId, removedKeys)
+    await cleanupOrphanedImages(req.workspaceId)
     res.json({ ok: true })
   } catch (err) {
     console.error('backend task delete error:', err)
@@ -1326,7 +1612,7 @@ app.delete('/api/backend/task/:id', requireBackendAuth, async (req, res) => {
 
 app.post('/api/backend/task/:id/generate', requireBackendAuth, async (req, res) => {
   try {
-    const state = await startGeneration(req.params.id)
+    const state = await startGeneration(req.workspaceId, req.params.id)
     res.json(state)
   } catch (err) {
     console.error('backend generate error:', err)
@@ -1341,7 +1627,7 @@ app.post('/api/backend/task/:id/retry', requireBackendAuth, async (req, res) =>
       res.status(400).json({ error: 'Missing subTaskId' })
       return
     }
-    const state = await retrySubTask(req.params.id, subTaskId)
+    const state = await retrySubTask(req.workspaceId, req.params.id, subTaskId)
     if (!state) {
       res.status(404).json({ error: 'Not Found' })
       return
@@ -1356,7 +1642,7 @@ app.post('/api/backend/task/:id/retry', requireBackendAuth, async (req, res) =>
 app.post('/api/backend/task/:id/stop', requireBackendAuth, async (req, res) => {
   try {
     const { subTaskId, mode } = req.body || {}
-    const state = await stopSubTask(req.params.id, subTaskId, mode)
+    const state = await stopSubTask(req.workspaceId, req.params.id, subTaskId, mode)
     if (!state) {
       res.status(404).json({ error: 'Not Found' })
       return
@@ -1368,6 +1654,62 @@ app.post('/api/backend/task/:id/stop', requireBackendAuth, async (req, res) => {
   }
 })
 
+const sendScheduleError = (res, err, fallback) => {
+  if (err?.code === 'INVALID_SCHEDULE' || err?.code === 'INVALID_CRON') {
+    res.status(400).json({ error: err.message })
+    return
+  }
+  console.error('backend schedule error:', err)
+  res.status(500).json({ error: fallback })
+}
+
+app.get('/api/backend/task/:id/schedules', requireBackendAuth, async (req, res) => {
+  try {
+    res.json(await listTaskSchedules(req.workspaceId, req.params.id))
+  } catch (err) {
+    sendScheduleError(res, err, 'Read Error')
+  }
+})
+
+app.post('/api/backend/task/:id/schedules', requireBackendAuth, async (req, res) => {
+  try {
+    const existing = await loadTaskState(req.workspaceId, req.params.id)
+    if (!existing) {
+      res.status(404).json({ error: 'Not Found' })
+      return
+    }
+    res.json(await createTaskSchedule(req.workspaceId, req.params.id, req.body || {}))
+  } catch (err) {
+    sendScheduleError(res, err, 'Schedule Error')
+  }
+})
+
+app.patch('/api/backend/schedules/:scheduleId', requireBackendAuth, async (req, res) => {
+  try {
+    const schedule = await updateSchedule(req.workspaceId, req.params.scheduleId, req.body || {})
+    if (!schedule) {
+      res.status(404).json({ error: 'Not Found' })
+      return
+    }
+    res.json(schedule)
+  } catch (err) {
+    sendScheduleError(res, err, 'Schedule Error')
+  }
+})
+
+app.delete('/api/backend/schedules/:scheduleId', requireBackendAuth, async (req, res) => {
+  try {
+    const removed = await deleteSchedule(req.workspaceId, req.params.scheduleId)
+    if (!removed) {
+      res.status(404).json({ error: 'Not Found' })
+      return
+    }
+    res.json({ ok: true })
+  } catch (err) {
+    sendScheduleError(res, err, 'Delete Error')
+  }
+})
+
 app.post(
   '/api/backend/upload',
   requireBackendAuth,
@@ -1380,7 +1722,7 @@ app.post(
         return
       }
       const contentType = req.headers['content-type'] || 'application/octet-stream'
-      const result = await saveBackendImageBuffer(buffer, contentType)
+      const result = await saveBackendImageBuffer(req.workspaceId, buffer, contentType)
       res.json({
         key: result.fileName,
         url: `/api/backend/image/${encodeURIComponent(result.fileName)}`,
@@ -1392,21 +1734,38 @@ app.post(
   },
 )
 
-app.get('/api/backend/image/:key', requireBackendAuth, async (req, res) => {
+app.get(BACKEND_IMAGE_PATH, requireBackendAuth, async (req, res) => {
   try {
     const safeName = path.basename(req.params.key)
-    const filePath = path.join(backendImagesDir, safeName)
-    if (!fs.existsSync(filePath)) {
+    if (!(await sendBackendImage(res, req.workspaceId, safeName))) {
       res.status(404).json({ error: 'Not Found' })
-      return
     }
-    res.sendFile(filePath)
   } catch (err) {
     console.error('backend image error:', err)
     res.status(500).json({ error: 'Read Error' })
   }
 })
 
+const MAX_SIGNED_IMAGE_KEYS = 500
+
+// 批量签发图片地址，前端缓存到过期前再重新申请
+app.post('/api/backend/image-urls', requireBackendAuth, (req, res) => {
+  const keys = Array.isArray(req.body?.keys) ? req.body.keys : []
+  if (keys.length > MAX_SIGNED_IMAGE_KEYS) {
+    res.status(400).json({ error: `一次最多签发 ${MAX_SIGNED_IMAGE_KEYS} 个地址` })
+    return
+  }
+  const expiresAt = getImageUrlExpiresAt()
+  const urls = {}
+  keys.forEach((key) => {
+    if (typeof key !== 'string') return
+    const safeName = path.basename(key)
+    if (!safeName) return
+    urls[key] = buildSignedImageUrl(req.workspaceId, req.backendSession.id, safeName, expiresAt)
+  })
+  res.json({ urls, expiresAt })
+})
+
 app.delete('/api/backend/image/:key', requireBackendAuth, async (req, res) => {
   try {
     const safeName = path.basename(req.params.key)
@@ -1414,8 +1773,7 @@ app.delete('/api/backend/image/:key', requireBackendAuth, async (req, res) => {
       res.status(400).json({ error: 'Missing Key' })
       return
     }
-    const filePath = path.join(backendImagesDir, safeName)
-    await fs.promises.unlink(filePath).catch(() => undefined)
+    await deleteBackendImage(req.workspaceId, safeName)
     res.json({ ok: true })
   } catch (err) {
     console.error('backend image delete error:', err)
@@ -1429,8 +1787,8 @@ app.post('/api/backend/images/cleanup', requireBackendAuth, async (req, res) =>
     const normalized = keys
       .map((key) => path.basename(String(key)))
       .filter((key) => key)
-    await cleanupUnusedImages(normalized)
-    scheduleOrphanCleanup()
+    await cleanupUnusedImages(req.workspaceId, normalized)
+    scheduleOrphanCleanup(req.workspaceId)
     res.json({ ok: true })
   } catch (err) {
     console.error('backend image cleanup error:', err)
@@ -1438,27 +1796,179 @@ app.post('/api/backend/images/cleanup', requireBackendAuth, async (req, res) =>
   }
 })
 
-app.post('/api/save-image', async (req, res) => {
+const sendShareError = (res, err, fallback) => {
+  if (err?.code === 'INVALID_SHARE') {
+    res.status(400).json({ error: err.message })
+    return
+  }
+  console.error('backend share error:', err)
+  res.status(500).json({ error: fallback })
+}
+
+// 分享范围内的图片：任务取成功的生成结果，收纳盒取同一提示词分组的生成图（不含参考图）；
+// 范围已不存在或所属账号已删除时返回 null
+const resolveShareGallery = async ({ workspaceId = '', type, target }) => {
+  if (!(await resolveWorkspaceUser(workspaceId))) return null
+  const uniqueKeys = (keys) => Array.from(new Set(keys.filter(Boolean)))
+  if (type === 'task') {
+    // 修复前创建的分享可能带有越界的任务 ID，直接视为失效
+    if (!isValidTaskId(target)) return null
+    const taskState = await loadTaskState(workspaceId, target)
+    if (!taskState) return null
+    return {
+      title: `任务 #${target.slice(0, 6).toUpperCase()}`,
+      prompt: taskState.prompt || '',
+      imageKeys: uniqueKeys(
+        taskState.results
+          .filter((item) => item?.status === 'success' && item.localKey)
+          .map((item) => path.basename(item.localKey)),
+      ),
+    }
+  }
+  const items = (await loadBackendCollection(workspaceId))
+    .filter((item) => !isUploadCollectionKey(item.id) && buildCollectionGroupKey(item.prompt) === target)
+    .sort((a, b) => b.timestamp - a.timestamp)
+  if (items.length === 0) return null
+  return {
+    title: '收纳盒分享',
+    prompt: normalizeCollectionPrompt(items[0].prompt),
+    imageKeys: uniqueKeys(items.map(getCollectionImageKey)),
+  }
+}
+
+app.get('/api/backend/shares', requireBackendAuth, async (req, res) => {
+  try {
+    const type = typeof req.query.type === 'string' ? req.query.type : ''
+    const target = typeof req.query.target === 'string' ? req.query.target : ''
+    const shares = await listShares(req.workspaceId, { type, target })
+    res.json(shares.map(toPublicShare))
+  } catch (err) {
+    sendShareError(res, err, 'Read Error')
+  }
+})
+
+app.post('/api/backend/shares', requireBackendAuth, async (req, res) => {
   try {
-    const buffer = await readRequestBody(req)
-    if (!buffer.length) {
-      res.status(400).json({ error: 'Empty Body' })
+    const input = normalizeShareInput(req.body || {})
+    const gallery = await resolveShareGallery({ ...input, workspaceId: req.workspaceId })
+    if (!gallery) {
+      res.status(404).json({ error: '分享的任务或收纳盒分组不存在' })
+      return
+    }
+    res.json(toPublicShare(await createShare(req.workspaceId, input)))
+  } catch (err) {
+    sendShareError(res, err, 'Share Error')
+  }
+})
+
+app.delete('/api/backend/shares/:shareId', requireBackendAuth, async (req, res) => {
+  try {
+    const removed = await revokeShare(req.workspaceId, req.params.shareId)
+    if (!removed) {
+      res.status(404).json({ error: 'Not Found' })
       return
     }
+    res.json({ ok: true })
+  } catch (err) {
+    sendShareError(res, err, 'Delete Error')
+  }
+})
 
-    const typeHeader = req.headers['x-image-type']
-    const contentType = Array.isArray(typeHeader)
-      ? typeHeader[0]
-      : (typeHeader || req.headers['content-type'] || '')
+// 公开的只读分享页面与图片，不需要登录，只能访问分享范围内的图片
+const loadSharedGallery = async (shareId) => {
+  const share = await findActiveShare(shareId)
+  const gallery = share ? await resolveShareGallery(share) : null
+  return gallery ? { share, gallery } : null
+}
 
-    const result = await saveImageBuffer(buffer, String(contentType))
-    res.json(result)
+app.get('/share/:shareId', async (req, res) => {
+  res.set('Cache-Control', 'no-store')
+  try {
+    const shared = await loadSharedGallery(req.params.shareId)
+    if (!shared) {
+      res.status(404).type('html').send(renderShareUnavailablePage())
+      return
+    }
+    const { share, gallery } = shared
+    const pagePath = buildSharePagePath(share.id)
+    res.type('html').send(
+      renderSharePage({
+        title: gallery.title,
+        prompt: gallery.prompt,
+        imageUrls: gallery.imageKeys.map((key) => `/api${pagePath}/image/${encodeURIComponent(key)}`),
+        expiresAt: share.expiresAt,
+      }),
+    )
   } catch (err) {
-    console.error('save-image error:', err)
-    res.status(500).json({ error: 'Write Error' })
+    console.error('share page error:', err)
+    res.status(500).type('html').send(renderShareUnavailablePage())
   }
 })
 
+app.get('/api/share/:shareId/image/:key', async (req, res) => {
+  try {
+    const shared = await loadSharedGallery(req.params.shareId)
+    const safeName = path.basename(req.params.key)
+    if (!shared || !shared.gallery.imageKeys.includes(safeName)) {
+      res.status(404).json({ error: 'Not Found' })
+      return
+    }
+    // 撤销后要尽快失效，只允许浏览器短时间缓存
+    const sent = await sendBackendImage(res, shared.share.workspaceId || '', safeName, {
+      cacheControl: 'private, max-age=300',
+    })
+    if (!sent) {
+      res.status(404).json({ error: 'Not Found' })
+    }
+  } catch (err) {
+    console.error('share image error:', err)
+    res.status(500).json({ error: 'Read Error' })
+  }
+})
+
+// 配置了后端密码或多用户账号时，保存到 saved-images/ 也需要登录
+const requireBackendAuthIfConfigured = async (req, res, next) => {
+  try {
+    if (!backendPassword && !(await isMultiUserMode())) {
+      next()
+      return
+    }
+  } catch (err) {
+    console.error('backend auth error:', err)
+    res.status(500).json({ error: 'Auth Error' })
+    return
+  }
+  await requireBackendAuth(req, res, next)
+}
+
+app.post(
+  '/api/save-image',
+  requireBackendAuthIfConfigured,
+  express.raw({ type: '*/*', limit: '50mb' }),
+  async (req, res) => {
+    try {
+      const buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+      if (!buffer.length) {
+        res.status(400).json({ error: 'Empty Body' })
+        return
+      }
+      const result = await saveImageBuffer(req.workspaceId || '', buffer)
+      res.json(result)
+    } catch (err) {
+      if (err?.code === 'UNSUPPORTED_IMAGE') {
+        res.status(415).json({ error: err.message })
+        return
+      }
+      if (err?.code === 'SAVE_QUOTA_EXCEEDED') {
+        res.status(507).json({ error: err.message })
+        return
+      }
+      console.error('save-image error:', err)
+      res.status(500).json({ error: 'Write Error' })
+    }
+  },
+)
+
 if (isProd) {
   app.use(express.static(distDir))
   app.get('*', (_req, res) => {
@@ -1490,4 +2000,24 @@ app.listen(port, () => {
   console.log(`[server] http://localhost:${port} (${isProd ? 'prod' : 'dev'})`)
 })
 
+// 先把旧版本明文保存的密钥加密，再恢复任务，避免与任务写入的状态互相覆盖
+const encryptLegacyStateSecrets = async () => {
+  for (const workspaceId of await listWorkspaceIds()) {
+    await encryptStoredStateSecrets(workspaceId)
+  }
+}
+
+encryptLegacyStateSecrets()
+  .catch((err) => {
+    console.warn('启动时加密 API 密钥失败:', err)
+  })
+  .then(() => resumeInterruptedSubTasks())
+  .catch((err) => {
+    console.error('恢复中断子任务失败:', err)
+  })
+  .then(() => startScheduleRunner(runScheduledGeneration))
+  .catch((err) => {
+    console.error('启动定时任务失败:', err)
+  })
+
 
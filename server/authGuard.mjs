@@ -0,0 +1,96 @@
+import crypto from 'node:crypto'
+import { backendAuthLockoutMs, backendAuthMaxAttempts } from './config.mjs'
+import { logBackendAuthFailure } from './logger.mjs'
+
+// 登录防爆破：按 IP 统计连续失败次数，失败越多响应越慢，达到上限后锁定一段时间。
+// 每次尝试在开始校验前就先计入失败，成功后再清零，并发的请求不会读到同一个旧计数而绕过延迟与锁定。
+// 记录只保存在内存中，服务重启后清零。
+
+// 前几次输错不加延迟，之后每次翻倍，最长 8 秒
+const FREE_ATTEMPTS = 3
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 8000
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000
+
+const attemptsByIp = new Map()
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// 超过锁定时长没有再尝试的记录视为过期
+const isStale = (entry, now) =>
+  entry.lockedUntil <= now && now - entry.lastAttemptAt > backendAuthLockoutMs
+
+const getEntry = (ip, now = Date.now()) => {
+  const entry = attemptsByIp.get(ip)
+  if (!entry) return null
+  if (isStale(entry, now)) {
+    attemptsByIp.delete(ip)
+    return null
+  }
+  return entry
+}
+
+setInterval(() => {
+  const now = Date.now()
+  for (const [ip, entry] of attemptsByIp) {
+    if (isStale(entry, now)) attemptsByIp.delete(ip)
+  }
+}, PRUNE_INTERVAL_MS).unref()
+
+// 先比较摘要再做定长比较，长度不同也不会提前返回
+export const safeEqualSecret = (actual, expected) => {
+  const actualDigest = crypto.createHash('sha256').update(String(actual ?? '')).digest()
+  const expectedDigest = crypto.createHash('sha256').update(String(expected ?? '')).digest()
+  return crypto.timingSafeEqual(actualDigest, expectedDigest)
+}
+
+// 返回锁定截止时间，未锁定时返回 0
+export const getAuthLockedUntil = (ip, now = Date.now()) => {
+  const entry = getEntry(ip, now)
+  return entry && entry.lockedUntil > now ? entry.lockedUntil : 0
+}
+
+export const computeAuthDelay = (failures) =>
+  failures < FREE_ATTEMPTS ? 0 : Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS)
+
+const countAttempt = (ip, now) => {
+  const entry = getEntry(ip, now) || { failures: 0, lastAttemptAt: 0, lockedUntil: 0 }
+  entry.failures += 1
+  entry.lastAttemptAt = now
+  if (entry.failures >= backendAuthMaxAttempts) {
+    entry.lockedUntil = now + backendAuthLockoutMs
+  }
+  attemptsByIp.set(ip, entry)
+  return entry
+}
+
+// 必须在任何 await 之前同步调用：已锁定时返回锁定截止时间；否则先把本次尝试计为失败，
+// 并按之前的次数（包括仍在校验中的并发请求）给出本次需要等待的时长
+export const beginAuthAttempt = (ip, now = Date.now()) => {
+  const lockedUntil = getAuthLockedUntil(ip, now)
+  if (lockedUntil) return { lockedUntil, delayMs: 0 }
+  const entry = countAttempt(ip, now)
+  return { lockedUntil: 0, delayMs: computeAuthDelay(entry.failures - 1) }
+}
+
+// 按已失败次数拖慢本次校验，让在线猜解的速度降下来
+export const delayAuthAttempt = async (attempt) => {
+  if (attempt?.delayMs > 0) await sleep(attempt.delayMs)
+}
+
+// 本次尝试已在 beginAuthAttempt 中计数，这里只记录日志；校验期间其他请求登录成功清空了记录时重新计入
+export const recordAuthFailure = (ip, details = {}) => {
+  const now = Date.now()
+  const entry = getEntry(ip, now) || countAttempt(ip, now)
+  logBackendAuthFailure(entry.lockedUntil > now ? 'auth locked' : 'auth failed', {
+    ip,
+    ...details,
+    failures: entry.failures,
+    lockedUntil: entry.lockedUntil > now ? new Date(entry.lockedUntil).toISOString() : undefined,
+  })
+  return entry.lockedUntil > now ? entry.lockedUntil : 0
+}
+
+export const clearAuthFailures = (ip) => {
+  attemptsByIp.delete(ip)
+}
@@ -1,5 +1,6 @@
 import fs from 'node:fs'
 import path from 'node:path'
+import { DEFAULT_RETRY_POLICY } from '../shared/retryPolicy.mjs'
 
 export const rootDir = process.cwd()
 
@@ -37,7 +38,91 @@ export const backendTasksDir = path.join(serverDataDir, 'tasks')
 export const backendImagesDir = path.join(serverDataDir, 'images')
 export const backendStatePath = path.join(serverDataDir, 'state.json')
 export const backendCollectionPath = path.join(serverDataDir, 'collection.json')
+export const backendSchedulesPath = path.join(serverDataDir, 'schedules.json')
+export const backendSessionsPath = path.join(serverDataDir, 'sessions.json')
+export const backendSharesPath = path.join(serverDataDir, 'shares.json')
+export const backendSessionSecretPath = path.join(serverDataDir, 'session-secret')
+export const backendSecretKeyPath = path.join(serverDataDir, 'secret-key')
+export const backendUsersPath = path.join(serverDataDir, 'users.json')
+export const backendWorkspacesDir = path.join(serverDataDir, 'users')
+// 工作区数据（配置、任务、收纳盒）的存储方式：json 为每个任务一个文件，sqlite 为单个嵌入式数据库
+export const backendStorage = String(process.env.BACKEND_STORAGE || 'json').trim().toLowerCase()
+export const backendSqlitePath = process.env.BACKEND_SQLITE_PATH
+  ? path.resolve(rootDir, process.env.BACKEND_SQLITE_PATH)
+  : path.join(serverDataDir, 'backend.sqlite')
+// 后端图片的存储方式：local 保存在各工作区的 images 目录，s3 保存到 S3 兼容的对象存储（AWS S3、MinIO、R2 等）
+export const backendImageStorage = String(process.env.BACKEND_IMAGE_STORAGE || 'local').trim().toLowerCase()
+const backendS3Endpoint = String(process.env.BACKEND_S3_ENDPOINT || '').trim()
+const backendS3Prefix = String(process.env.BACKEND_S3_PREFIX || '').trim().replace(/^\/+|\/+$/g, '')
+// 自定义端点（MinIO 等）默认使用路径风格地址，AWS 默认使用虚拟主机风格
+const backendS3PathStyle = String(process.env.BACKEND_S3_FORCE_PATH_STYLE || '').trim().toLowerCase()
+export const backendS3Config = {
+  endpoint: backendS3Endpoint,
+  region: String(process.env.BACKEND_S3_REGION || 'us-east-1').trim(),
+  bucket: String(process.env.BACKEND_S3_BUCKET || '').trim(),
+  accessKeyId: String(process.env.BACKEND_S3_ACCESS_KEY_ID || '').trim(),
+  secretAccessKey: String(process.env.BACKEND_S3_SECRET_ACCESS_KEY || '').trim(),
+  prefix: backendS3Prefix ? `${backendS3Prefix}/` : '',
+  forcePathStyle: backendS3PathStyle
+    ? ['1', 'true', 'yes'].includes(backendS3PathStyle)
+    : Boolean(backendS3Endpoint),
+  // 开启后图片请求直接跳转到短时有效的预签名地址，否则由服务端转发
+  redirect: ['1', 'true', 'yes'].includes(String(process.env.BACKEND_S3_REDIRECT || '').toLowerCase()),
+}
+
+// 未配置用户时使用空工作区 ID，数据沿用 server-data 根目录下的原有布局；
+// 每个用户的任务、收藏、配置与图片放在 server-data/users/<用户 ID>/ 下
+export const getWorkspacePaths = (workspaceId = '') => {
+  const baseDir = workspaceId ? path.join(backendWorkspacesDir, workspaceId) : serverDataDir
+  return {
+    baseDir,
+    statePath: workspaceId ? path.join(baseDir, 'state.json') : backendStatePath,
+    collectionPath: workspaceId ? path.join(baseDir, 'collection.json') : backendCollectionPath,
+    tasksDir: workspaceId ? path.join(baseDir, 'tasks') : backendTasksDir,
+    imagesDir: workspaceId ? path.join(baseDir, 'images') : backendImagesDir,
+    imageIndexPath: path.join(baseDir, 'image-index.json'),
+  }
+}
 export const backendPassword = process.env.BACKEND_PASSWORD || ''
+export const backendSessionSecret = process.env.BACKEND_SESSION_SECRET || ''
+export const backendSecretKey = process.env.BACKEND_SECRET_KEY || ''
+const parsedSessionTtlHours = Number(process.env.BACKEND_SESSION_TTL_HOURS)
+export const backendSessionTtlMs =
+  (Number.isFinite(parsedSessionTtlHours) && parsedSessionTtlHours > 0 ? parsedSessionTtlHours : 168) *
+  60 *
+  60 *
+  1000
+const parsePositiveNumber = (value, fallback) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number > 0 ? number : fallback
+}
+// 同一 IP 连续失败达到上限后锁定一段时间，锁定期间不再校验密码
+export const backendAuthMaxAttempts = Math.floor(parsePositiveNumber(process.env.BACKEND_AUTH_MAX_ATTEMPTS, 10))
+export const backendAuthLockoutMs =
+  parsePositiveNumber(process.env.BACKEND_AUTH_LOCKOUT_MINUTES, 15) * 60 * 1000
+// 部署在 Nginx/Caddy 之后时需要信任代理，才能按 X-Forwarded-For 识别真实 IP
+const parseTrustProxy = (value) => {
+  const text = String(value || '').trim()
+  if (!text || ['0', 'false', 'no'].includes(text.toLowerCase())) return false
+  if (['true', 'yes'].includes(text.toLowerCase())) return true
+  return /^\d+$/.test(text) ? Number(text) : text
+}
+export const backendTrustProxy = parseTrustProxy(process.env.BACKEND_TRUST_PROXY)
+const parseListEnv = (value) =>
+  String(value || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+// 后端下载模型返回的图片链接时的访问策略：默认拒绝内网、回环与链路本地地址，
+// ALLOW 中的域名或网段作为例外放行，DENY 中的始终拒绝（支持 *.example.com 与 10.0.0.0/8）
+export const backendImageAllowHosts = parseListEnv(process.env.BACKEND_IMAGE_ALLOW_HOSTS)
+export const backendImageDenyHosts = parseListEnv(process.env.BACKEND_IMAGE_DENY_HOSTS)
+export const backendImageMaxBytes = parsePositiveNumber(process.env.BACKEND_IMAGE_MAX_MB, 50) * 1024 * 1024
+export const backendImageTimeoutMs =
+  parsePositiveNumber(process.env.BACKEND_IMAGE_TIMEOUT_SECONDS, 60) * 1000
+// saved-images/ 的磁盘配额，多用户模式下按用户分别计算，0 表示不限制
+export const saveImagesQuotaBytes =
+  Math.max(Number(process.env.SAVE_IMAGES_QUOTA_MB) || 0, 0) * 1024 * 1024
 export const backendLogResponse = ['1', 'true', 'yes'].includes(
   String(process.env.BACKEND_LOG_RESPONSE || '').toLowerCase(),
 )
@@ -59,6 +144,10 @@ export const DEFAULT_BACKEND_CONFIG = {
   vertexPublisher: 'google',
   stream: false,
   enableCollection: false,
+  retryPolicy: { ...DEFAULT_RETRY_POLICY },
+  providerProfiles: [],
+  providerPools: [],
+  priceTable: [],
 }
 
 export const FORMAT_CONFIG_KEYS = [
@@ -110,4 +199,45 @@ export const MIN_CONCURRENCY = 1
 export const DEFAULT_CONCURRENCY = 2
 export const MAX_CONCURRENCY = Number.POSITIVE_INFINITY
 
+export const MIN_IMAGES_PER_REQUEST = 1
+export const DEFAULT_IMAGES_PER_REQUEST = 1
+export const MAX_IMAGES_PER_REQUEST = 8
+
+const parseConcurrencyLimit = (value, fallback) => {
+  const raw = String(value ?? '').trim()
+  if (!raw) return fallback
+  const parsed = Number(raw)
+  if (!Number.isFinite(parsed) || parsed < 0) return fallback
+  return parsed === 0 ? Number.POSITIVE_INFINITY : Math.floor(parsed)
+}
+
+const parseProviderConcurrencyOverrides = (value = '') => {
+  const overrides = {}
+  String(value)
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const eqIndex = entry.lastIndexOf('=')
+      if (eqIndex <= 0) return
+      const key = entry.slice(0, eqIndex).trim().toLowerCase()
+      const limit = parseConcurrencyLimit(entry.slice(eqIndex + 1), null)
+      if (!key || limit === null) return
+      overrides[key] = limit
+    })
+  return overrides
+}
+
+export const backendMaxConcurrency = parseConcurrencyLimit(
+  process.env.BACKEND_MAX_CONCURRENCY,
+  8,
+)
+export const backendProviderConcurrency = parseConcurrencyLimit(
+  process.env.BACKEND_PROVIDER_CONCURRENCY,
+  4,
+)
+export const backendProviderConcurrencyOverrides = parseProviderConcurrencyOverrides(
+  process.env.BACKEND_PROVIDER_CONCURRENCY_OVERRIDES,
+)
+
 export const BACKEND_LOG_MAX_CHARS = 800
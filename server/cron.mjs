@@ -0,0 +1,144 @@
+// 五段式 cron 表达式：分 时 日 月 周，按服务器本地时区计算。
+// 支持 *、*/n、a-b、a-b/n、逗号列表以及 @hourly 等常用别名。
+// 夏令时跳过的时刻顺延一小时触发，回拨重复的一小时只触发第一次。
+
+const CRON_ALIASES = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+}
+
+const FIELD_RANGES = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 },
+]
+
+// 日期不可能出现时（例如 2 月 30 日）向后查找的上限
+const MAX_SEARCH_STEPS = 200000
+
+const createCronError = (message) => {
+  const error = new Error(message)
+  error.code = 'INVALID_CRON'
+  return error
+}
+
+const parseNumber = (value, range) => {
+  if (!/^\d+$/.test(value)) {
+    throw createCronError(`${range.name}字段无效：${value}`)
+  }
+  const number = Number(value)
+  if (number < range.min || number > range.max) {
+    throw createCronError(`${range.name}超出范围 ${range.min}-${range.max}：${value}`)
+  }
+  return number
+}
+
+const parseField = (source, range) => {
+  const values = new Set()
+  source.split(',').forEach((part) => {
+    const [base, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...range, min: 1 })
+    let start = range.min
+    let end = range.max
+    if (base !== '*') {
+      const [startText, endText] = base.split('-')
+      start = parseNumber(startText, range)
+      end = endText === undefined ? (stepText === undefined ? start : range.max) : parseNumber(endText, range)
+      if (end < start) {
+        throw createCronError(`${range.name}范围无效：${base}`)
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  })
+  // 以 * 开头（含 */n）或取满整个范围的字段视为不限定，日期与星期的组合规则依赖这一点
+  const starred = source.split(',').every((part) => part.split('/')[0] === '*')
+  return { values, wildcard: starred || coversRange(values, range.min, range.max) }
+}
+
+const coversRange = (values, min, max) => {
+  for (let value = min; value <= max; value += 1) {
+    if (!values.has(value)) return false
+  }
+  return true
+}
+
+export const parseCronExpression = (expression) => {
+  const trimmed = String(expression || '').trim().toLowerCase()
+  const source = CRON_ALIASES[trimmed] || trimmed
+  const parts = source.split(/\s+/).filter(Boolean)
+  if (parts.length !== 5) {
+    throw createCronError('cron 表达式需要 5 段：分 时 日 月 周')
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELD_RANGES[index]),
+  )
+  if (dayOfWeek.values.has(7)) dayOfWeek.values.add(0)
+  if (coversRange(dayOfWeek.values, 0, 6)) dayOfWeek.wildcard = true
+  return { minute, hour, dayOfMonth, month, dayOfWeek }
+}
+
+// 与标准 cron 一致：日期与星期都被限定时满足其一即可，任一不限定时两者都要满足
+const matchesDay = (cron, wallClock) => {
+  const domMatch = cron.dayOfMonth.values.has(wallClock.getUTCDate())
+  const dowMatch = cron.dayOfWeek.values.has(wallClock.getUTCDay())
+  if (cron.dayOfMonth.wildcard || cron.dayOfWeek.wildcard) return domMatch && dowMatch
+  return domMatch || dowMatch
+}
+
+// 挂钟时间换算为本地时间戳：不存在的时刻由 Date 顺延，重复的时刻取第一次
+const toLocalTimestamp = (wallClock) =>
+  new Date(
+    wallClock.getUTCFullYear(),
+    wallClock.getUTCMonth(),
+    wallClock.getUTCDate(),
+    wallClock.getUTCHours(),
+    wallClock.getUTCMinutes(),
+  ).getTime()
+
+// 返回严格晚于 from 的下一次触发时间戳，找不到时返回 null
+export const computeNextCronRun = (expression, from = Date.now()) => {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression
+  const start = new Date(from)
+  // 用 UTC 字段表示本地挂钟时间逐级查找，夏令时切换不会让 setHours 跳过或重复某个小时
+  const wallClock = new Date(
+    Date.UTC(
+      start.getFullYear(),
+      start.getMonth(),
+      start.getDate(),
+      start.getHours(),
+      start.getMinutes() + 1,
+    ),
+  )
+  for (let step = 0; step < MAX_SEARCH_STEPS; step += 1) {
+    if (!cron.month.values.has(wallClock.getUTCMonth() + 1)) {
+      wallClock.setUTCMonth(wallClock.getUTCMonth() + 1, 1)
+      wallClock.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(cron, wallClock)) {
+      wallClock.setUTCDate(wallClock.getUTCDate() + 1)
+      wallClock.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!cron.hour.values.has(wallClock.getUTCHours())) {
+      wallClock.setUTCHours(wallClock.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!cron.minute.values.has(wallClock.getUTCMinutes())) {
+      wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+    const timestamp = toLocalTimestamp(wallClock)
+    // 回拨后的重复时段里，第一次出现的时刻已经早于 from，跳过
+    if (timestamp > from) return timestamp
+    wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0)
+  }
+  return null
+}
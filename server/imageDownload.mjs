@@ -0,0 +1,244 @@
+import dns from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import net from 'node:net'
+import {
+  backendImageAllowHosts,
+  backendImageDenyHosts,
+  backendImageMaxBytes,
+  backendImageTimeoutMs,
+} from './config.mjs'
+import { detectImageType } from './imageInfo.mjs'
+import { createProviderError } from '../shared/providerError.mjs'
+
+// 后端下载模型返回的图片链接：服务可能部署在内网，链接由中转服务控制，
+// 因此在 DNS 解析之后按实际连接的 IP 校验，默认拒绝内网、回环、链路本地等地址，
+// 并限制重定向次数、响应大小、总耗时，只接受文件头能识别为图片的响应。
+
+const MAX_REDIRECTS = 5
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+// 声明类型只用于提前拒绝明显不是图片的响应，是否为图片以文件头为准
+const GENERIC_CONTENT_TYPES = new Set(['', 'application/octet-stream', 'binary/octet-stream'])
+
+const PRIVATE_RANGES = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+const createDownloadError = (message, code, kind = 'invalid_request') =>
+  createProviderError(message, { kind, code })
+
+const toIpFamily = (address) => (net.isIPv6(address) ? 'ipv6' : 'ipv4')
+
+// ::ffff:127.0.0.1 这类映射地址按 IPv4 校验，URL 会把它改写成 ::ffff:7f00:1
+const normalizeAddress = (address) => {
+  const text = String(address || '').replace(/^\[|\]$/g, '').toLowerCase()
+  const mapped = text.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return mapped[1]
+  const mappedHex = text.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (!mappedHex) return text
+  const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16))
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.')
+}
+
+const privateBlockList = new net.BlockList()
+PRIVATE_RANGES.forEach(([address, prefix, family]) => privateBlockList.addSubnet(address, prefix, family))
+
+// 规则支持域名、*.example.com（只匹配子域名）、单个 IP 与 CIDR 网段
+const buildHostPolicy = (entries) => {
+  const hosts = new Set()
+  const suffixes = []
+  const blockList = new net.BlockList()
+  entries.forEach((entry) => {
+    const [address, prefixText] = entry.split('/')
+    const ip = normalizeAddress(address)
+    if (net.isIP(ip)) {
+      const family = toIpFamily(ip)
+      const maxPrefix = family === 'ipv6' ? 128 : 32
+      const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+      if (Number.isInteger(prefix) && prefix >= 0 && prefix <= maxPrefix) {
+        blockList.addSubnet(ip, prefix, family)
+        return
+      }
+      console.warn(`[server] 忽略无效的图片下载地址规则: ${entry}`)
+      return
+    }
+    if (entry.startsWith('*.')) {
+      suffixes.push(entry.slice(1))
+      return
+    }
+    hosts.add(entry)
+  })
+  return {
+    matchesHost: (hostname) => hosts.has(hostname) || suffixes.some((suffix) => hostname.endsWith(suffix)),
+    matchesAddress: (address) => blockList.check(address, toIpFamily(address)),
+  }
+}
+
+const allowPolicy = buildHostPolicy(backendImageAllowHosts)
+const denyPolicy = buildHostPolicy(backendImageDenyHosts)
+
+// 拒绝名单优先，其次是允许名单，最后按默认的内网地址段判断
+const assertAddressAllowed = (hostname, rawAddress) => {
+  const address = normalizeAddress(rawAddress)
+  if (denyPolicy.matchesHost(hostname) || denyPolicy.matchesAddress(address)) {
+    throw createDownloadError(`图片地址 ${hostname} 已被拒绝下载`, 'IMAGE_URL_BLOCKED')
+  }
+  if (allowPolicy.matchesHost(hostname) || allowPolicy.matchesAddress(address)) return
+  if (privateBlockList.check(address, toIpFamily(address))) {
+    throw createDownloadError(`图片地址 ${hostname} 指向内网地址，已拒绝下载`, 'IMAGE_URL_BLOCKED')
+  }
+}
+
+// 在建立连接时校验解析结果，避免先校验再解析时被 DNS 重绑定绕过
+const createGuardedLookup = (hostname) => (host, options, callback) => {
+  dns.lookup(host, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err)
+      return
+    }
+    try {
+      addresses.forEach((entry) => assertAddressAllowed(hostname, entry.address))
+    } catch (blocked) {
+      callback(blocked)
+      return
+    }
+    if (options.all) {
+      callback(null, addresses)
+      return
+    }
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+const parseDownloadUrl = (value) => {
+  let url
+  try {
+    url = new URL(value)
+  } catch {
+    throw createDownloadError('图片地址无效', 'IMAGE_URL_INVALID')
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw createDownloadError('图片地址只支持 http/https', 'IMAGE_URL_INVALID')
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  // IP 直连不会经过 lookup，需要单独校验
+  if (net.isIP(hostname)) {
+    assertAddressAllowed(hostname, hostname)
+  } else if (denyPolicy.matchesHost(hostname)) {
+    throw createDownloadError(`图片地址 ${hostname} 已被拒绝下载`, 'IMAGE_URL_BLOCKED')
+  }
+  return { url, hostname }
+}
+
+const requestOnce = ({ url, hostname }, signal) =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const req = client.get(
+      url,
+      {
+        // 不复用连接池，保证每次连接都经过地址校验
+        agent: false,
+        lookup: createGuardedLookup(hostname),
+        headers: { Accept: 'image/*', Connection: 'close' },
+        signal,
+      },
+      resolve,
+    )
+    req.on('error', reject)
+  })
+
+const readLimitedBody = (response, limit) =>
+  new Promise((resolve, reject) => {
+    const chunks = []
+    let total = 0
+    response.on('data', (chunk) => {
+      total += chunk.length
+      if (total > limit) {
+        response.destroy()
+        reject(createDownloadError('图片超过下载大小上限', 'IMAGE_TOO_LARGE'))
+        return
+      }
+      chunks.push(chunk)
+    })
+    response.on('end', () => resolve(Buffer.concat(chunks)))
+    response.on('error', reject)
+  })
+
+const fetchWithRedirects = async (imageUrl, signal) => {
+  let target = parseDownloadUrl(imageUrl)
+  for (let redirects = 0; ; redirects += 1) {
+    const response = await requestOnce(target, signal)
+    const location = response.headers.location
+    if (!REDIRECT_STATUSES.has(response.statusCode) || !location) return response
+    response.resume()
+    if (redirects >= MAX_REDIRECTS) {
+      throw createDownloadError('图片地址重定向次数过多', 'IMAGE_URL_INVALID')
+    }
+    target = parseDownloadUrl(new URL(location, target.url).toString())
+  }
+}
+
+// signal 是子任务的取消信号，任务被取消时下载一并中止，并原样抛出中止错误
+export const downloadRemoteImage = async (imageUrl, { signal } = {}) => {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), backendImageTimeoutMs)
+  const abortFromCaller = () => controller.abort(signal.reason)
+  if (signal?.aborted) {
+    abortFromCaller()
+  } else {
+    signal?.addEventListener('abort', abortFromCaller, { once: true })
+  }
+  try {
+    const response = await fetchWithRedirects(imageUrl, controller.signal)
+    const status = response.statusCode || 0
+    if (status < 200 || status >= 300) {
+      response.resume()
+      const error = new Error(response.statusMessage || `HTTP ${status}`)
+      error.status = status
+      throw error
+    }
+    const declaredType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase()
+    // SVG 可以携带脚本，不作为图片保存
+    const isImageType = declaredType.startsWith('image/') && declaredType !== 'image/svg+xml'
+    if (!isImageType && !GENERIC_CONTENT_TYPES.has(declaredType)) {
+      response.resume()
+      throw createDownloadError(`图片地址返回的不是图片（${declaredType}）`, 'IMAGE_NOT_IMAGE')
+    }
+    const declaredLength = Number(response.headers['content-length'])
+    if (Number.isFinite(declaredLength) && declaredLength > backendImageMaxBytes) {
+      response.resume()
+      throw createDownloadError('图片超过下载大小上限', 'IMAGE_TOO_LARGE')
+    }
+    const buffer = await readLimitedBody(response, backendImageMaxBytes)
+    const contentType = detectImageType(buffer)
+    if (!contentType) {
+      throw createDownloadError('图片地址返回的不是图片', 'IMAGE_NOT_IMAGE')
+    }
+    return { buffer, contentType }
+  } catch (err) {
+    if (signal?.aborted) throw err
+    if (controller.signal.aborted) {
+      throw createDownloadError('图片下载超时', 'IMAGE_DOWNLOAD_TIMEOUT', 'network')
+    }
+    throw err
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', abortFromCaller)
+  }
+}
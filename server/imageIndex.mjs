@@ -0,0 +1,170 @@
+import { detectImageType, getMimeFromFilename, readImageDimensions } from './imageInfo.mjs'
+import {
+  deleteBackendImageIndex,
+  loadBackendImageIndex,
+  saveBackendImageIndex,
+} from './storage.mjs'
+
+// 图片索引：按 sha256 记录每个工作区保存过的图片（文件名、大小、类型、宽高、创建时间），
+// 保存时查重只查内存，不再列举整个图片目录。索引随工作区数据保存（JSON 存储为 <工作区>/image-index.json，
+// SQLite 存储为 image_index 表），缺失时从图片存储重建一次；孤儿清理时再与存储中的实际文件对账，
+// 修正异常退出或手动增删造成的偏差。
+
+const INDEX_VERSION = 1
+// 连续保存多张图片时合并写盘
+const SAVE_DELAY_MS = 1000
+// 重建时只读取文件头识别格式与宽高，JPEG 的 EXIF 与 ICC 段可能把帧头推到较后的位置
+const HEADER_BYTES = 256 * 1024
+const HASHED_NAME_PATTERN = /^([0-9a-f]{64})\.[a-z0-9]+$/
+
+// 只有 <sha256><扩展名> 形式的文件进入索引
+export const getImageHashFromKey = (key) => HASHED_NAME_PATTERN.exec(key)?.[1] || ''
+
+export const describeImage = (fileName, buffer, { size = buffer.length, createdAt = Date.now() } = {}) => {
+  const dimensions = readImageDimensions(buffer)
+  return {
+    fileName,
+    size,
+    mime: detectImageType(buffer) || getMimeFromFilename(fileName),
+    width: dimensions ? dimensions.width : null,
+    height: dimensions ? dimensions.height : null,
+    createdAt,
+  }
+}
+
+const isValidEntry = (entry) =>
+  Boolean(entry && typeof entry === 'object' && getImageHashFromKey(entry.fileName))
+
+// store 需要提供 list、stat 与 read（支持 maxBytes），见 localImageStore 与 s3ImageStore
+export const createImageIndex = (store) => {
+  const indexes = new Map()
+  const saveTimers = new Map()
+  const saveChains = new Map()
+
+  const describeStoredImage = async (workspaceId, key) => {
+    const stat = await store.stat(workspaceId, key)
+    const head = stat ? await store.read(workspaceId, key, { maxBytes: HEADER_BYTES }) : null
+    if (!head) return null
+    return describeImage(key, head, { size: stat.size, createdAt: stat.modifiedAt })
+  }
+
+  const rebuild = async (workspaceId) => {
+    const entries = new Map()
+    for (const key of await store.list(workspaceId)) {
+      const hash = getImageHashFromKey(key)
+      if (!hash) continue
+      const entry = await describeStoredImage(workspaceId, key)
+      if (entry) entries.set(hash, entry)
+    }
+    if (entries.size > 0) {
+      console.log(`[server] 已重建图片索引（${workspaceId || '默认工作区'}，${entries.size} 张）`)
+    }
+    return entries
+  }
+
+  const writeIndex = async (workspaceId) => {
+    const entries = await getIndex(workspaceId)
+    await saveBackendImageIndex(workspaceId, {
+      version: INDEX_VERSION,
+      images: Array.from(entries.values()),
+    })
+  }
+
+  // 同一工作区的写盘按顺序执行，避免较早的快照覆盖较新的
+  const scheduleSave = (workspaceId) => {
+    if (saveTimers.has(workspaceId)) return
+    const timer = setTimeout(() => {
+      saveTimers.delete(workspaceId)
+      const run = (saveChains.get(workspaceId) || Promise.resolve())
+        .then(() => writeIndex(workspaceId))
+        .catch((err) => {
+          console.warn('保存图片索引失败:', err)
+        })
+      saveChains.set(workspaceId, run)
+    }, SAVE_DELAY_MS)
+    saveTimers.set(workspaceId, timer)
+  }
+
+  const loadIndex = async (workspaceId) => {
+    const data = await loadBackendImageIndex(workspaceId)
+    if (data?.version === INDEX_VERSION && Array.isArray(data.images)) {
+      return new Map(
+        data.images.filter(isValidEntry).map((entry) => [getImageHashFromKey(entry.fileName), entry]),
+      )
+    }
+    const entries = await rebuild(workspaceId)
+    if (entries.size > 0) scheduleSave(workspaceId)
+    return entries
+  }
+
+  const getIndex = (workspaceId) => {
+    if (!indexes.has(workspaceId)) {
+      const loading = loadIndex(workspaceId)
+      // 读取失败时下次重新加载，不缓存失败结果
+      loading.catch(() => indexes.delete(workspaceId))
+      indexes.set(workspaceId, loading)
+    }
+    return indexes.get(workspaceId)
+  }
+
+  return {
+    find: async (workspaceId, hash) => (await getIndex(workspaceId)).get(hash) || null,
+
+    add: async (workspaceId, entry) => {
+      const hash = getImageHashFromKey(entry.fileName)
+      if (!hash) return
+      ;(await getIndex(workspaceId)).set(hash, entry)
+      scheduleSave(workspaceId)
+    },
+
+    remove: async (workspaceId, key) => {
+      const hash = getImageHashFromKey(key)
+      const entries = await getIndex(workspaceId)
+      if (!hash || entries.get(hash)?.fileName !== key) return
+      entries.delete(hash)
+      scheduleSave(workspaceId)
+    },
+
+    // keys 为存储中实际存在的文件：补上缺失的条目，去掉文件已不存在的条目。
+    // 与保存并发时可能误删刚写入的条目，之后只会少一次查重命中，不影响正确性
+    reconcile: async (workspaceId, keys) => {
+      const entries = await getIndex(workspaceId)
+      const existing = new Map()
+      keys.forEach((key) => {
+        const hash = getImageHashFromKey(key)
+        if (hash) existing.set(hash, key)
+      })
+      let changed = false
+      for (const [hash, entry] of entries) {
+        if (existing.get(hash) === entry.fileName) continue
+        entries.delete(hash)
+        changed = true
+      }
+      for (const [hash, key] of existing) {
+        if (entries.has(hash)) continue
+        const entry = await describeStoredImage(workspaceId, key)
+        if (!entry) continue
+        entries.set(hash, entry)
+        changed = true
+      }
+      if (changed) scheduleSave(workspaceId)
+    },
+
+    // 图片整体移动到新工作区后，索引跟着移动，两边的内存缓存都作废
+    moveWorkspace: async (fromWorkspaceId, toWorkspaceId) => {
+      const entries = indexes.has(fromWorkspaceId) ? await getIndex(fromWorkspaceId) : null
+      indexes.delete(fromWorkspaceId)
+      indexes.delete(toWorkspaceId)
+      const data = entries
+        ? { version: INDEX_VERSION, images: Array.from(entries.values()) }
+        : await loadBackendImageIndex(fromWorkspaceId)
+      // 没有可用的索引时删掉目标的旧索引，下次访问时重建
+      if (data) {
+        await saveBackendImageIndex(toWorkspaceId, data)
+      } else {
+        await deleteBackendImageIndex(toWorkspaceId)
+      }
+      await deleteBackendImageIndex(fromWorkspaceId)
+    },
+  }
+}
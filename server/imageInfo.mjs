@@ -0,0 +1,85 @@
+// 图片文件头解析：识别格式与读取宽高，只依赖开头的字节，不解码像素
+
+const startsWithBytes = (buffer, bytes, offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte)
+
+// 按文件头识别图片格式，无法识别时返回空字符串，不信任客户端声明的类型
+export const detectImageType = (buffer) => {
+  if (!buffer || buffer.length < 12) return ''
+  if (startsWithBytes(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWithBytes(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (buffer.toString('ascii', 0, 6) === 'GIF87a' || buffer.toString('ascii', 0, 6) === 'GIF89a') {
+    return 'image/gif'
+  }
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp'
+  }
+  if (buffer.toString('ascii', 0, 2) === 'BM') return 'image/bmp'
+  return ''
+}
+
+export const getMimeFromFilename = (fileName = '') => {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.png')) return 'image/png'
+  if (lower.endsWith('.jpg') || lower.endsWith('.jpeg')) return 'image/jpeg'
+  if (lower.endsWith('.webp')) return 'image/webp'
+  if (lower.endsWith('.gif')) return 'image/gif'
+  if (lower.endsWith('.bmp')) return 'image/bmp'
+  return 'application/octet-stream'
+}
+
+// SOF 标记（C4 DHT、C8 保留、CC DAC 除外）的帧头里带有宽高
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf])
+
+const readJpegDimensions = (buffer) => {
+  let offset = 2
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null
+    const marker = buffer[offset + 1]
+    if (marker === 0xff) {
+      offset += 1
+      continue
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) }
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2
+      continue
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2)
+  }
+  return null
+}
+
+const readWebpDimensions = (buffer) => {
+  const chunk = buffer.toString('ascii', 12, 16)
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff }
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 }
+  }
+  return null
+}
+
+// 读取宽高，无法识别或文件头不完整时返回 null
+export const readImageDimensions = (buffer) => {
+  const type = detectImageType(buffer)
+  if (type === 'image/png' && buffer.length >= 24) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+  }
+  if (type === 'image/gif') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) }
+  }
+  if (type === 'image/bmp' && buffer.length >= 26) {
+    return { width: Math.abs(buffer.readInt32LE(18)), height: Math.abs(buffer.readInt32LE(22)) }
+  }
+  if (type === 'image/webp') return readWebpDimensions(buffer)
+  if (type === 'image/jpeg') return readJpegDimensions(buffer)
+  return null
+}
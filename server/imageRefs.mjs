@@ -0,0 +1,42 @@
+import path from 'node:path'
+
+// 任务与收纳盒引用的后端图片 key，图片清理与存储层的引用索引共用
+
+export const collectImageKeysFromTask = (taskState) => {
+  const keys = new Set()
+  const uploads = Array.isArray(taskState?.uploads) ? taskState.uploads : []
+  const results = Array.isArray(taskState?.results) ? taskState.results : []
+  uploads.forEach((item) => {
+    if (!item?.localKey) return
+    keys.add(path.basename(item.localKey))
+  })
+  results.forEach((item) => {
+    if (!item?.localKey) return
+    keys.add(path.basename(item.localKey))
+  })
+  return keys
+}
+
+const extractBackendImageKeyFromUrl = (value) => {
+  if (typeof value !== 'string') return ''
+  const match = value.match(/\/api\/backend\/image\/([^?]+)/)
+  return match ? decodeURIComponent(match[1]) : ''
+}
+
+export const getCollectionImageKey = (item) => {
+  const localKey = typeof item?.localKey === 'string' ? item.localKey : ''
+  const imageKey = extractBackendImageKeyFromUrl(item?.image)
+  const key = localKey || imageKey
+  return key ? path.basename(String(key)) : ''
+}
+
+export const collectImageKeysFromCollection = (items) => {
+  const keys = new Set()
+  if (!Array.isArray(items)) return keys
+  items.forEach((item) => {
+    const key = getCollectionImageKey(item)
+    if (!key) return
+    keys.add(key)
+  })
+  return keys
+}
@@ -0,0 +1,45 @@
+import crypto from 'node:crypto'
+import { signBackendPayload } from './sessions.mjs'
+
+// 图片签名地址：每个地址只对应一张图片、一个工作区和签发它的会话，带过期时间，
+// 用来代替把会话令牌拼在 URL 里（会进入浏览器历史、复制的链接与下载记录）。
+// 会话被撤销或过期后，由调用方拒绝它签出的地址，不用等到地址自身过期。
+
+const IMAGE_URL_TTL_MS = 60 * 60 * 1000
+// 过期时间按桶对齐，同一时间段内签出的地址相同，浏览器缓存才能命中
+const IMAGE_URL_BUCKET_MS = 5 * 60 * 1000
+
+const buildImagePayload = (workspaceId, sessionId, key, expiresAt) =>
+  `image:${workspaceId}:${sessionId}:${key}:${expiresAt.toString(36)}`
+
+export const getImageUrlExpiresAt = (now = Date.now()) =>
+  Math.ceil((now + IMAGE_URL_TTL_MS) / IMAGE_URL_BUCKET_MS) * IMAGE_URL_BUCKET_MS
+
+export const buildSignedImageUrl = (
+  workspaceId,
+  sessionId,
+  key,
+  expiresAt = getImageUrlExpiresAt(),
+) => {
+  const params = new URLSearchParams()
+  if (workspaceId) params.set('ws', workspaceId)
+  params.set('sid', sessionId)
+  params.set('exp', expiresAt.toString(36))
+  params.set('sig', signBackendPayload(buildImagePayload(workspaceId, sessionId, key, expiresAt)))
+  return `/api/backend/image/${encodeURIComponent(key)}?${params.toString()}`
+}
+
+// 校验通过时返回图片所属的工作区 ID 与签发地址的会话 ID，否则返回 null
+export const verifyImageSignature = (key, query = {}) => {
+  const workspaceId = typeof query.ws === 'string' ? query.ws : ''
+  const sessionId = typeof query.sid === 'string' ? query.sid : ''
+  const expiresAt = parseInt(String(query.exp || ''), 36)
+  const signature = typeof query.sig === 'string' ? query.sig : ''
+  if (!signature || !sessionId || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) return null
+  const expected = Buffer.from(
+    signBackendPayload(buildImagePayload(workspaceId, sessionId, key, expiresAt)),
+  )
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null
+  return { workspaceId, sessionId }
+}
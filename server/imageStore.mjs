@@ -1,69 +1,175 @@
 import crypto from 'node:crypto'
 import fs from 'node:fs'
 import path from 'node:path'
-import { backendImagesDir, saveDir } from './config.mjs'
+import { pipeline } from 'node:stream/promises'
+import { backendImageStorage, saveDir, saveImagesQuotaBytes } from './config.mjs'
+import { createImageIndex, describeImage } from './imageIndex.mjs'
+import { detectImageType, getMimeFromFilename } from './imageInfo.mjs'
+import { localImageStore } from './localImageStore.mjs'
+import { s3ImageStore } from './s3ImageStore.mjs'
+
+// 后端图片通过 BACKEND_IMAGE_STORAGE 选择的存储读写；saved-images/ 是用户主动保存的副本，始终在本地磁盘。
+// 多用户模式下每个用户的副本放在 saved-images/users/<用户 ID>/，互相看不到，配额也按用户分别计算
+const IMAGE_STORES = { local: localImageStore, s3: s3ImageStore }
+
+const imageStore = IMAGE_STORES[backendImageStorage]
+if (!imageStore) {
+  throw new Error(`未知的 BACKEND_IMAGE_STORAGE: ${backendImageStorage}，可选 local 或 s3`)
+}
+
+const imageIndex = createImageIndex(imageStore)
+
+const IMAGE_EXTENSIONS = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/bmp': '.bmp',
+}
+// 目录占用按需统计，短时间内的多次保存复用同一结果，外部删除文件后最多延迟这么久生效
+const QUOTA_USAGE_TTL_MS = 60 * 1000
+
+const saveDirUsage = new Map()
+
+const createImageStoreError = (message, code) => {
+  const error = new Error(message)
+  error.code = code
+  return error
+}
 
 export const getExtensionFromType = (contentType = '') => {
   const normalized = contentType.toLowerCase()
-  const mapping = {
-    'image/png': '.png',
-    'image/jpeg': '.jpg',
-    'image/webp': '.webp',
-    'image/gif': '.gif',
-    'image/bmp': '.bmp',
-  }
-  const matched = Object.keys(mapping).find((key) => normalized.includes(key))
-  return matched ? mapping[matched] : '.bin'
+  const matched = Object.keys(IMAGE_EXTENSIONS).find((key) => normalized.includes(key))
+  return matched ? IMAGE_EXTENSIONS[matched] : '.bin'
 }
 
-const findExistingFile = async (dir, hash) => {
+const measureDirectorySize = async (dir) => {
+  let entries = []
   try {
-    const files = await fs.promises.readdir(dir)
-    return files.find((name) => name.startsWith(hash)) || null
+    entries = await fs.promises.readdir(dir, { withFileTypes: true })
   } catch (err) {
-    if (err && err.code === 'ENOENT') return null
+    if (err && err.code === 'ENOENT') return 0
     throw err
   }
+  let total = 0
+  for (const entry of entries) {
+    if (!entry.isFile()) continue
+    const stat = await fs.promises.stat(path.join(dir, entry.name)).catch(() => null)
+    total += stat ? stat.size : 0
+  }
+  return total
+}
+
+const getSaveDir = (workspaceId) => (workspaceId ? path.join(saveDir, 'users', workspaceId) : saveDir)
+
+// 只统计目录下这一层的文件，根目录的占用不包含各用户的子目录
+const getSaveDirUsage = async (dir) => {
+  const cached = saveDirUsage.get(dir)
+  if (cached && Date.now() - cached.measuredAt <= QUOTA_USAGE_TTL_MS) return cached
+  const usage = { bytes: await measureDirectorySize(dir), measuredAt: Date.now() }
+  saveDirUsage.set(dir, usage)
+  return usage
 }
 
-export const saveImageBuffer = async (buffer, contentType) => {
+// 保存到 saved-images/（多用户时为该用户的子目录）：只接受文件头可识别的图片，扩展名按实际格式决定；
+// 设置了 SAVE_IMAGES_QUOTA_MB 时超出配额会拒绝写入
+export const saveImageBuffer = async (workspaceId, buffer) => {
+  const imageType = detectImageType(buffer)
+  if (!imageType) {
+    throw createImageStoreError('不是支持的图片格式', 'UNSUPPORTED_IMAGE')
+  }
   const fileHash = crypto.createHash('sha256').update(buffer).digest('hex')
-  const extension = getExtensionFromType(contentType)
-  const fileName = `${fileHash}${extension}`
-  const filePath = path.join(saveDir, fileName)
+  const fileName = `${fileHash}${IMAGE_EXTENSIONS[imageType]}`
+  const dir = getSaveDir(workspaceId)
+  const filePath = path.join(dir, fileName)
 
-  await fs.promises.mkdir(saveDir, { recursive: true })
-  const matched = await findExistingFile(saveDir, fileHash)
-  if (matched) {
-    return { saved: false, exists: true, fileName: matched }
+  // 文件名由内容哈希与实际格式决定，直接检查同名文件，不用列举整个目录
+  if (await fs.promises.stat(filePath).then((stat) => stat.isFile(), () => false)) {
+    return { saved: false, exists: true, fileName }
   }
 
+  if (saveImagesQuotaBytes > 0) {
+    const usage = await getSaveDirUsage(dir)
+    if (usage.bytes + buffer.length > saveImagesQuotaBytes) {
+      throw createImageStoreError('saved-images 已超出配额', 'SAVE_QUOTA_EXCEEDED')
+    }
+    usage.bytes += buffer.length
+  }
+
+  await fs.promises.mkdir(dir, { recursive: true })
   await fs.promises.writeFile(filePath, buffer)
   return { saved: true, exists: false, fileName }
 }
 
-export const saveBackendImageBuffer = async (buffer, contentType) => {
+// 启动时调用，对象存储的配置或凭据有误时直接报错退出
+export const initImageStorage = async () => {
+  if (imageStore.open) await imageStore.open()
+}
+
+export const saveBackendImageBuffer = async (workspaceId, buffer, contentType) => {
   const fileHash = crypto.createHash('sha256').update(buffer).digest('hex')
-  const extension = getExtensionFromType(contentType)
+  const extension = getExtensionFromType(detectImageType(buffer) || contentType)
   const fileName = `${fileHash}${extension}`
-  const filePath = path.join(backendImagesDir, fileName)
 
-  await fs.promises.mkdir(backendImagesDir, { recursive: true })
-  const matched = await findExistingFile(backendImagesDir, fileHash)
+  const matched = await imageIndex.find(workspaceId, fileHash)
   if (matched) {
-    return { saved: false, exists: true, fileName: matched }
+    // 文件被外部删除时索引会过期，确认仍存在后才复用，否则重新写入
+    if (await imageStore.stat(workspaceId, matched.fileName)) {
+      return { saved: false, exists: true, fileName: matched.fileName }
+    }
+    await imageIndex.remove(workspaceId, matched.fileName)
   }
 
-  await fs.promises.writeFile(filePath, buffer)
+  await imageStore.write(workspaceId, fileName, buffer, getMimeFromFilename(fileName))
+  await imageIndex.add(workspaceId, describeImage(fileName, buffer))
   return { saved: true, exists: false, fileName }
 }
 
-export const getMimeFromFilename = (fileName = '') => {
-  const lower = fileName.toLowerCase()
-  if (lower.endsWith('.png')) return 'image/png'
-  if (lower.endsWith('.jpg') || lower.endsWith('.jpeg')) return 'image/jpeg'
-  if (lower.endsWith('.webp')) return 'image/webp'
-  if (lower.endsWith('.gif')) return 'image/gif'
-  if (lower.endsWith('.bmp')) return 'image/bmp'
-  return 'application/octet-stream'
+// 以下接口的 key 都是图片文件名，调用方传入前先用 path.basename 去掉路径部分
+export const readBackendImage = (workspaceId, key) => imageStore.read(workspaceId, key)
+
+export const deleteBackendImage = async (workspaceId, key) => {
+  await imageStore.remove(workspaceId, key)
+  await imageIndex.remove(workspaceId, key)
+}
+
+export const listBackendImageKeys = (workspaceId) => imageStore.list(workspaceId)
+
+// keys 为刚列举出的全部图片，索引据此增删条目
+export const reconcileBackendImageIndex = (workspaceId, keys) => imageIndex.reconcile(workspaceId, keys)
+
+// 目标工作区已有图片时抛出 WORKSPACE_CONFLICT，返回移动后的位置说明
+export const moveBackendImages = async (fromWorkspaceId, toWorkspaceId) => {
+  const moved = await imageStore.moveWorkspace(fromWorkspaceId, toWorkspaceId)
+  if (moved.length > 0) await imageIndex.moveWorkspace(fromWorkspaceId, toWorkspaceId)
+  return moved
+}
+
+// 本地存储交给 sendFile；对象存储按配置跳转到预签名地址，或由服务端转发响应体。
+// 图片不存在时返回 false，由调用方返回 404
+export const sendBackendImage = async (res, workspaceId, key, { cacheControl } = {}) => {
+  const target = await imageStore.serve(workspaceId, key)
+  if (!target) return false
+  if (target.redirectUrl) {
+    res.redirect(302, target.redirectUrl)
+    return true
+  }
+  if (cacheControl) {
+    res.set('Cache-Control', cacheControl)
+  }
+  if (target.filePath) {
+    res.sendFile(target.filePath)
+    return true
+  }
+  res.type(target.contentType || getMimeFromFilename(key))
+  if (target.contentLength) res.set('Content-Length', target.contentLength)
+  if (target.etag) res.set('ETag', target.etag)
+  if (target.lastModified) res.set('Last-Modified', target.lastModified)
+  try {
+    await pipeline(target.stream, res)
+  } catch (err) {
+    // 浏览器中途断开时响应已经开始发送，不再改写为错误响应
+    if (!res.headersSent) throw err
+  }
+  return true
 }
@@ -0,0 +1,38 @@
+const clampNumber = (value, min, max) => Math.min(max, Math.max(min, value))
+
+let sharpLoader = null
+
+const loadSharp = () => {
+  if (!sharpLoader) {
+    sharpLoader = import('sharp')
+      .then((mod) => mod.default || mod)
+      .catch((err) => {
+        console.warn('未安装 sharp，参考图将不会转换为 WebP。', err?.message || err)
+        return null
+      })
+  }
+  return sharpLoader
+}
+
+const resolveWebpQuality = (config) => {
+  if (typeof config?.webpQuality !== 'number' || Number.isNaN(config.webpQuality)) {
+    return null
+  }
+  return clampNumber(Math.round(config.webpQuality), 50, 100)
+}
+
+export const maybeConvertToWebp = async (buffer, mimeType, config) => {
+  const fallback = { mimeType: mimeType || 'image/png', buffer }
+  if (!mimeType || mimeType.toLowerCase() === 'image/webp') return fallback
+  const quality = resolveWebpQuality(config)
+  if (!quality) return fallback
+  const sharp = await loadSharp()
+  if (!sharp) return fallback
+  try {
+    const converted = await sharp(buffer).webp({ quality }).toBuffer()
+    return { mimeType: 'image/webp', buffer: converted }
+  } catch (err) {
+    console.warn('WebP conversion failed, using original image.', err)
+    return fallback
+  }
+}
@@ -0,0 +1,83 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+
+// JSON 文件读写：写入先落到临时文件再重命名，避免进程中断时留下半个文件
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export const readJsonFile = async (filePath, fallback) => {
+  try {
+    const raw = await fs.promises.readFile(filePath, 'utf-8')
+    if (!raw.trim()) return fallback
+    return JSON.parse(raw)
+  } catch (err) {
+    if (err && err.code === 'ENOENT') return fallback
+    if (err && err.name === 'SyntaxError') {
+      console.warn(`Invalid JSON file, fallback to defaults: ${filePath}`, err)
+      return fallback
+    }
+    throw err
+  }
+}
+
+export const writeJsonFileAtomic = async (filePath, data) => {
+  const dir = path.dirname(filePath)
+  const baseName = path.basename(filePath)
+  const payload = JSON.stringify(data, null, 2)
+  await fs.promises.mkdir(dir, { recursive: true })
+
+  let tempPath = ''
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const nonce = crypto.randomUUID()
+    tempPath = path.join(
+      dir,
+      `.${baseName}.${process.pid}.${Date.now()}.${nonce}.tmp`,
+    )
+    try {
+      await fs.promises.writeFile(tempPath, payload, { encoding: 'utf-8', flag: 'wx' })
+      break
+    } catch (err) {
+      if (err && err.code === 'EEXIST' && attempt < 2) continue
+      throw err
+    }
+  }
+
+  try {
+    await fs.promises.rename(tempPath, filePath)
+  } catch (err) {
+    if (err && err.code === 'ENOENT') {
+      await fs.promises.mkdir(dir, { recursive: true })
+      try {
+        await fs.promises.rename(tempPath, filePath)
+        return
+      } catch (retryErr) {
+        if (!retryErr || retryErr.code !== 'ENOENT') {
+          throw retryErr
+        }
+      }
+      await fs.promises.writeFile(filePath, payload, { encoding: 'utf-8' })
+      return
+    }
+    if (err && ['EPERM', 'EACCES', 'EBUSY'].includes(err.code)) {
+      for (let attempt = 0; attempt < 3; attempt += 1) {
+        await sleep(30 * (attempt + 1))
+        try {
+          await fs.promises.rename(tempPath, filePath)
+          return
+        } catch (retryErr) {
+          if (!retryErr || !['EPERM', 'EACCES', 'EBUSY'].includes(retryErr.code)) {
+            throw retryErr
+          }
+        }
+      }
+      await fs.promises.writeFile(filePath, payload, { encoding: 'utf-8' })
+      return
+    }
+    throw err
+  } finally {
+    if (tempPath) {
+      await fs.promises.unlink(tempPath).catch(() => undefined)
+    }
+  }
+}
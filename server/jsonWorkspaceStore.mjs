@@ -0,0 +1,90 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { backendWorkspacesDir, getWorkspacePaths } from './config.mjs'
+import { readJsonFile, writeJsonFileAtomic } from './jsonFile.mjs'
+import { assertValidTaskId, isValidTaskId } from './taskId.mjs'
+
+// JSON 存储：state.json、collection.json、image-index.json 与 tasks/<任务 ID>.json，按工作区分目录保存
+
+const getTaskFilePath = (workspaceId, taskId) =>
+  path.join(getWorkspacePaths(workspaceId).tasksDir, `${assertValidTaskId(taskId)}.json`)
+
+const createWorkspaceConflictError = (target) => {
+  const error = new Error(`目标工作区已存在 ${target}，请先手动处理`)
+  error.code = 'WORKSPACE_CONFLICT'
+  return error
+}
+
+export const jsonWorkspaceStore = {
+  name: 'json',
+
+  readState: (workspaceId) => readJsonFile(getWorkspacePaths(workspaceId).statePath, null),
+
+  writeState: (workspaceId, data) => writeJsonFileAtomic(getWorkspacePaths(workspaceId).statePath, data),
+
+  readCollection: (workspaceId) => readJsonFile(getWorkspacePaths(workspaceId).collectionPath, []),
+
+  writeCollection: (workspaceId, items) =>
+    writeJsonFileAtomic(getWorkspacePaths(workspaceId).collectionPath, items),
+
+  readImageIndex: (workspaceId) => readJsonFile(getWorkspacePaths(workspaceId).imageIndexPath, null),
+
+  writeImageIndex: (workspaceId, data) =>
+    writeJsonFileAtomic(getWorkspacePaths(workspaceId).imageIndexPath, data),
+
+  deleteImageIndex: async (workspaceId) => {
+    await fs.promises.rm(getWorkspacePaths(workspaceId).imageIndexPath, { force: true })
+  },
+
+  listTaskIds: async (workspaceId) => {
+    try {
+      const entries = await fs.promises.readdir(getWorkspacePaths(workspaceId).tasksDir, {
+        withFileTypes: true,
+      })
+      return entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+        .map((entry) => path.basename(entry.name, '.json'))
+        .filter(isValidTaskId)
+    } catch (err) {
+      if (err && err.code === 'ENOENT') return []
+      throw err
+    }
+  },
+
+  readTask: (workspaceId, taskId) => readJsonFile(getTaskFilePath(workspaceId, taskId), null),
+
+  writeTask: (workspaceId, taskId, data) => writeJsonFileAtomic(getTaskFilePath(workspaceId, taskId), data),
+
+  deleteTask: async (workspaceId, taskId) => {
+    await fs.promises.unlink(getTaskFilePath(workspaceId, taskId)).catch(() => undefined)
+  },
+
+  // 根目录的默认工作区加上每个用户目录
+  listWorkspaceIds: async () => {
+    const ids = ['']
+    try {
+      const entries = await fs.promises.readdir(backendWorkspacesDir, { withFileTypes: true })
+      entries.filter((entry) => entry.isDirectory()).forEach((entry) => ids.push(entry.name))
+    } catch (err) {
+      if (!err || err.code !== 'ENOENT') throw err
+    }
+    return ids
+  },
+
+  // 图片目录与图片索引不在这里处理，由调用方一起移动
+  moveWorkspace: async (fromWorkspaceId, toWorkspaceId) => {
+    const source = getWorkspacePaths(fromWorkspaceId)
+    const target = getWorkspacePaths(toWorkspaceId)
+    await fs.promises.mkdir(target.baseDir, { recursive: true })
+    const moved = []
+    for (const key of ['statePath', 'collectionPath', 'tasksDir']) {
+      if (!fs.existsSync(source[key])) continue
+      if (fs.existsSync(target[key])) {
+        throw createWorkspaceConflictError(target[key])
+      }
+      await fs.promises.rename(source[key], target[key])
+      moved.push(target[key])
+    }
+    return moved
+  },
+}
@@ -0,0 +1,86 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { getWorkspacePaths } from './config.mjs'
+
+// 本地磁盘：图片保存在各工作区的 images 目录，文件名为 <sha256><扩展名>
+
+const createWorkspaceConflictError = (target) => {
+  const error = new Error(`目标工作区已存在 ${target}，请先手动处理`)
+  error.code = 'WORKSPACE_CONFLICT'
+  return error
+}
+
+const getImagePath = (workspaceId, key) => path.join(getWorkspacePaths(workspaceId).imagesDir, key)
+
+const listFiles = async (dir) => {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true })
+    return entries.filter((entry) => entry.isFile()).map((entry) => entry.name)
+  } catch (err) {
+    if (err && err.code === 'ENOENT') return []
+    throw err
+  }
+}
+
+export const localImageStore = {
+  name: 'local',
+
+  write: async (workspaceId, key, buffer) => {
+    await fs.promises.mkdir(getWorkspacePaths(workspaceId).imagesDir, { recursive: true })
+    await fs.promises.writeFile(getImagePath(workspaceId, key), buffer)
+  },
+
+  // maxBytes 只读取开头部分，用于识别文件头
+  read: async (workspaceId, key, { maxBytes } = {}) => {
+    try {
+      if (!maxBytes) return await fs.promises.readFile(getImagePath(workspaceId, key))
+      const handle = await fs.promises.open(getImagePath(workspaceId, key), 'r')
+      try {
+        const buffer = Buffer.alloc(maxBytes)
+        const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0)
+        return buffer.subarray(0, bytesRead)
+      } finally {
+        await handle.close()
+      }
+    } catch (err) {
+      if (err && err.code === 'ENOENT') return null
+      throw err
+    }
+  },
+
+  stat: async (workspaceId, key) => {
+    try {
+      const stat = await fs.promises.stat(getImagePath(workspaceId, key))
+      return stat.isFile() ? { size: stat.size, modifiedAt: Math.round(stat.mtimeMs) } : null
+    } catch (err) {
+      if (err && err.code === 'ENOENT') return null
+      throw err
+    }
+  },
+
+  remove: async (workspaceId, key) => {
+    await fs.promises.unlink(getImagePath(workspaceId, key)).catch(() => undefined)
+  },
+
+  list: (workspaceId) => listFiles(getWorkspacePaths(workspaceId).imagesDir),
+
+  // 交给 res.sendFile 发送，保留 Range 与缓存校验
+  serve: async (workspaceId, key) => {
+    const filePath = getImagePath(workspaceId, key)
+    return fs.existsSync(filePath) ? { filePath } : null
+  },
+
+  moveWorkspace: async (fromWorkspaceId, toWorkspaceId) => {
+    const source = getWorkspacePaths(fromWorkspaceId)
+    const target = getWorkspacePaths(toWorkspaceId)
+    if (!fs.existsSync(source.imagesDir)) return []
+    if ((await listFiles(target.imagesDir)).length > 0) {
+      throw createWorkspaceConflictError(target.imagesDir)
+    }
+    await fs.promises.mkdir(target.baseDir, { recursive: true })
+    // 目标目录存在但为空时先移除，rename 不能覆盖已有目录
+    await fs.promises.rmdir(target.imagesDir).catch(() => undefined)
+    await fs.promises.rename(source.imagesDir, target.imagesDir)
+    return [target.imagesDir]
+  },
+}
@@ -52,6 +52,11 @@ export const logBackendOutbound = (label, payload) => {
   console.log(`[backend] ${label}:`, formatLogPayload(payload))
 }
 
+// 登录失败与锁定属于安全事件，不受 BACKEND_LOG_* 开关影响，始终输出
+export const logBackendAuthFailure = (label, payload) => {
+  console.warn(`[backend] ${label}:`, formatLogPayload(payload))
+}
+
 export const describeFetchError = (err) => ({
   name: err?.name,
   message: err?.message,
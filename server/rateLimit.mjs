@@ -0,0 +1,111 @@
+import crypto from 'node:crypto'
+
+// 供应商给出的恢复时间过长时按上限处理，避免任务被挂起一整天
+const MAX_RATE_LIMIT_WAIT_MS = 6 * 60 * 60 * 1000
+const EPOCH_SECONDS_THRESHOLD = 1e9
+const EPOCH_MS_THRESHOLD = 1e12
+
+// OpenAI 按请求数与 token 数分别限流，各自带剩余额度与恢复时间
+const LIMIT_HEADER_PAIRS = [
+  { remaining: 'x-ratelimit-remaining-requests', reset: 'x-ratelimit-reset-requests' },
+  { remaining: 'x-ratelimit-remaining-tokens', reset: 'x-ratelimit-reset-tokens' },
+]
+const GENERIC_RESET_HEADER_NAMES = ['x-ratelimit-reset', 'ratelimit-reset']
+
+const DURATION_UNITS = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 }
+
+// OpenAI 风格的时长：「1s」「6m0s」「20ms」「1h2m3.5s」
+const parseDurationMs = (value) => {
+  const matches = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d)/g)]
+  if (matches.length === 0) return null
+  const consumed = matches.map((match) => match[0]).join('')
+  if (consumed !== value) return null
+  return matches.reduce((total, match) => total + Number(match[1]) * DURATION_UNITS[match[2]], 0)
+}
+
+const parseResetValue = (raw, now) => {
+  const value = String(raw || '').trim().toLowerCase()
+  if (!value) return null
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    const number = Number(value)
+    if (number >= EPOCH_MS_THRESHOLD) return number
+    if (number >= EPOCH_SECONDS_THRESHOLD) return number * 1000
+    return now + number * 1000
+  }
+  const duration = parseDurationMs(value)
+  return duration === null ? null : now + duration
+}
+
+const parseRetryAfter = (raw, now) => {
+  const value = String(raw || '').trim()
+  if (!value) return null
+  if (/^\d+(?:\.\d+)?$/.test(value)) return now + Number(value) * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : date
+}
+
+const readHeader = (headers, name) => {
+  if (!headers) return null
+  if (typeof headers.get === 'function') return headers.get(name)
+  return headers[name] ?? null
+}
+
+const isFutureTime = (value, now) => Number.isFinite(value) && value > now
+
+const isLimitExhausted = (raw) => {
+  const value = String(raw ?? '').trim()
+  return value !== '' && Number.isFinite(Number(value)) && Number(value) <= 0
+}
+
+// 优先使用 Retry-After；否则只看剩余额度已为 0 的那一类限额的恢复时间，
+// 其余限额的恢复时间（如按天重置的 token 额度）与这次 429 无关。
+// 无法判断触发了哪一类时取最早的恢复时间，届时仍被限流会再次暂停
+const resolveResetAt = (headers, now) => {
+  const retryAfter = parseRetryAfter(readHeader(headers, 'retry-after'), now)
+  if (isFutureTime(retryAfter, now)) return retryAfter
+  const exhausted = LIMIT_HEADER_PAIRS.filter(({ remaining }) =>
+    isLimitExhausted(readHeader(headers, remaining)),
+  )
+    .map(({ reset }) => parseResetValue(readHeader(headers, reset), now))
+    .filter((value) => isFutureTime(value, now))
+  if (exhausted.length > 0) return Math.max(...exhausted)
+  const fallback = [
+    ...GENERIC_RESET_HEADER_NAMES,
+    ...LIMIT_HEADER_PAIRS.map(({ reset }) => reset),
+  ]
+    .map((name) => parseResetValue(readHeader(headers, name), now))
+    .filter((value) => isFutureTime(value, now))
+  return fallback.length > 0 ? Math.min(...fallback) : null
+}
+
+// 返回供应商要求的恢复时间戳，没有可用的头部时返回 null
+export const parseRateLimitResetAt = (headers, now = Date.now()) => {
+  const resetAt = resolveResetAt(headers, now)
+  return resetAt === null ? null : Math.min(resetAt, now + MAX_RATE_LIMIT_WAIT_MS)
+}
+
+const keyPausedUntil = new Map()
+
+const buildKeyFingerprint = (config = {}) =>
+  crypto
+    .createHash('sha256')
+    .update(`${config.apiFormat || ''}\n${config.apiUrl || ''}\n${config.apiKey || ''}`)
+    .digest('hex')
+    .slice(0, 16)
+
+export const markKeyRateLimited = (config, until) => {
+  if (!Number.isFinite(until)) return
+  const fingerprint = buildKeyFingerprint(config)
+  keyPausedUntil.set(fingerprint, Math.max(keyPausedUntil.get(fingerprint) || 0, until))
+}
+
+export const getKeyRateLimitedUntil = (config, now = Date.now()) => {
+  const fingerprint = buildKeyFingerprint(config)
+  const until = keyPausedUntil.get(fingerprint)
+  if (!until) return null
+  if (until <= now) {
+    keyPausedUntil.delete(fingerprint)
+    return null
+  }
+  return until
+}
@@ -0,0 +1,219 @@
+import crypto from 'node:crypto'
+
+// 精简的 S3 兼容客户端：只实现图片存储用到的对象读写、列举、复制与预签名地址，
+// 请求使用 AWS Signature V4 签名，可对接 AWS S3、MinIO、Cloudflare R2 等服务
+
+const SIGNING_ALGORITHM = 'AWS4-HMAC-SHA256'
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+const sha256Hex = (value) => crypto.createHash('sha256').update(value).digest('hex')
+const hmac = (key, value) => crypto.createHmac('sha256', key).update(value).digest()
+
+const EMPTY_PAYLOAD_HASH = sha256Hex('')
+
+// RFC 3986 编码：encodeURIComponent 之外还要编码 !'()*
+const encodeRfc3986 = (value) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  )
+
+const encodeKeyPath = (key) => key.split('/').map(encodeRfc3986).join('/')
+
+// 20240102T030405Z
+const formatAmzDate = (date) => date.toISOString().replace(/[-:]|\.\d{3}/g, '')
+
+const buildCanonicalQuery = (query) =>
+  Object.keys(query)
+    .sort()
+    .map((key) => `${encodeRfc3986(key)}=${encodeRfc3986(String(query[key]))}`)
+    .join('&')
+
+const decodeXmlText = (value) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+const readXmlValues = (xml, tag) =>
+  Array.from(xml.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, 'g')), (match) => decodeXmlText(match[1]))
+
+const createS3Error = (status, body, action) => {
+  const [code] = readXmlValues(body, 'Code')
+  const [detail] = readXmlValues(body, 'Message')
+  const error = new Error(`对象存储${action}失败: ${status} ${code || ''} ${detail || ''}`.trim())
+  error.status = status
+  error.code = code || 'S3_ERROR'
+  return error
+}
+
+const readS3Error = async (response, action) =>
+  createS3Error(response.status, await response.text().catch(() => ''), action)
+
+export const createS3Client = ({
+  endpoint,
+  region,
+  bucket,
+  accessKeyId,
+  secretAccessKey,
+  forcePathStyle,
+}) => {
+  const baseUrl = new URL(endpoint || `https://s3.${region}.amazonaws.com`)
+  const basePath = baseUrl.pathname.replace(/\/+$/, '')
+  const host = forcePathStyle ? baseUrl.host : `${bucket}.${baseUrl.host}`
+  const origin = `${baseUrl.protocol}//${host}`
+
+  const buildPath = (key) =>
+    forcePathStyle
+      ? `${basePath}/${encodeRfc3986(bucket)}/${encodeKeyPath(key)}`
+      : `${basePath}/${encodeKeyPath(key)}`
+
+  const getSigningKey = (dateStamp) =>
+    hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request')
+
+  // headers 的键需要是小写，全部参与签名
+  const sign = ({ method, pathname, canonicalQuery, headers, payloadHash, amzDate }) => {
+    const dateStamp = amzDate.slice(0, 8)
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const names = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      pathname,
+      canonicalQuery,
+      names.map((name) => `${name}:${String(headers[name]).trim()}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n')
+    const stringToSign = [SIGNING_ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+    return {
+      credential: `${accessKeyId}/${scope}`,
+      signedHeaders: names.join(';'),
+      signature: hmac(getSigningKey(dateStamp), stringToSign).toString('hex'),
+    }
+  }
+
+  const request = async (method, key, { query = {}, headers = {}, body } = {}) => {
+    const pathname = buildPath(key)
+    const canonicalQuery = buildCanonicalQuery(query)
+    const amzDate = formatAmzDate(new Date())
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH
+    const signedHeaders = {
+      ...headers,
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    }
+    const signed = sign({
+      method,
+      pathname,
+      canonicalQuery,
+      headers: signedHeaders,
+      payloadHash,
+      amzDate,
+    })
+    // host 由 fetch 按地址自动填写，与签名中的值一致
+    const { host: _host, ...sendHeaders } = signedHeaders
+    return fetch(`${origin}${pathname}${canonicalQuery ? `?${canonicalQuery}` : ''}`, {
+      method,
+      headers: {
+        ...sendHeaders,
+        authorization: `${SIGNING_ALGORITHM} Credential=${signed.credential}, SignedHeaders=${signed.signedHeaders}, Signature=${signed.signature}`,
+      },
+      body,
+    })
+  }
+
+  return {
+    putObject: async (key, body, contentType) => {
+      const response = await request('PUT', key, {
+        headers: { 'content-type': contentType || 'application/octet-stream' },
+        body,
+      })
+      if (!response.ok) throw await readS3Error(response, '写入')
+      await response.arrayBuffer()
+    },
+
+    // 返回 fetch 响应，由调用方读取或转发响应体；对象不存在时返回 null。
+    // range 形如 bytes=0-1023，只取部分内容
+    getObject: async (key, { range } = {}) => {
+      const response = await request('GET', key, { headers: range ? { range } : {} })
+      if (response.status === 404) {
+        await response.arrayBuffer()
+        return null
+      }
+      if (!response.ok) throw await readS3Error(response, '读取')
+      return response
+    },
+
+    headObject: async (key) => {
+      const response = await request('HEAD', key)
+      if (response.status === 404) return null
+      if (!response.ok) throw await readS3Error(response, '读取')
+      return {
+        contentType: response.headers.get('content-type') || '',
+        contentLength: Number(response.headers.get('content-length')) || 0,
+        lastModified: response.headers.get('last-modified') || '',
+      }
+    },
+
+    deleteObject: async (key) => {
+      const response = await request('DELETE', key)
+      if (!response.ok && response.status !== 404) throw await readS3Error(response, '删除')
+      await response.arrayBuffer()
+    },
+
+    // 服务端复制对象，复制失败时 S3 也可能返回 200 并在响应体里给出错误
+    copyObject: async (sourceKey, targetKey) => {
+      const response = await request('PUT', targetKey, {
+        headers: { 'x-amz-copy-source': `/${encodeRfc3986(bucket)}/${encodeKeyPath(sourceKey)}` },
+      })
+      const body = await response.text()
+      if (!response.ok || body.includes('<Error>')) {
+        throw createS3Error(response.status, body, '复制')
+      }
+    },
+
+    // 列出前缀下的全部对象键，自动翻页
+    listObjects: async (prefix) => {
+      const keys = []
+      let continuationToken = ''
+      do {
+        const query = { 'list-type': '2', prefix }
+        if (continuationToken) query['continuation-token'] = continuationToken
+        const response = await request('GET', '', { query })
+        if (!response.ok) throw await readS3Error(response, '列举')
+        const xml = await response.text()
+        keys.push(...readXmlValues(xml, 'Key'))
+        continuationToken = readXmlValues(xml, 'IsTruncated')[0] === 'true'
+          ? readXmlValues(xml, 'NextContinuationToken')[0] || ''
+          : ''
+      } while (continuationToken)
+      return keys
+    },
+
+    presignGetObject: (key, expiresInSeconds) => {
+      const pathname = buildPath(key)
+      const amzDate = formatAmzDate(new Date())
+      const scope = `${amzDate.slice(0, 8)}/${region}/s3/aws4_request`
+      const query = {
+        'X-Amz-Algorithm': SIGNING_ALGORITHM,
+        'X-Amz-Credential': `${accessKeyId}/${scope}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(expiresInSeconds),
+        'X-Amz-SignedHeaders': 'host',
+      }
+      const canonicalQuery = buildCanonicalQuery(query)
+      const { signature } = sign({
+        method: 'GET',
+        pathname,
+        canonicalQuery,
+        headers: { host },
+        payloadHash: UNSIGNED_PAYLOAD,
+        amzDate,
+      })
+      return `${origin}${pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`
+    },
+  }
+}
@@ -0,0 +1,104 @@
+import { Readable } from 'node:stream'
+import { backendS3Config } from './config.mjs'
+import { createS3Client } from './s3Client.mjs'
+
+// S3 兼容对象存储：对象键沿用本地目录结构（images/<文件名>、users/<用户 ID>/images/<文件名>），
+// 加上 BACKEND_S3_PREFIX 前缀。图片不再落到本地磁盘，服务可以无状态地运行在容器里。
+
+// 预签名地址的有效期，只用于图片请求的跳转，浏览器拿到后立即加载
+const REDIRECT_EXPIRES_SECONDS = 300
+
+let client = null
+
+const createWorkspaceConflictError = (target) => {
+  const error = new Error(`对象存储中已存在 ${target} 下的图片，请先手动处理`)
+  error.code = 'WORKSPACE_CONFLICT'
+  return error
+}
+
+const getClient = () => {
+  if (!client) {
+    const { bucket, accessKeyId, secretAccessKey } = backendS3Config
+    if (!bucket || !accessKeyId || !secretAccessKey) {
+      throw new Error(
+        'BACKEND_IMAGE_STORAGE=s3 需要设置 BACKEND_S3_BUCKET、BACKEND_S3_ACCESS_KEY_ID 与 BACKEND_S3_SECRET_ACCESS_KEY',
+      )
+    }
+    client = createS3Client(backendS3Config)
+  }
+  return client
+}
+
+const getWorkspacePrefix = (workspaceId) =>
+  `${backendS3Config.prefix}${workspaceId ? `users/${workspaceId}/` : ''}images/`
+
+const toObjectKey = (workspaceId, key) => `${getWorkspacePrefix(workspaceId)}${key}`
+
+const listWorkspaceKeys = async (workspaceId) => {
+  const prefix = getWorkspacePrefix(workspaceId)
+  const objectKeys = await getClient().listObjects(prefix)
+  // 只取这一层的对象，忽略手动放进更深路径的文件
+  return objectKeys.map((key) => key.slice(prefix.length)).filter((key) => key && !key.includes('/'))
+}
+
+export const s3ImageStore = {
+  name: 's3',
+
+  // 启动时列举一次，配置或凭据错误时直接报错退出
+  open: async () => {
+    await getClient().listObjects(`${getWorkspacePrefix('')}.probe`)
+  },
+
+  write: (workspaceId, key, buffer, contentType) =>
+    getClient().putObject(toObjectKey(workspaceId, key), buffer, contentType),
+
+  // maxBytes 通过 Range 请求只取开头部分，用于识别文件头
+  read: async (workspaceId, key, { maxBytes } = {}) => {
+    const response = await getClient().getObject(toObjectKey(workspaceId, key), {
+      range: maxBytes ? `bytes=0-${maxBytes - 1}` : '',
+    })
+    return response ? Buffer.from(await response.arrayBuffer()) : null
+  },
+
+  stat: async (workspaceId, key) => {
+    const head = await getClient().headObject(toObjectKey(workspaceId, key))
+    if (!head) return null
+    return { size: head.contentLength, modifiedAt: Date.parse(head.lastModified) || Date.now() }
+  },
+
+  remove: (workspaceId, key) => getClient().deleteObject(toObjectKey(workspaceId, key)),
+
+  list: listWorkspaceKeys,
+
+  serve: async (workspaceId, key) => {
+    const objectKey = toObjectKey(workspaceId, key)
+    if (backendS3Config.redirect) {
+      // 先确认对象存在，不存在时照常返回 404，而不是跳到对象存储的错误页
+      if (!(await getClient().headObject(objectKey))) return null
+      return { redirectUrl: getClient().presignGetObject(objectKey, REDIRECT_EXPIRES_SECONDS) }
+    }
+    const response = await getClient().getObject(objectKey)
+    if (!response) return null
+    return {
+      stream: Readable.fromWeb(response.body),
+      contentType: response.headers.get('content-type') || '',
+      contentLength: response.headers.get('content-length') || '',
+      etag: response.headers.get('etag') || '',
+      lastModified: response.headers.get('last-modified') || '',
+    }
+  },
+
+  // 对象存储没有目录重命名，逐个复制后删除原对象
+  moveWorkspace: async (fromWorkspaceId, toWorkspaceId) => {
+    const keys = await listWorkspaceKeys(fromWorkspaceId)
+    if (keys.length === 0) return []
+    if ((await listWorkspaceKeys(toWorkspaceId)).length > 0) {
+      throw createWorkspaceConflictError(getWorkspacePrefix(toWorkspaceId))
+    }
+    for (const key of keys) {
+      await getClient().copyObject(toObjectKey(fromWorkspaceId, key), toObjectKey(toWorkspaceId, key))
+      await getClient().deleteObject(toObjectKey(fromWorkspaceId, key))
+    }
+    return [`s3://${backendS3Config.bucket}/${getWorkspacePrefix(toWorkspaceId)}（${keys.length} 张图片）`]
+  },
+}
@@ -0,0 +1,161 @@
+import {
+  backendMaxConcurrency,
+  backendProviderConcurrency,
+  backendProviderConcurrencyOverrides,
+} from './config.mjs'
+import { broadcastWorkspaceSseEvent } from './sse.mjs'
+
+const pendingJobs = []
+const runningJobs = new Map()
+const runningByProvider = new Map()
+const pausedProviders = new Map()
+const pauseTimers = new Map()
+
+const resolveProviderHost = (apiUrl = '') => {
+  const trimmed = String(apiUrl || '').trim()
+  if (!trimmed) return ''
+  try {
+    const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+      ? trimmed
+      : `https://${trimmed}`
+    return new URL(withProtocol).host.toLowerCase()
+  } catch {
+    return trimmed.toLowerCase()
+  }
+}
+
+export const resolveProviderKey = (config = {}) => {
+  const apiFormat =
+    config?.apiFormat === 'gemini' || config?.apiFormat === 'vertex'
+      ? config.apiFormat
+      : 'openai'
+  const host = resolveProviderHost(config?.apiUrl)
+  return host ? `${apiFormat}:${host}` : apiFormat
+}
+
+const getProviderLimit = (providerKey) => {
+  const normalized = providerKey.toLowerCase()
+  if (Object.prototype.hasOwnProperty.call(backendProviderConcurrencyOverrides, normalized)) {
+    return backendProviderConcurrencyOverrides[normalized]
+  }
+  const apiFormat = normalized.split(':')[0]
+  if (Object.prototype.hasOwnProperty.call(backendProviderConcurrencyOverrides, apiFormat)) {
+    return backendProviderConcurrencyOverrides[apiFormat]
+  }
+  return backendProviderConcurrency
+}
+
+const isProviderPaused = (providerKey) => {
+  const until = pausedProviders.get(providerKey)
+  if (!until) return false
+  if (until <= Date.now()) {
+    pausedProviders.delete(providerKey)
+    return false
+  }
+  return true
+}
+
+const hasProviderCapacity = (providerKey) =>
+  !isProviderPaused(providerKey) &&
+  (runningByProvider.get(providerKey) || 0) < getProviderLimit(providerKey)
+
+// 供应商返回限流时暂停整个分组，恢复时间到了再继续派发排队中的任务
+export const pauseProvider = (providerKey, until) => {
+  if (!Number.isFinite(until) || until <= Date.now()) return
+  const current = pausedProviders.get(providerKey) || 0
+  if (until <= current) return
+  pausedProviders.set(providerKey, until)
+  clearTimeout(pauseTimers.get(providerKey))
+  pauseTimers.set(
+    providerKey,
+    setTimeout(() => {
+      pauseTimers.delete(providerKey)
+      pumpQueue()
+    }, until - Date.now()),
+  )
+  broadcastQueue()
+}
+
+export const getProviderPausedUntil = (providerKey) =>
+  isProviderPaused(providerKey) ? pausedProviders.get(providerKey) : null
+
+// 并发额度全局共享，排队位置与限流暂停只返回该工作区自己排队的任务，不暴露其他工作区的服务商地址
+export const getQueueSnapshot = (workspaceId = '') => {
+  const positions = {}
+  const pausedUntil = {}
+  const paused = {}
+  pendingJobs.forEach((job, index) => {
+    if ((job.workspaceId || '') !== workspaceId) return
+    if (!positions[job.taskId]) positions[job.taskId] = {}
+    positions[job.taskId][job.subTaskId] = index + 1
+    const until = getProviderPausedUntil(job.providerKey)
+    if (!until) return
+    paused[job.providerKey] = until
+    if (!pausedUntil[job.taskId]) pausedUntil[job.taskId] = {}
+    pausedUntil[job.taskId][job.subTaskId] = until
+  })
+  return {
+    running: runningJobs.size,
+    queued: pendingJobs.length,
+    maxConcurrency: Number.isFinite(backendMaxConcurrency) ? backendMaxConcurrency : 0,
+    positions,
+    pausedProviders: paused,
+    pausedUntil,
+  }
+}
+
+const broadcastQueue = () => {
+  broadcastWorkspaceSseEvent('queue', getQueueSnapshot)
+}
+
+const startJob = (job) => {
+  runningJobs.set(job.subTaskId, job)
+  runningByProvider.set(job.providerKey, (runningByProvider.get(job.providerKey) || 0) + 1)
+  Promise.resolve()
+    .then(() => job.run())
+    .catch((err) => {
+      console.warn('后端队列任务执行失败:', err)
+    })
+    .finally(() => {
+      runningJobs.delete(job.subTaskId)
+      const remaining = (runningByProvider.get(job.providerKey) || 1) - 1
+      if (remaining > 0) {
+        runningByProvider.set(job.providerKey, remaining)
+      } else {
+        runningByProvider.delete(job.providerKey)
+      }
+      pumpQueue()
+    })
+}
+
+const pumpQueue = () => {
+  let index = 0
+  while (index < pendingJobs.length && runningJobs.size < backendMaxConcurrency) {
+    const job = pendingJobs[index]
+    if (!hasProviderCapacity(job.providerKey)) {
+      index += 1
+      continue
+    }
+    pendingJobs.splice(index, 1)
+    startJob(job)
+  }
+  broadcastQueue()
+}
+
+export const isSubTaskScheduled = (subTaskId) =>
+  runningJobs.has(subTaskId) || pendingJobs.some((job) => job.subTaskId === subTaskId)
+
+export const enqueueJob = ({ workspaceId = '', taskId, subTaskId, providerKey, run }) => {
+  if (isSubTaskScheduled(subTaskId)) return false
+  pendingJobs.push({ workspaceId, taskId, subTaskId, providerKey, run, enqueuedAt: Date.now() })
+  pumpQueue()
+  return true
+}
+
+export const dequeueSubTask = (subTaskId) => {
+  const index = pendingJobs.findIndex((job) => job.subTaskId === subTaskId)
+  if (index === -1) return false
+  pendingJobs.splice(index, 1)
+  broadcastQueue()
+  return true
+}
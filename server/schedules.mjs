@@ -0,0 +1,257 @@
+import crypto from 'node:crypto'
+import { computeNextCronRun, parseCronExpression } from './cron.mjs'
+import { loadBackendSchedules, saveBackendSchedules } from './storage.mjs'
+
+// 定时运行：按 cron 表达式周期触发，或按固定间隔重复 N 次。
+// 计划保存在 server-data/schedules.json，服务重启后按 nextRunAt 继续。
+
+export const SCHEDULE_TYPES = ['cron', 'repeat']
+
+const MIN_INTERVAL_MINUTES = 1
+const MAX_INTERVAL_MINUTES = 7 * 24 * 60
+const MAX_TOTAL_RUNS = 1000
+// 任务上一轮还在生成时，隔一段时间再检查，避免打断正在进行的请求
+const BUSY_RECHECK_MS = 30 * 1000
+// 定时器最长间隔，防止系统休眠或时钟调整后错过触发
+const MAX_TIMER_DELAY_MS = 60 * 1000
+
+let runTaskHandler = null
+let runnerTimer = null
+let ticking = false
+let writeChain = Promise.resolve()
+
+const createScheduleError = (message) => {
+  const error = new Error(message)
+  error.code = 'INVALID_SCHEDULE'
+  return error
+}
+
+const toPositiveInt = (value, min, max, label) => {
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw createScheduleError(`${label}需要在 ${min}-${max} 之间`)
+  }
+  return Math.floor(number)
+}
+
+const computeNextRunAt = (schedule, from = Date.now()) => {
+  if (!schedule.enabled) return null
+  if (schedule.type === 'cron') return computeNextCronRun(schedule.cron, from)
+  if (schedule.runCount >= schedule.totalRuns) return null
+  return from + schedule.intervalMinutes * 60 * 1000
+}
+
+// 校验并合并前端提交的字段，existing 为空时视为新建
+export const normalizeScheduleInput = (payload = {}, existing = null) => {
+  const type = payload.type ?? existing?.type
+  if (!SCHEDULE_TYPES.includes(type)) {
+    throw createScheduleError('未知的定时类型')
+  }
+  const next = {
+    ...existing,
+    type,
+    enabled: typeof payload.enabled === 'boolean' ? payload.enabled : existing?.enabled ?? true,
+  }
+  if (type === 'cron') {
+    const cron = String(payload.cron ?? existing?.cron ?? '').trim()
+    const parsed = parseCronExpression(cron)
+    if (computeNextCronRun(parsed) === null) {
+      throw createScheduleError('cron 表达式在未来没有可触发的时间')
+    }
+    next.cron = cron
+    delete next.intervalMinutes
+    delete next.totalRuns
+  } else {
+    next.intervalMinutes = toPositiveInt(
+      payload.intervalMinutes ?? existing?.intervalMinutes,
+      MIN_INTERVAL_MINUTES,
+      MAX_INTERVAL_MINUTES,
+      '间隔分钟数',
+    )
+    next.totalRuns = toPositiveInt(
+      payload.totalRuns ?? existing?.totalRuns,
+      1,
+      MAX_TOTAL_RUNS,
+      '运行次数',
+    )
+    delete next.cron
+  }
+  return next
+}
+
+const mutateSchedules = (mutator) => {
+  const run = writeChain.then(async () => {
+    const schedules = await loadBackendSchedules()
+    const result = await mutator(schedules)
+    if (result?.changed !== false) {
+      await saveBackendSchedules(schedules)
+    }
+    armRunnerTimer(schedules)
+    return result?.value
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+const belongsTo = (schedule, workspaceId) => (schedule.workspaceId || '') === workspaceId
+
+export const listTaskSchedules = async (workspaceId, taskId) => {
+  const schedules = await loadBackendSchedules()
+  return schedules.filter(
+    (schedule) => belongsTo(schedule, workspaceId) && schedule.taskId === taskId,
+  )
+}
+
+export const createTaskSchedule = async (workspaceId, taskId, payload) => {
+  const normalized = normalizeScheduleInput(payload)
+  const now = Date.now()
+  const schedule = {
+    ...normalized,
+    id: crypto.randomUUID(),
+    workspaceId,
+    taskId,
+    runCount: 0,
+    createdAt: now,
+    lastRunAt: null,
+    lastError: '',
+  }
+  // 重复运行的第一次立即触发，之后再按间隔
+  schedule.nextRunAt = schedule.type === 'cron' ? computeNextRunAt(schedule, now) : schedule.enabled ? now : null
+  return mutateSchedules((schedules) => {
+    schedules.push(schedule)
+    return { value: schedule }
+  })
+}
+
+export const updateSchedule = async (workspaceId, scheduleId, payload) =>
+  mutateSchedules((schedules) => {
+    const index = schedules.findIndex(
+      (item) => item.id === scheduleId && belongsTo(item, workspaceId),
+    )
+    if (index === -1) return { changed: false, value: null }
+    const current = schedules[index]
+    const next = normalizeScheduleInput(payload, current)
+    const timingChanged =
+      next.type !== current.type ||
+      next.cron !== current.cron ||
+      next.intervalMinutes !== current.intervalMinutes ||
+      next.enabled !== current.enabled
+    // 已跑完的重复计划重新启用时从头计数
+    if (next.type === 'repeat' && next.enabled && !current.enabled && next.runCount >= next.totalRuns) {
+      next.runCount = 0
+    }
+    if (timingChanged || next.totalRuns !== current.totalRuns) {
+      next.nextRunAt = computeNextRunAt(next)
+      next.lastError = ''
+    }
+    schedules[index] = next
+    return { value: next }
+  })
+
+export const deleteSchedule = async (workspaceId, scheduleId) =>
+  mutateSchedules((schedules) => {
+    const index = schedules.findIndex(
+      (item) => item.id === scheduleId && belongsTo(item, workspaceId),
+    )
+    if (index === -1) return { changed: false, value: false }
+    schedules.splice(index, 1)
+    return { value: true }
+  })
+
+export const removeTaskSchedules = async (workspaceId, taskId) =>
+  mutateSchedules((schedules) => {
+    const remaining = schedules.filter(
+      (schedule) => !(belongsTo(schedule, workspaceId) && schedule.taskId === taskId),
+    )
+    if (remaining.length === schedules.length) return { changed: false }
+    schedules.splice(0, schedules.length, ...remaining)
+    return {}
+  })
+
+const applyRunOutcome = (schedule, outcome, now) => {
+  if (outcome === 'missing') {
+    schedule.enabled = false
+    schedule.nextRunAt = null
+    schedule.lastError = '任务不存在，已停用'
+    return
+  }
+  if (outcome === 'busy') {
+    schedule.nextRunAt = now + BUSY_RECHECK_MS
+    return
+  }
+  if (outcome instanceof Error) {
+    schedule.lastError = outcome.message || '触发失败'
+    schedule.nextRunAt = computeNextRunAt(schedule, now) ?? null
+    return
+  }
+  schedule.runCount = (schedule.runCount || 0) + 1
+  schedule.lastRunAt = now
+  schedule.lastError = ''
+  schedule.nextRunAt = computeNextRunAt(schedule, now)
+  if (schedule.nextRunAt === null) {
+    schedule.enabled = false
+  }
+}
+
+const runDueSchedules = async () => {
+  if (ticking || !runTaskHandler) return
+  ticking = true
+  try {
+    const now = Date.now()
+    const due = (await loadBackendSchedules()).filter(
+      (schedule) => schedule.enabled && Number.isFinite(schedule.nextRunAt) && schedule.nextRunAt <= now,
+    )
+    const outcomes = new Map()
+    // 同一任务只触发一次，多个到期计划共享这次运行
+    const outcomeByTask = new Map()
+    for (const schedule of due) {
+      const workspaceId = schedule.workspaceId || ''
+      const taskKey = `${workspaceId}/${schedule.taskId}`
+      if (!outcomeByTask.has(taskKey)) {
+        let outcome
+        try {
+          outcome = await runTaskHandler(workspaceId, schedule.taskId)
+        } catch (err) {
+          console.warn('定时任务触发失败:', err)
+          outcome = err instanceof Error ? err : new Error(String(err))
+        }
+        outcomeByTask.set(taskKey, outcome)
+      }
+      outcomes.set(schedule.id, outcomeByTask.get(taskKey))
+    }
+    await mutateSchedules((schedules) => {
+      if (outcomes.size === 0) return { changed: false }
+      const triggeredAt = Date.now()
+      schedules.forEach((schedule) => {
+        if (!outcomes.has(schedule.id) || !schedule.enabled) return
+        applyRunOutcome(schedule, outcomes.get(schedule.id), triggeredAt)
+      })
+      return {}
+    })
+  } catch (err) {
+    console.error('定时任务检查失败:', err)
+    armRunnerTimer([])
+  } finally {
+    ticking = false
+  }
+}
+
+function armRunnerTimer(schedules) {
+  if (!runTaskHandler) return
+  if (runnerTimer) clearTimeout(runnerTimer)
+  const upcoming = schedules
+    .filter((schedule) => schedule.enabled && Number.isFinite(schedule.nextRunAt))
+    .map((schedule) => schedule.nextRunAt)
+  const earliest = upcoming.length > 0 ? Math.min(...upcoming) : Infinity
+  const delay = Math.min(Math.max(earliest - Date.now(), 0), MAX_TIMER_DELAY_MS)
+  runnerTimer = setTimeout(() => {
+    runnerTimer = null
+    void runDueSchedules()
+  }, delay)
+}
+
+// runTask(workspaceId, taskId) 返回 'started' | 'busy' | 'missing'
+export const startScheduleRunner = async (runTask) => {
+  runTaskHandler = runTask
+  await runDueSchedules()
+}
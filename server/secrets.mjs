@@ -0,0 +1,152 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { resolveApiFormat } from '../shared/providerRequest.mjs'
+import { backendSecretKey, backendSecretKeyPath } from './config.mjs'
+
+// API 密钥加密：state.json 中的 config / configByFormat / 供应商配置里的密钥用 AES-256-GCM 加密保存，
+// 读取时在内存中解密，只有发起生图请求时使用明文；返回给前端的一律脱敏为「••••末四位」。
+
+const ENCRYPTED_PREFIX = 'enc:v1:'
+const REDACTED_MASK = '••••'
+// 太短的密钥只显示掩码，避免泄露大部分内容
+const MIN_REVEAL_LENGTH = 12
+
+let encryptionKey = null
+let decryptFailureWarned = false
+
+const loadSecretSource = () => {
+  if (backendSecretKey) return backendSecretKey
+  try {
+    const stored = fs.readFileSync(backendSecretKeyPath, 'utf-8').trim()
+    if (stored) return stored
+  } catch (err) {
+    if (!err || err.code !== 'ENOENT') throw err
+  }
+  const generated = crypto.randomBytes(32).toString('hex')
+  fs.mkdirSync(path.dirname(backendSecretKeyPath), { recursive: true })
+  fs.writeFileSync(backendSecretKeyPath, generated, { encoding: 'utf-8', mode: 0o600 })
+  console.warn(`[server] 未设置 BACKEND_SECRET_KEY，已生成密钥文件 ${backendSecretKeyPath}，建议改为通过环境变量提供`)
+  return generated
+}
+
+const getEncryptionKey = () => {
+  if (!encryptionKey) {
+    encryptionKey = crypto.createHash('sha256').update(loadSecretSource()).digest()
+  }
+  return encryptionKey
+}
+
+export const isEncryptedSecret = (value) => typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX)
+
+export const isRedactedSecret = (value) => typeof value === 'string' && value.startsWith(REDACTED_MASK)
+
+export const encryptSecret = (value) => {
+  if (typeof value !== 'string' || !value || isEncryptedSecret(value)) return value
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+  return `${ENCRYPTED_PREFIX}${[iv, tag, encrypted].map((part) => part.toString('base64url')).join('.')}`
+}
+
+// 未加密的旧值原样返回，下次保存时自动加密
+export const decryptSecret = (value) => {
+  if (!isEncryptedSecret(value)) return value
+  try {
+    const [iv, tag, encrypted] = value
+      .slice(ENCRYPTED_PREFIX.length)
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'))
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv)
+    decipher.setAuthTag(tag)
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8')
+  } catch (err) {
+    if (!decryptFailureWarned) {
+      decryptFailureWarned = true
+      console.warn('[server] API 密钥解密失败，BACKEND_SECRET_KEY 可能已更换，请重新填写密钥:', err?.message || err)
+    }
+    return ''
+  }
+}
+
+export const redactSecret = (value) => {
+  if (typeof value !== 'string' || !value) return value
+  return value.length >= MIN_REVEAL_LENGTH ? `${REDACTED_MASK}${value.slice(-4)}` : REDACTED_MASK
+}
+
+// mapSecret(value, field, group)：field 定位到具体字段（格式或供应商配置 ID 加下标），
+// group 是同一格式或同一供应商配置下的全部密钥，config 与 configByFormat 中同一格式的密钥共用 field
+const mapConfigSecrets = (config, mapSecret, format) => {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) return config
+  const next = { ...config }
+  if (typeof next.apiKey === 'string') {
+    const field = `apiKey:${format}`
+    next.apiKey = mapSecret(next.apiKey, field, field)
+  }
+  if (Array.isArray(next.providerProfiles)) {
+    next.providerProfiles = next.providerProfiles.map((profile) => {
+      if (!profile || !Array.isArray(profile.apiKeys)) return profile
+      const group = `profile:${profile.id}`
+      return {
+        ...profile,
+        apiKeys: profile.apiKeys.map((key, index) => mapSecret(key, `${group}:${index}`, group)),
+      }
+    })
+  }
+  return next
+}
+
+const mapStateSecrets = (state, mapSecret) => {
+  if (!state || typeof state !== 'object') return state
+  const next = {
+    ...state,
+    config: mapConfigSecrets(state.config, mapSecret, resolveApiFormat(state.config?.apiFormat)),
+  }
+  const formatMap = state.configByFormat
+  if (formatMap && typeof formatMap === 'object' && !Array.isArray(formatMap)) {
+    next.configByFormat = Object.fromEntries(
+      Object.entries(formatMap).map(([format, config]) => [
+        format,
+        mapConfigSecrets(config, mapSecret, format),
+      ]),
+    )
+  }
+  return next
+}
+
+export const collectStateSecrets = (state) => {
+  const secrets = []
+  mapStateSecrets(state, (value) => {
+    if (typeof value === 'string' && value) secrets.push(value)
+    return value
+  })
+  return secrets
+}
+
+export const encryptStateSecrets = (state) => mapStateSecrets(state, encryptSecret)
+
+export const decryptStateSecrets = (state) => mapStateSecrets(state, decryptSecret)
+
+export const redactStateSecrets = (state) => mapStateSecrets(state, redactSecret)
+
+// 前端提交的是脱敏后的值：先按字段位置找回明文，供应商配置里的密钥顺序变化时再在同一配置内按掩码匹配；
+// 只剩掩码的短密钥无从区分，不跨位置猜测，找不到则视为清空
+export const restoreRedactedSecrets = (state, currentState) => {
+  const byField = new Map()
+  const byGroup = new Map()
+  mapStateSecrets(currentState, (value, field, group) => {
+    if (typeof value === 'string' && value && !isRedactedSecret(value)) {
+      byField.set(field, value)
+      byGroup.set(group, [...(byGroup.get(group) || []), value])
+    }
+    return value
+  })
+  return mapStateSecrets(state, (value, field, group) => {
+    if (!isRedactedSecret(value)) return value
+    const stored = byField.get(field)
+    if (stored !== undefined && redactSecret(stored) === value) return stored
+    if (value === REDACTED_MASK) return ''
+    return (byGroup.get(group) || []).find((secret) => redactSecret(secret) === value) ?? ''
+  })
+}
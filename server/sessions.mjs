@@ -0,0 +1,145 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { backendSessionSecret, backendSessionSecretPath, backendSessionTtlMs } from './config.mjs'
+import { loadBackendSessions, saveBackendSessions } from './storage.mjs'
+import { closeSessionSseClients } from './sse.mjs'
+
+// 后端会话：令牌为「会话 ID.过期时间.签名」，签名用 HMAC-SHA256。
+// 会话记录保存在 server-data/sessions.json，服务重启后仍然有效，删除记录即可撤销。
+
+// 最近活跃时间只在内存里实时更新，隔一段时间才落盘，避免每个请求都写文件
+const TOUCH_PERSIST_INTERVAL_MS = 5 * 60 * 1000
+const MAX_USER_AGENT_LENGTH = 200
+
+let sessionSecret = null
+let sessionsCache = null
+let writeChain = Promise.resolve()
+const touchPersistedAt = new Map()
+
+const loadSessionSecret = () => {
+  if (sessionSecret) return sessionSecret
+  if (backendSessionSecret) {
+    sessionSecret = backendSessionSecret
+    return sessionSecret
+  }
+  try {
+    const stored = fs.readFileSync(backendSessionSecretPath, 'utf-8').trim()
+    if (stored) {
+      sessionSecret = stored
+      return sessionSecret
+    }
+  } catch (err) {
+    if (!err || err.code !== 'ENOENT') throw err
+  }
+  const generated = crypto.randomBytes(32).toString('hex')
+  fs.mkdirSync(path.dirname(backendSessionSecretPath), { recursive: true })
+  fs.writeFileSync(backendSessionSecretPath, generated, { encoding: 'utf-8', mode: 0o600 })
+  sessionSecret = generated
+  return sessionSecret
+}
+
+export const signBackendPayload = (payload) =>
+  crypto.createHmac('sha256', loadSessionSecret()).update(payload).digest('base64url')
+
+const isExpired = (session, now = Date.now()) => !session.expiresAt || session.expiresAt <= now
+
+const getSessions = async () => {
+  if (!sessionsCache) {
+    const stored = await loadBackendSessions()
+    sessionsCache = stored.filter((session) => !isExpired(session))
+  }
+  return sessionsCache
+}
+
+const persistSessions = () => {
+  const run = writeChain.then(() => {
+    sessionsCache = (sessionsCache || []).filter((session) => !isExpired(session))
+    return saveBackendSessions(sessionsCache)
+  })
+  writeChain = run.catch((err) => {
+    console.warn('保存后端会话失败:', err)
+  })
+  return run
+}
+
+const parseToken = (token) => {
+  const parts = String(token || '').split('.')
+  if (parts.length !== 3) return null
+  const [sessionId, expiresText, signature] = parts
+  const expected = signBackendPayload(`${sessionId}.${expiresText}`)
+  const actualBuffer = Buffer.from(signature)
+  const expectedBuffer = Buffer.from(expected)
+  if (
+    actualBuffer.length !== expectedBuffer.length ||
+    !crypto.timingSafeEqual(actualBuffer, expectedBuffer)
+  ) {
+    return null
+  }
+  const expiresAt = parseInt(expiresText, 36)
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) return null
+  return { sessionId, expiresAt }
+}
+
+export const createBackendSession = async ({ userId = '', userAgent = '', ip = '' } = {}) => {
+  const now = Date.now()
+  const session = {
+    id: crypto.randomUUID(),
+    userId,
+    createdAt: now,
+    expiresAt: now + backendSessionTtlMs,
+    lastSeenAt: now,
+    userAgent: String(userAgent).slice(0, MAX_USER_AGENT_LENGTH),
+    ip: String(ip || ''),
+  }
+  const payload = `${session.id}.${session.expiresAt.toString(36)}`
+  const token = `${payload}.${signBackendPayload(payload)}`
+  const sessions = await getSessions()
+  sessions.push(session)
+  await persistSessions()
+  return { token, session }
+}
+
+// 签名、过期时间与会话记录都校验通过才返回会话
+export const verifyBackendToken = async (token) => {
+  const parsed = parseToken(token)
+  if (!parsed) return null
+  const sessions = await getSessions()
+  const session = sessions.find((item) => item.id === parsed.sessionId)
+  if (!session || isExpired(session)) return null
+  const now = Date.now()
+  session.lastSeenAt = now
+  if (now - (touchPersistedAt.get(session.id) || 0) > TOUCH_PERSIST_INTERVAL_MS) {
+    touchPersistedAt.set(session.id, now)
+    void persistSessions().catch(() => undefined)
+  }
+  return session
+}
+
+// 只确认会话仍然有效，不更新最近活跃时间；图片签名地址据此在会话撤销后立即失效
+export const findBackendSession = async (sessionId) => {
+  const sessions = await getSessions()
+  const session = sessions.find((item) => item.id === sessionId)
+  return session && !isExpired(session) ? session : null
+}
+
+export const listBackendSessions = async (userId = '') => {
+  const sessions = await getSessions()
+  return sessions
+    .filter((session) => !isExpired(session) && (session.userId || '') === userId)
+    .sort((a, b) => (b.lastSeenAt || 0) - (a.lastSeenAt || 0))
+}
+
+// 只能撤销同一用户名下的会话
+export const revokeBackendSession = async (sessionId, userId = '') => {
+  const sessions = await getSessions()
+  const index = sessions.findIndex(
+    (session) => session.id === sessionId && (session.userId || '') === userId,
+  )
+  if (index === -1) return false
+  sessions.splice(index, 1)
+  touchPersistedAt.delete(sessionId)
+  await persistSessions()
+  closeSessionSseClients(sessionId)
+  return true
+}
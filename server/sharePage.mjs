@@ -0,0 +1,58 @@
+// 分享页面直接由服务端渲染，不加载前端应用，访问者拿不到任何后端接口入口
+
+const escapeHtml = (value) =>
+  String(value ?? '').replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  })[char])
+
+const PAGE_STYLE = `
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'PingFang SC', sans-serif; background: #FFF9FA; color: #665555; }
+  main { max-width: 1200px; margin: 0 auto; padding: 24px 16px 48px; }
+  h1 { font-size: 20px; margin: 0 0 8px; }
+  .meta { font-size: 12px; color: #A09090; margin-bottom: 16px; }
+  .prompt { background: #fff; border: 1px solid #FFE5EC; border-radius: 12px; padding: 12px 14px; font-size: 13px; line-height: 1.6; white-space: pre-wrap; word-break: break-word; margin-bottom: 20px; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 12px; }
+  .grid a { display: block; border-radius: 12px; overflow: hidden; background: #fff; border: 1px solid #FFE5EC; }
+  .grid img { display: block; width: 100%; height: auto; }
+  .empty { text-align: center; padding: 64px 0; color: #A09090; }
+`
+
+const renderDocument = (title, body) => `<!doctype html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex, nofollow">
+<meta name="referrer" content="no-referrer">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body><main>${body}</main></body>
+</html>`
+
+const formatTime = (timestamp) => new Date(timestamp).toLocaleString('zh-CN', { hour12: false })
+
+export const renderSharePage = ({ title, prompt, imageUrls, expiresAt }) => {
+  const images = imageUrls.length
+    ? `<div class="grid">${imageUrls
+        .map(
+          (url) =>
+            `<a href="${escapeHtml(url)}" target="_blank" rel="noopener"><img src="${escapeHtml(url)}" loading="lazy" alt=""></a>`,
+        )
+        .join('')}</div>`
+    : '<div class="empty">暂无图片</div>'
+  return renderDocument(
+    title,
+    `<h1>${escapeHtml(title)}</h1>
+<div class="meta">${imageUrls.length} 张图片 · 链接有效期至 ${escapeHtml(formatTime(expiresAt))}</div>
+${prompt ? `<div class="prompt">${escapeHtml(prompt)}</div>` : ''}
+${images}`,
+  )
+}
+
+export const renderShareUnavailablePage = () =>
+  renderDocument('分享不可用', '<div class="empty">分享链接不存在、已过期或已被撤销</div>')
@@ -0,0 +1,124 @@
+import crypto from 'node:crypto'
+import { loadBackendShares, saveBackendShares } from './storage.mjs'
+import { isValidTaskId } from './taskId.mjs'
+
+// 只读分享链接：范围是一个任务的生成结果，或收纳盒中的一个提示词分组。
+// 记录保存在 server-data/shares.json，链接 ID 即访问凭据，过期或撤销后立即失效。
+
+export const SHARE_TYPES = ['task', 'collection']
+
+const DEFAULT_EXPIRES_DAYS = 7
+const MAX_EXPIRES_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let writeChain = Promise.resolve()
+
+const createShareError = (message) => {
+  const error = new Error(message)
+  error.code = 'INVALID_SHARE'
+  return error
+}
+
+const isExpired = (share, now = Date.now()) => !share.expiresAt || share.expiresAt <= now
+
+const belongsTo = (share, workspaceId) => (share.workspaceId || '') === workspaceId
+
+export const buildSharePagePath = (shareId) => `/share/${encodeURIComponent(shareId)}`
+
+// 返回给前端的记录不带工作区 ID
+export const toPublicShare = (share) => ({
+  id: share.id,
+  type: share.type,
+  target: share.target,
+  createdAt: share.createdAt,
+  expiresAt: share.expiresAt,
+  url: buildSharePagePath(share.id),
+})
+
+export const normalizeShareInput = (payload = {}) => {
+  const type = payload.type
+  if (!SHARE_TYPES.includes(type)) {
+    throw createShareError('未知的分享类型')
+  }
+  const target = typeof payload.target === 'string' ? payload.target : ''
+  if (!target) {
+    throw createShareError('缺少分享范围')
+  }
+  if (type === 'task' && !isValidTaskId(target)) {
+    throw createShareError('无效的任务 ID')
+  }
+  const days = Number(payload.expiresInDays ?? DEFAULT_EXPIRES_DAYS)
+  if (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRES_DAYS) {
+    throw createShareError(`有效期需要在 1-${MAX_EXPIRES_DAYS} 天之间`)
+  }
+  return { type, target, expiresInDays: days }
+}
+
+// 写入时顺带清掉已过期的记录
+const mutateShares = (mutator) => {
+  const run = writeChain.then(async () => {
+    const now = Date.now()
+    const shares = (await loadBackendShares()).filter((share) => !isExpired(share, now))
+    const result = await mutator(shares)
+    if (result?.changed !== false) {
+      await saveBackendShares(shares)
+    }
+    return result?.value
+  })
+  writeChain = run.catch(() => undefined)
+  return run
+}
+
+export const listShares = async (workspaceId, { type, target } = {}) => {
+  const shares = await loadBackendShares()
+  return shares
+    .filter(
+      (share) =>
+        !isExpired(share) &&
+        belongsTo(share, workspaceId) &&
+        (!type || share.type === type) &&
+        (!target || share.target === target),
+    )
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export const createShare = async (workspaceId, input) => {
+  const now = Date.now()
+  const share = {
+    id: crypto.randomBytes(18).toString('base64url'),
+    workspaceId,
+    type: input.type,
+    target: input.target,
+    createdAt: now,
+    expiresAt: now + Math.round(input.expiresInDays * DAY_MS),
+  }
+  return mutateShares((shares) => {
+    shares.push(share)
+    return { value: share }
+  })
+}
+
+export const revokeShare = async (workspaceId, shareId) =>
+  mutateShares((shares) => {
+    const index = shares.findIndex((share) => share.id === shareId && belongsTo(share, workspaceId))
+    if (index === -1) return { changed: false, value: false }
+    shares.splice(index, 1)
+    return { value: true }
+  })
+
+export const removeTaskShares = async (workspaceId, taskId) =>
+  mutateShares((shares) => {
+    const remaining = shares.filter(
+      (share) => !(belongsTo(share, workspaceId) && share.type === 'task' && share.target === taskId),
+    )
+    if (remaining.length === shares.length) return { changed: false }
+    shares.splice(0, shares.length, ...remaining)
+    return {}
+  })
+
+export const findActiveShare = async (shareId) => {
+  if (!shareId) return null
+  const shares = await loadBackendShares()
+  const share = shares.find((item) => item.id === shareId)
+  return share && !isExpired(share) ? share : null
+}
@@ -0,0 +1,255 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { backendSqlitePath } from './config.mjs'
+import { collectImageKeysFromTask, getCollectionImageKey } from './imageRefs.mjs'
+import { assertValidTaskId } from './taskId.mjs'
+
+// SQLite 存储：配置、任务与收纳盒保存在同一个数据库文件里（需要安装 better-sqlite3）。
+// 写入任务与收纳盒时同步维护 image_refs，图片清理只需一次查询；
+// 收纳盒按条目增量更新，不再整体重写。
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS workspace_state (
+  workspace_id TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tasks (
+  workspace_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  data TEXT NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (workspace_id, task_id)
+);
+CREATE TABLE IF NOT EXISTS collection_items (
+  workspace_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (workspace_id, item_id)
+);
+CREATE TABLE IF NOT EXISTS image_refs (
+  workspace_id TEXT NOT NULL,
+  owner TEXT NOT NULL,
+  image_key TEXT NOT NULL,
+  PRIMARY KEY (workspace_id, owner, image_key)
+);
+CREATE INDEX IF NOT EXISTS image_refs_by_key ON image_refs (workspace_id, image_key);
+CREATE TABLE IF NOT EXISTS image_index (
+  workspace_id TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+`
+
+// 图片索引跟随图片移动，由 imageIndex 处理，不在这里一起迁移
+const WORKSPACE_TABLES = ['workspace_state', 'tasks', 'collection_items', 'image_refs']
+
+let databaseLoader = null
+
+const createWorkspaceConflictError = (workspaceId) => {
+  const error = new Error(`SQLite 中已存在工作区 ${workspaceId} 的数据，请先手动处理`)
+  error.code = 'WORKSPACE_CONFLICT'
+  return error
+}
+
+const taskOwner = (taskId) => `task:${taskId}`
+const collectionOwner = (itemId) => `collection:${itemId}`
+
+const prepareStatements = (db) => ({
+  readState: db.prepare('SELECT data FROM workspace_state WHERE workspace_id = ?'),
+  writeState: db.prepare(
+    `INSERT INTO workspace_state (workspace_id, data, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (workspace_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+  ),
+  listTaskIds: db.prepare('SELECT task_id FROM tasks WHERE workspace_id = ? ORDER BY task_id'),
+  readTask: db.prepare('SELECT data FROM tasks WHERE workspace_id = ? AND task_id = ?'),
+  writeTask: db.prepare(
+    `INSERT INTO tasks (workspace_id, task_id, data, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT (workspace_id, task_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+  ),
+  deleteTask: db.prepare('DELETE FROM tasks WHERE workspace_id = ? AND task_id = ?'),
+  readCollection: db.prepare(
+    'SELECT item_id, position, data FROM collection_items WHERE workspace_id = ? ORDER BY position',
+  ),
+  writeCollectionItem: db.prepare(
+    `INSERT INTO collection_items (workspace_id, item_id, position, data) VALUES (?, ?, ?, ?)
+     ON CONFLICT (workspace_id, item_id) DO UPDATE SET position = excluded.position, data = excluded.data`,
+  ),
+  deleteCollectionItem: db.prepare('DELETE FROM collection_items WHERE workspace_id = ? AND item_id = ?'),
+  deleteRefs: db.prepare('DELETE FROM image_refs WHERE workspace_id = ? AND owner = ?'),
+  insertRef: db.prepare(
+    'INSERT OR IGNORE INTO image_refs (workspace_id, owner, image_key) VALUES (?, ?, ?)',
+  ),
+  listRefKeys: db.prepare('SELECT DISTINCT image_key FROM image_refs WHERE workspace_id = ?'),
+  readImageIndex: db.prepare('SELECT data FROM image_index WHERE workspace_id = ?'),
+  writeImageIndex: db.prepare(
+    `INSERT INTO image_index (workspace_id, data, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (workspace_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+  ),
+  deleteImageIndex: db.prepare('DELETE FROM image_index WHERE workspace_id = ?'),
+  listWorkspaceIds: db.prepare(
+    `SELECT workspace_id FROM workspace_state
+     UNION SELECT workspace_id FROM tasks
+     UNION SELECT workspace_id FROM collection_items`,
+  ),
+})
+
+const openDatabase = async () => {
+  let Database
+  try {
+    Database = (await import('better-sqlite3')).default
+  } catch (err) {
+    const error = new Error('BACKEND_STORAGE=sqlite 需要安装 better-sqlite3：npm install better-sqlite3')
+    error.cause = err
+    throw error
+  }
+  fs.mkdirSync(path.dirname(backendSqlitePath), { recursive: true })
+  const db = new Database(backendSqlitePath)
+  db.pragma('journal_mode = WAL')
+  db.pragma('busy_timeout = 5000')
+  db.exec(SCHEMA)
+  const statements = prepareStatements(db)
+
+  const replaceRefs = (workspaceId, owner, keys) => {
+    statements.deleteRefs.run(workspaceId, owner)
+    keys.forEach((key) => statements.insertRef.run(workspaceId, owner, key))
+  }
+
+  return {
+    statements,
+    writeTask: db.transaction((workspaceId, taskId, data) => {
+      statements.writeTask.run(workspaceId, taskId, JSON.stringify(data), Date.now())
+      replaceRefs(workspaceId, taskOwner(taskId), collectImageKeysFromTask(data))
+    }),
+    deleteTask: db.transaction((workspaceId, taskId) => {
+      statements.deleteTask.run(workspaceId, taskId)
+      statements.deleteRefs.run(workspaceId, taskOwner(taskId))
+    }),
+    // 只写入内容或位置有变化的条目，删除不再存在的条目
+    writeCollection: db.transaction((workspaceId, items) => {
+      const existing = new Map(
+        statements.readCollection.all(workspaceId).map((row) => [row.item_id, row]),
+      )
+      items.forEach((item, position) => {
+        const data = JSON.stringify(item)
+        const current = existing.get(item.id)
+        existing.delete(item.id)
+        if (current && current.data === data && current.position === position) return
+        statements.writeCollectionItem.run(workspaceId, item.id, position, data)
+        const key = getCollectionImageKey(item)
+        replaceRefs(workspaceId, collectionOwner(item.id), key ? [key] : [])
+      })
+      existing.forEach((_row, itemId) => {
+        statements.deleteCollectionItem.run(workspaceId, itemId)
+        statements.deleteRefs.run(workspaceId, collectionOwner(itemId))
+      })
+    }),
+    moveWorkspace: db.transaction((fromWorkspaceId, toWorkspaceId) => {
+      const hasRows = (workspaceId) =>
+        WORKSPACE_TABLES.some((table) =>
+          db.prepare(`SELECT 1 FROM ${table} WHERE workspace_id = ? LIMIT 1`).get(workspaceId),
+        )
+      if (!hasRows(fromWorkspaceId)) return 0
+      if (hasRows(toWorkspaceId)) throw createWorkspaceConflictError(toWorkspaceId)
+      return WORKSPACE_TABLES.reduce(
+        (total, table) =>
+          total +
+          db.prepare(`UPDATE ${table} SET workspace_id = ? WHERE workspace_id = ?`)
+            .run(toWorkspaceId, fromWorkspaceId).changes,
+        0,
+      )
+    }),
+  }
+}
+
+const getDatabase = () => {
+  if (!databaseLoader) {
+    databaseLoader = openDatabase()
+  }
+  return databaseLoader
+}
+
+const parseRow = (row, fallback) => (row ? JSON.parse(row.data) : fallback)
+
+export const sqliteWorkspaceStore = {
+  name: 'sqlite',
+
+  open: async () => {
+    await getDatabase()
+  },
+
+  readState: async (workspaceId) => {
+    const { statements } = await getDatabase()
+    return parseRow(statements.readState.get(workspaceId), null)
+  },
+
+  writeState: async (workspaceId, data) => {
+    const { statements } = await getDatabase()
+    statements.writeState.run(workspaceId, JSON.stringify(data), Date.now())
+  },
+
+  readCollection: async (workspaceId) => {
+    const { statements } = await getDatabase()
+    return statements.readCollection.all(workspaceId).map((row) => JSON.parse(row.data))
+  },
+
+  writeCollection: async (workspaceId, items) => {
+    const database = await getDatabase()
+    database.writeCollection(workspaceId, items)
+  },
+
+  readImageIndex: async (workspaceId) => {
+    const { statements } = await getDatabase()
+    return parseRow(statements.readImageIndex.get(workspaceId), null)
+  },
+
+  writeImageIndex: async (workspaceId, data) => {
+    const { statements } = await getDatabase()
+    statements.writeImageIndex.run(workspaceId, JSON.stringify(data), Date.now())
+  },
+
+  deleteImageIndex: async (workspaceId) => {
+    const { statements } = await getDatabase()
+    statements.deleteImageIndex.run(workspaceId)
+  },
+
+  listTaskIds: async (workspaceId) => {
+    const { statements } = await getDatabase()
+    return statements.listTaskIds.all(workspaceId).map((row) => row.task_id)
+  },
+
+  readTask: async (workspaceId, taskId) => {
+    assertValidTaskId(taskId)
+    const { statements } = await getDatabase()
+    return parseRow(statements.readTask.get(workspaceId, taskId), null)
+  },
+
+  writeTask: async (workspaceId, taskId, data) => {
+    assertValidTaskId(taskId)
+    const database = await getDatabase()
+    database.writeTask(workspaceId, taskId, data)
+  },
+
+  deleteTask: async (workspaceId, taskId) => {
+    assertValidTaskId(taskId)
+    const database = await getDatabase()
+    database.deleteTask(workspaceId, taskId)
+  },
+
+  listWorkspaceIds: async () => {
+    const { statements } = await getDatabase()
+    return statements.listWorkspaceIds.all().map((row) => row.workspace_id)
+  },
+
+  listReferencedImageKeys: async (workspaceId) => {
+    const { statements } = await getDatabase()
+    return new Set(statements.listRefKeys.all(workspaceId).map((row) => row.image_key))
+  },
+
+  moveWorkspace: async (fromWorkspaceId, toWorkspaceId) => {
+    const database = await getDatabase()
+    const changes = database.moveWorkspace(fromWorkspaceId, toWorkspaceId)
+    return changes > 0 ? [`${backendSqlitePath}（配置、任务与收纳盒）`] : []
+  },
+}
@@ -1,24 +1,50 @@
-const sseClients = new Set()
+const sseClients = new Map()
 
 export const sendSseEvent = (res, event, data) => {
   res.write(`event: ${event}\n`)
   res.write(`data: ${JSON.stringify(data)}\n\n`)
 }
 
-export const addSseClient = (res) => {
-  sseClients.add(res)
+export const addSseClient = (res, { sessionId = '', workspaceId = '' } = {}) => {
+  sseClients.set(res, { sessionId, workspaceId })
 }
 
 export const removeSseClient = (res) => {
   sseClients.delete(res)
 }
 
-export const broadcastSseEvent = (event, data) => {
-  for (const res of sseClients) {
+// 会话被撤销或登出时断开对应的事件流，避免旧连接继续收到数据
+export const closeSessionSseClients = (sessionId) => {
+  for (const [res, client] of sseClients) {
+    if (client.sessionId !== sessionId) continue
+    sseClients.delete(res)
     try {
-      sendSseEvent(res, event, data)
+      res.end()
     } catch (_err) {
-      sseClients.delete(res)
+      // 连接已经断开
     }
   }
 }
+
+const sendToClient = (res, event, data) => {
+  try {
+    sendSseEvent(res, event, data)
+  } catch (_err) {
+    sseClients.delete(res)
+  }
+}
+
+// 不传 workspaceId 时广播给所有连接（如全局队列），否则只发给该工作区的连接
+export const broadcastSseEvent = (event, data, workspaceId) => {
+  for (const [res, client] of sseClients) {
+    if (workspaceId !== undefined && client.workspaceId !== workspaceId) continue
+    sendToClient(res, event, data)
+  }
+}
+
+// 按连接所属工作区分别生成事件内容
+export const broadcastWorkspaceSseEvent = (event, buildData) => {
+  for (const [res, client] of sseClients) {
+    sendToClient(res, event, buildData(client.workspaceId))
+  }
+}
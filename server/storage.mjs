@@ -1,103 +1,87 @@
-import crypto from 'node:crypto'
 import fs from 'node:fs'
-import path from 'node:path'
 import {
-  backendCollectionPath,
-  backendStatePath,
-  backendTasksDir,
+  backendSchedulesPath,
+  backendSessionsPath,
+  backendSharesPath,
+  backendSqlitePath,
+  backendStorage,
+  backendUsersPath,
   DEFAULT_BACKEND_CONFIG,
   DEFAULT_CONCURRENCY,
   DEFAULT_GLOBAL_STATS,
+  DEFAULT_IMAGES_PER_REQUEST,
   DEFAULT_TASK_STATS,
   MAX_CONCURRENCY,
+  MAX_IMAGES_PER_REQUEST,
   MIN_CONCURRENCY,
+  MIN_IMAGES_PER_REQUEST,
+  getWorkspacePaths,
   pickFormatConfig,
 } from './config.mjs'
-import { broadcastSseEvent } from './sse.mjs'
-
-const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
-
-const readJsonFile = async (filePath, fallback) => {
-  try {
-    const raw = await fs.promises.readFile(filePath, 'utf-8')
-    if (!raw.trim()) return fallback
-    return JSON.parse(raw)
-  } catch (err) {
-    if (err && err.code === 'ENOENT') return fallback
-    if (err && err.name === 'SyntaxError') {
-      console.warn(`Invalid JSON file, fallback to defaults: ${filePath}`, err)
-      return fallback
-    }
-    throw err
-  }
+import { normalizeRetryPolicy } from '../shared/retryPolicy.mjs'
+import { normalizeProviderPools, normalizeProviderProfiles } from '../shared/providerProfiles.mjs'
+import { normalizePriceTable } from '../shared/usageCost.mjs'
+import { normalizeTaskOverrides } from '../shared/taskOverrides.mjs'
+import { broadcastSseEvent, broadcastWorkspaceSseEvent } from './sse.mjs'
+import {
+  collectStateSecrets,
+  decryptStateSecrets,
+  encryptStateSecrets,
+  isEncryptedSecret,
+  redactStateSecrets,
+} from './secrets.mjs'
+import { readJsonFile, writeJsonFileAtomic } from './jsonFile.mjs'
+import { collectImageKeysFromCollection, collectImageKeysFromTask } from './imageRefs.mjs'
+import { jsonWorkspaceStore } from './jsonWorkspaceStore.mjs'
+import { sqliteWorkspaceStore } from './sqliteWorkspaceStore.mjs'
+
+// 工作区数据（配置、任务、收纳盒）通过 BACKEND_STORAGE 选择的存储读写；
+// 定时计划、会话、分享与账号是全局数据，始终保存为 server-data 下的 JSON 文件
+const WORKSPACE_STORES = { json: jsonWorkspaceStore, sqlite: sqliteWorkspaceStore }
+
+const workspaceStore = WORKSPACE_STORES[backendStorage]
+if (!workspaceStore) {
+  throw new Error(`未知的 BACKEND_STORAGE: ${backendStorage}，可选 json 或 sqlite`)
 }
 
-const writeJsonFileAtomic = async (filePath, data) => {
-  const dir = path.dirname(filePath)
-  const baseName = path.basename(filePath)
-  const payload = JSON.stringify(data, null, 2)
-  await fs.promises.mkdir(dir, { recursive: true })
+// 同一份数据的读改写按提交顺序串行执行，并行的子任务更新统计或切换状态时不会互相覆盖。
+// 锁只在本进程内生效；持有锁时不能再等待同一个键，否则会互相等待
+const storageLocks = new Map()
 
-  let tempPath = ''
-  for (let attempt = 0; attempt < 3; attempt += 1) {
-    const nonce = crypto.randomUUID()
-    tempPath = path.join(
-      dir,
-      `.${baseName}.${process.pid}.${Date.now()}.${nonce}.tmp`,
-    )
-    try {
-      await fs.promises.writeFile(tempPath, payload, { encoding: 'utf-8', flag: 'wx' })
-      break
-    } catch (err) {
-      if (err && err.code === 'EEXIST' && attempt < 2) continue
-      throw err
-    }
-  }
+const withStorageLock = (key, task) => {
+  const previous = storageLocks.get(key) || Promise.resolve()
+  const run = previous.then(task)
+  const tail = run.catch(() => undefined)
+  storageLocks.set(key, tail)
+  tail.then(() => {
+    if (storageLocks.get(key) === tail) storageLocks.delete(key)
+  })
+  return run
+}
+
+const stateLockKey = (workspaceId) => `state:${workspaceId}`
+const taskLockKey = (workspaceId, taskId) => `task:${workspaceId}:${taskId}`
+const collectionLockKey = (workspaceId) => `collection:${workspaceId}`
 
-  try {
-    await fs.promises.rename(tempPath, filePath)
-  } catch (err) {
-    if (err && err.code === 'ENOENT') {
-      await fs.promises.mkdir(dir, { recursive: true })
-      try {
-        await fs.promises.rename(tempPath, filePath)
-        return
-      } catch (retryErr) {
-        if (!retryErr || retryErr.code !== 'ENOENT') {
-          throw retryErr
-        }
-      }
-      await fs.promises.writeFile(filePath, payload, { encoding: 'utf-8' })
-      return
-    }
-    if (err && ['EPERM', 'EACCES', 'EBUSY'].includes(err.code)) {
-      for (let attempt = 0; attempt < 3; attempt += 1) {
-        await sleep(30 * (attempt + 1))
-        try {
-          await fs.promises.rename(tempPath, filePath)
-          return
-        } catch (retryErr) {
-          if (!retryErr || !['EPERM', 'EACCES', 'EBUSY'].includes(retryErr.code)) {
-            throw retryErr
-          }
-        }
-      }
-      await fs.promises.writeFile(filePath, payload, { encoding: 'utf-8' })
-      return
-    }
-    throw err
-  } finally {
-    if (tempPath) {
-      await fs.promises.unlink(tempPath).catch(() => undefined)
-    }
+// 启动时先打开存储，SQLite 依赖缺失时直接报错退出，不会悄悄回落到 JSON
+export const initBackendStorage = async () => {
+  if (!workspaceStore.open) return
+  await workspaceStore.open()
+  const { statePath, tasksDir } = getWorkspacePaths('')
+  const hasStoredData = (await workspaceStore.listWorkspaceIds()).length > 0
+  if (!hasStoredData && (fs.existsSync(statePath) || fs.existsSync(tasksDir))) {
+    console.warn(
+      `[server] ${backendSqlitePath} 中还没有数据，但存在 JSON 数据，需要迁移时先停止服务再运行 npm run migrate-storage`,
+    )
   }
 }
 
 const coerceString = (value) => (typeof value === 'string' ? value : '')
 
+// 去掉旧版的会话令牌与签名地址参数，只保存不带凭据的图片路径
 const stripBackendTokenFromUrl = (value = '') => {
   if (!value.includes('/api/backend/image/')) return value
-  return value.replace(/[?&]token=[^&]+/g, '').replace(/[?&]$/, '')
+  return value.split('?')[0]
 }
 
 const sanitizeCollectionItem = (value) => {
@@ -145,18 +129,29 @@ export const clampNumber = (value, min, max, fallback) => {
 export const normalizeConcurrency = (value, fallback = DEFAULT_CONCURRENCY) =>
   clampNumber(value, MIN_CONCURRENCY, MAX_CONCURRENCY, fallback)
 
+export const normalizeImagesPerRequest = (value, fallback = DEFAULT_IMAGES_PER_REQUEST) => {
+  const clamped = clampNumber(value, MIN_IMAGES_PER_REQUEST, MAX_IMAGES_PER_REQUEST, fallback)
+  return Math.floor(clamped)
+}
+
+export const normalizeProviderSelection = (value, fallback = '') =>
+  typeof value === 'string' ? value : fallback
+
 export const createDefaultTaskState = () => ({
   version: 1,
   prompt: '',
   concurrency: DEFAULT_CONCURRENCY,
+  imagesPerRequest: DEFAULT_IMAGES_PER_REQUEST,
+  providerSelection: '',
+  overrides: {},
   enableSound: true,
   results: [],
   uploads: [],
   stats: { ...DEFAULT_TASK_STATS },
 })
 
-export const loadBackendState = async () => {
-  const data = await readJsonFile(backendStatePath, null)
+export const loadBackendState = async (workspaceId) => {
+  const data = decryptStateSecrets(await workspaceStore.readState(workspaceId))
   const config = { ...DEFAULT_BACKEND_CONFIG, ...(data?.config || {}) }
   const rawFormatMap = data?.configByFormat
   const configByFormat =
@@ -168,6 +163,10 @@ export const loadBackendState = async () => {
       ? config.apiFormat
       : 'openai'
   config.apiFormat = apiFormat
+  config.retryPolicy = normalizeRetryPolicy(config.retryPolicy)
+  config.providerProfiles = normalizeProviderProfiles(config.providerProfiles)
+  config.providerPools = normalizeProviderPools(config.providerPools)
+  config.priceTable = normalizePriceTable(config.priceTable)
   if (!configByFormat[apiFormat]) {
     configByFormat[apiFormat] = pickFormatConfig(config)
   }
@@ -179,38 +178,175 @@ export const loadBackendState = async () => {
   }
 }
 
-export const saveBackendState = async (state) => {
-  await writeJsonFileAtomic(backendStatePath, state)
-  broadcastSseEvent('state', state)
+const writeBackendState = async (workspaceId, state) => {
+  await workspaceStore.writeState(workspaceId, encryptStateSecrets(state))
+  broadcastSseEvent('state', redactStateSecrets(state), workspaceId)
 }
 
-export const loadBackendCollection = async () => {
-  const data = await readJsonFile(backendCollectionPath, [])
+export const saveBackendState = (workspaceId, state) =>
+  withStorageLock(stateLockKey(workspaceId), () => writeBackendState(workspaceId, state))
+
+// 在锁内读取最新状态交给 mutator，返回新状态则保存并返回，返回空值时不写入并返回 null
+export const updateBackendState = (workspaceId, mutator) =>
+  withStorageLock(stateLockKey(workspaceId), async () => {
+    const next = await mutator(await loadBackendState(workspaceId))
+    if (!next) return null
+    await writeBackendState(workspaceId, next)
+    return next
+  })
+
+// 启动时把旧版本明文保存的密钥改写为密文，返回是否有改动
+export const encryptStoredStateSecrets = (workspaceId) =>
+  withStorageLock(stateLockKey(workspaceId), async () => {
+    const data = await workspaceStore.readState(workspaceId)
+    if (!data) return false
+    const hasPlaintext = collectStateSecrets(data).some((value) => !isEncryptedSecret(value))
+    if (!hasPlaintext) return false
+    await workspaceStore.writeState(workspaceId, encryptStateSecrets(data))
+    return true
+  })
+
+export const loadBackendCollection = async (workspaceId) => {
+  const data = await workspaceStore.readCollection(workspaceId)
   return normalizeCollectionPayload(data)
 }
 
-export const saveBackendCollection = async (items) => {
-  await writeJsonFileAtomic(backendCollectionPath, items)
-}
+export const saveBackendCollection = (workspaceId, items) =>
+  withStorageLock(collectionLockKey(workspaceId), () => workspaceStore.writeCollection(workspaceId, items))
 
-const getTaskFilePath = (taskId) => path.join(backendTasksDir, `${taskId}.json`)
+// 在锁内读取最新收藏交给 mutator，返回新列表则保存并返回，返回空值时不写入并返回 null
+export const updateBackendCollection = (workspaceId, mutator) =>
+  withStorageLock(collectionLockKey(workspaceId), async () => {
+    const next = await mutator(await loadBackendCollection(workspaceId))
+    if (!next) return null
+    await workspaceStore.writeCollection(workspaceId, next)
+    return next
+  })
 
-export const loadTaskState = async (taskId) => {
-  const data = await readJsonFile(getTaskFilePath(taskId), null)
+export const listTaskIds = (workspaceId) => workspaceStore.listTaskIds(workspaceId)
+
+// 启动恢复与图片清理需要遍历所有工作区；用户的图片目录总在磁盘上，因此同时合并目录列表
+export const listWorkspaceIds = async () => {
+  const ids = new Set(await jsonWorkspaceStore.listWorkspaceIds())
+  if (workspaceStore !== jsonWorkspaceStore) {
+    const storedIds = await workspaceStore.listWorkspaceIds()
+    storedIds.forEach((id) => ids.add(id))
+  }
+  return Array.from(ids)
+}
+
+export const loadTaskState = async (workspaceId, taskId) => {
+  const data = await workspaceStore.readTask(workspaceId, taskId)
   if (!data) return null
   return {
     ...createDefaultTaskState(),
     ...data,
     concurrency: normalizeConcurrency(data?.concurrency),
+    imagesPerRequest: normalizeImagesPerRequest(data?.imagesPerRequest),
+    providerSelection: normalizeProviderSelection(data?.providerSelection),
+    overrides: normalizeTaskOverrides(data?.overrides),
     stats: { ...DEFAULT_TASK_STATS, ...(data?.stats || {}) },
     results: Array.isArray(data?.results) ? data.results : [],
     uploads: Array.isArray(data?.uploads) ? data.uploads : [],
   }
 }
 
-export const saveTaskState = async (taskId, state) => {
-  await writeJsonFileAtomic(getTaskFilePath(taskId), state)
-  broadcastSseEvent('task', { taskId, state })
+const writeTaskState = async (workspaceId, taskId, state) => {
+  await workspaceStore.writeTask(workspaceId, taskId, state)
+  broadcastSseEvent('task', { taskId, state }, workspaceId)
+}
+
+export const saveTaskState = (workspaceId, taskId, state) =>
+  withStorageLock(taskLockKey(workspaceId, taskId), () => writeTaskState(workspaceId, taskId, state))
+
+// 任务不存在时 mutator 收到 null；返回新状态则保存并返回，返回空值时不写入并返回 null
+export const updateTaskState = (workspaceId, taskId, mutator) =>
+  withStorageLock(taskLockKey(workspaceId, taskId), async () => {
+    const next = await mutator(await loadTaskState(workspaceId, taskId))
+    if (!next) return null
+    await writeTaskState(workspaceId, taskId, next)
+    return next
+  })
+
+export const deleteTaskState = (workspaceId, taskId) =>
+  withStorageLock(taskLockKey(workspaceId, taskId), () => workspaceStore.deleteTask(workspaceId, taskId))
+
+// SQLite 存储维护了引用索引；JSON 存储只能逐个读取任务文件
+export const listReferencedImageKeys = async (workspaceId) => {
+  if (workspaceStore.listReferencedImageKeys) {
+    return workspaceStore.listReferencedImageKeys(workspaceId)
+  }
+  const keys = new Set()
+  for (const taskId of await listTaskIds(workspaceId)) {
+    const taskState = await loadTaskState(workspaceId, taskId)
+    if (!taskState) continue
+    collectImageKeysFromTask(taskState).forEach((key) => keys.add(key))
+  }
+  collectImageKeysFromCollection(await loadBackendCollection(workspaceId)).forEach((key) => keys.add(key))
+  return keys
+}
+
+// 图片索引与配置、任务一样通过工作区存储读写，不随图片存储固定写到本地磁盘
+export const loadBackendImageIndex = (workspaceId) => workspaceStore.readImageIndex(workspaceId)
+
+export const saveBackendImageIndex = (workspaceId, data) =>
+  workspaceStore.writeImageIndex(workspaceId, data)
+
+export const deleteBackendImageIndex = (workspaceId) => workspaceStore.deleteImageIndex(workspaceId)
+
+// 把配置、任务与收纳盒移到另一个工作区，目标已有数据时抛出 WORKSPACE_CONFLICT
+export const moveWorkspaceData = (fromWorkspaceId, toWorkspaceId) =>
+  workspaceStore.moveWorkspace(fromWorkspaceId, toWorkspaceId)
+
+export const loadBackendSchedules = async () => {
+  const data = await readJsonFile(backendSchedulesPath, [])
+  return Array.isArray(data) ? data.filter((item) => item && typeof item === 'object') : []
+}
+
+export const saveBackendSchedules = async (schedules) => {
+  await writeJsonFileAtomic(backendSchedulesPath, schedules)
+  broadcastWorkspaceSseEvent('schedules', (workspaceId) =>
+    schedules.filter((schedule) => (schedule.workspaceId || '') === workspaceId),
+  )
+}
+
+export const loadBackendSessions = async () => {
+  const data = await readJsonFile(backendSessionsPath, [])
+  return Array.isArray(data)
+    ? data.filter((item) => item && typeof item === 'object' && typeof item.id === 'string')
+    : []
+}
+
+export const saveBackendSessions = async (sessions) => {
+  await writeJsonFileAtomic(backendSessionsPath, sessions)
+}
+
+export const loadBackendShares = async () => {
+  const data = await readJsonFile(backendSharesPath, [])
+  return Array.isArray(data)
+    ? data.filter((item) => item && typeof item === 'object' && typeof item.id === 'string')
+    : []
+}
+
+export const saveBackendShares = async (shares) => {
+  await writeJsonFileAtomic(backendSharesPath, shares)
+}
+
+export const loadBackendUsers = async () => {
+  const data = await readJsonFile(backendUsersPath, [])
+  return Array.isArray(data)
+    ? data.filter(
+        (item) =>
+          item &&
+          typeof item === 'object' &&
+          typeof item.id === 'string' &&
+          typeof item.username === 'string',
+      )
+    : []
+}
+
+export const saveBackendUsers = async (users) => {
+  await writeJsonFileAtomic(backendUsersPath, users)
 }
 
 export const normalizeCollectionPayloadForSave = normalizeCollectionPayload
@@ -0,0 +1,15 @@
+// 任务 ID 会拼进 tasks/<任务 ID>.json 与锁、引用等键，只接受前端生成的 UUID 这类简单字符，
+// 防止 ../ 之类的 ID 越出工作区读写其他文件
+
+const TASK_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+export const isValidTaskId = (taskId) => typeof taskId === 'string' && TASK_ID_PATTERN.test(taskId)
+
+export const assertValidTaskId = (taskId) => {
+  if (!isValidTaskId(taskId)) {
+    const error = new Error('无效的任务 ID')
+    error.code = 'INVALID_TASK_ID'
+    throw error
+  }
+  return taskId
+}
@@ -0,0 +1,21 @@
+import crypto from 'node:crypto'
+
+// 新一轮生成的占位结果，入队后由各子任务填充
+export const createLoadingResults = (count, startTime = Date.now()) =>
+  Array.from({ length: count }).map(() => ({
+    id: crypto.randomUUID(),
+    status: 'loading',
+    retryCount: 0,
+    startTime,
+    autoRetry: true,
+    savedLocal: false,
+  }))
+
+// 手动生成替换之前的结果；定时运行追加在已有结果之后，保留之前几轮的图片
+export const mergeGenerationResults = (previous = [], added = [], { append = false } = {}) =>
+  append ? [...previous, ...added] : added
+
+// 上一轮还有子任务在生成时，定时运行不再追加新的一轮
+export const isTaskGenerating = (taskState) =>
+  Array.isArray(taskState?.results) &&
+  taskState.results.some((result) => result.status === 'loading')
@@ -0,0 +1,162 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import { promisify } from 'node:util'
+import { backendUsersPath } from './config.mjs'
+import { listBackendImageKeys, moveBackendImages } from './imageStore.mjs'
+import {
+  loadBackendSchedules,
+  loadBackendUsers,
+  moveWorkspaceData,
+  saveBackendSchedules,
+  saveBackendUsers,
+} from './storage.mjs'
+
+// 多用户账号：由管理员通过 `npm run users` 维护 server-data/users.json。
+// 文件里至少有一个用户时进入多用户模式，登录需要用户名，BACKEND_PASSWORD 不再生效。
+
+const scrypt = promisify(crypto.scrypt)
+const SCRYPT_KEY_LENGTH = 64
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{1,32}$/
+
+let usersCache = null
+let dummyPasswordHash = null
+let usersCacheMtime = 0
+
+const createUserError = (message) => {
+  const error = new Error(message)
+  error.code = 'INVALID_USER'
+  return error
+}
+
+export const hashPassword = async (password) => {
+  const salt = crypto.randomBytes(16)
+  const derived = await scrypt(String(password), salt, SCRYPT_KEY_LENGTH)
+  return `scrypt$${salt.toString('base64url')}$${derived.toString('base64url')}`
+}
+
+export const verifyPassword = async (password, passwordHash) => {
+  const [scheme, saltText, hashText] = String(passwordHash || '').split('$')
+  if (scheme !== 'scrypt' || !saltText || !hashText) return false
+  const expected = Buffer.from(hashText, 'base64url')
+  const derived = await scrypt(String(password), Buffer.from(saltText, 'base64url'), expected.length)
+  return derived.length === expected.length && crypto.timingSafeEqual(derived, expected)
+}
+
+// 鉴权每个请求都会用到，按文件修改时间缓存，管理员改完文件后自动生效
+export const listUsers = async () => {
+  let mtime = 0
+  try {
+    mtime = (await fs.promises.stat(backendUsersPath)).mtimeMs
+  } catch (err) {
+    if (!err || err.code !== 'ENOENT') throw err
+  }
+  if (!usersCache || mtime !== usersCacheMtime) {
+    usersCache = mtime ? await loadBackendUsers() : []
+    usersCacheMtime = mtime
+  }
+  return usersCache
+}
+
+export const isMultiUserMode = async () => (await listUsers()).length > 0
+
+export const findUserById = async (userId) =>
+  (await listUsers()).find((user) => user.id === userId) || null
+
+const findUserByName = (users, username) => {
+  const normalized = String(username || '').trim().toLowerCase()
+  return users.find((user) => user.username.toLowerCase() === normalized) || null
+}
+
+// 用户不存在时也跑一次 scrypt，避免通过响应时间判断用户名是否存在
+export const authenticateUser = async (username, password) => {
+  const user = findUserByName(await listUsers(), username)
+  if (!dummyPasswordHash) dummyPasswordHash = await hashPassword(crypto.randomUUID())
+  const matched = await verifyPassword(password || '', user ? user.passwordHash : dummyPasswordHash)
+  return user && password && matched ? user : null
+}
+
+export const toPublicUser = (user) => (user ? { id: user.id, username: user.username } : null)
+
+export const createUser = async (username, password) => {
+  const name = String(username || '').trim()
+  if (!USERNAME_PATTERN.test(name)) {
+    throw createUserError('用户名只能包含字母、数字、下划线、点和短横线，最长 32 位')
+  }
+  if (!password) {
+    throw createUserError('密码不能为空')
+  }
+  const users = [...(await listUsers())]
+  if (findUserByName(users, name)) {
+    throw createUserError(`用户 ${name} 已存在`)
+  }
+  const user = {
+    id: crypto.randomUUID(),
+    username: name,
+    passwordHash: await hashPassword(password),
+    createdAt: Date.now(),
+  }
+  users.push(user)
+  await saveBackendUsers(users)
+  usersCache = null
+  return user
+}
+
+export const setUserPassword = async (username, password) => {
+  if (!password) {
+    throw createUserError('密码不能为空')
+  }
+  const users = [...(await listUsers())]
+  const user = findUserByName(users, username)
+  if (!user) {
+    throw createUserError(`用户 ${username} 不存在`)
+  }
+  user.passwordHash = await hashPassword(password)
+  await saveBackendUsers(users)
+  usersCache = null
+  return user
+}
+
+// 只删除账号，工作区目录保留，需要时由管理员手动清理
+export const removeUser = async (username) => {
+  const users = [...(await listUsers())]
+  const user = findUserByName(users, username)
+  if (!user) {
+    throw createUserError(`用户 ${username} 不存在`)
+  }
+  await saveBackendUsers(users.filter((item) => item.id !== user.id))
+  usersCache = null
+  return user
+}
+
+// 从单密码模式迁移：把根目录下的配置、任务、收藏与图片移动到指定用户的工作区
+export const adoptLegacyWorkspace = async (username) => {
+  const user = findUserByName(await listUsers(), username)
+  if (!user) {
+    throw createUserError(`用户 ${username} 不存在`)
+  }
+  // 图片冲突要在移动配置与任务之前发现，避免只迁移了一半
+  const [legacyImages, targetImages] = await Promise.all([
+    listBackendImageKeys(''),
+    listBackendImageKeys(user.id),
+  ])
+  if (legacyImages.length > 0 && targetImages.length > 0) {
+    throw createUserError(`用户 ${username} 的工作区已有图片，请先手动处理`)
+  }
+  let moved
+  try {
+    moved = await moveWorkspaceData('', user.id)
+    moved.push(...(await moveBackendImages('', user.id)))
+  } catch (err) {
+    if (err?.code === 'WORKSPACE_CONFLICT') throw createUserError(err.message)
+    throw err
+  }
+  const schedules = await loadBackendSchedules()
+  if (schedules.some((schedule) => !schedule.workspaceId)) {
+    await saveBackendSchedules(
+      schedules.map((schedule) =>
+        schedule.workspaceId ? schedule : { ...schedule, workspaceId: user.id },
+      ),
+    )
+  }
+  return { user, moved }
+}
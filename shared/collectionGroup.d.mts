@@ -0,0 +1,4 @@
+export declare const EMPTY_PROMPT_GROUP_KEY: string;
+export declare const normalizeCollectionPrompt: (prompt: unknown) => string;
+export declare const buildCollectionGroupKey: (prompt: unknown) => string;
+export declare const isUploadCollectionKey: (key: unknown) => key is string;
@@ -0,0 +1,16 @@
+// 收纳盒按提示词分组：空白折叠、忽略大小写后相同的提示词归为一组，
+// 前端展示分组与 server.mjs 解析收纳盒分享范围共用同一套分组键。
+
+export const EMPTY_PROMPT_GROUP_KEY = '__empty__'
+
+export const normalizeCollectionPrompt = (prompt) =>
+  String(prompt || '').trim().replace(/\s+/g, ' ')
+
+export const buildCollectionGroupKey = (prompt) => {
+  const normalized = normalizeCollectionPrompt(prompt)
+  return normalized ? normalized.toLowerCase() : EMPTY_PROMPT_GROUP_KEY
+}
+
+// 参考图以 collection:upload: 开头，不属于生成结果
+export const isUploadCollectionKey = (key) =>
+  typeof key === 'string' && key.startsWith('collection:upload:')
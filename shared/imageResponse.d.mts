@@ -0,0 +1,31 @@
+export interface ResponseUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  thoughtsTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ParsedImageResponse {
+  images: string[];
+  text: string[];
+  thoughts: string[];
+  finishReason: string | null;
+  usage: ResponseUsage | null;
+}
+
+export interface StreamTextMeta {
+  finishReason?: string | null;
+  usage?: Record<string, unknown> | null;
+}
+
+export declare const extractImagesFromText: (text?: string) => string[];
+export declare const parseMarkdownImage: (text?: string) => string | null;
+export declare const parseImageResponse: (data: unknown) => ParsedImageResponse;
+export declare const parseStreamText: (
+  content?: string,
+  reasoning?: string,
+  meta?: StreamTextMeta,
+) => ParsedImageResponse;
+export declare const mergeGeminiStreamChunks: (chunks?: unknown[]) => any;
+export declare const mergeOpenAiStreamChunks: (chunks?: unknown[]) => any;
+export declare const resolveImageFromResponse: (data: unknown) => string | null;
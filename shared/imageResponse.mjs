@@ -0,0 +1,316 @@
+// 前端与 server.mjs 共用的响应解析：兼容 OpenAI / Gemini / Vertex 以及常见代理的返回结构。
+
+const MIN_BASE64_LENGTH = 256
+const BASE64_CONTENT_REGEX = /^[A-Za-z0-9+/]+={0,2}$/
+const INLINE_IMAGE_DATA_REGEX =
+  /(?:data:|[a-z0-9.+-]+:)?image\/[a-z0-9.+-]+;base64,[A-Za-z0-9+/=\s]+/gi
+const MARKDOWN_IMAGE_REGEX = /!\[[\s\S]*?\]\(([\s\S]*?)\)/g
+
+const normalizeBase64Payload = (value) => {
+  const compact = value.replace(/\s+/g, '')
+  if (compact.length < MIN_BASE64_LENGTH) return null
+  if (!BASE64_CONTENT_REGEX.test(compact)) return null
+  return compact
+}
+
+const normalizeImageUrl = (value) => {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  if (/^https?:\/\//i.test(trimmed)) return trimmed
+  const imagePrefixMatch = trimmed.match(
+    /^(?:[a-z0-9.+-]+:)?(image\/[a-z0-9.+-]+;base64,)([\s\S]+)$/i,
+  )
+  if (imagePrefixMatch) {
+    const payload = normalizeBase64Payload(imagePrefixMatch[2])
+    if (!payload) return null
+    return `data:${imagePrefixMatch[1]}${payload}`
+  }
+  const base64Payload = normalizeBase64Payload(trimmed)
+  if (base64Payload) {
+    return `data:image/png;base64,${base64Payload}`
+  }
+  return null
+}
+
+export const extractImagesFromText = (text = '') => {
+  if (!text) return []
+  const images = []
+  for (const match of text.matchAll(MARKDOWN_IMAGE_REGEX)) {
+    const normalized = normalizeImageUrl(match[1])
+    if (normalized) images.push(normalized)
+  }
+  if (images.length > 0) return images
+  for (const match of text.matchAll(INLINE_IMAGE_DATA_REGEX)) {
+    const normalized = normalizeImageUrl(match[0])
+    if (normalized) images.push(normalized)
+  }
+  if (images.length > 0) return images
+  const normalized = normalizeImageUrl(text)
+  return normalized ? [normalized] : []
+}
+
+export const parseMarkdownImage = (text = '') => extractImagesFromText(text)[0] || null
+
+const createResult = () => ({
+  images: [],
+  text: [],
+  thoughts: [],
+  finishReason: null,
+  usage: null,
+})
+
+const pushImage = (result, value) => {
+  if (value && !result.images.includes(value)) {
+    result.images.push(value)
+  }
+}
+
+const pushText = (target, value) => {
+  if (typeof value === 'string' && value.trim()) {
+    target.push(value)
+  }
+}
+
+const collectTextImages = (result, text) => {
+  extractImagesFromText(text).forEach((image) => pushImage(result, image))
+}
+
+const collectGeminiPart = (result, part) => {
+  if (!part) return
+  const inlineData = part.inline_data || part.inlineData
+  const fileData = part.file_data || part.fileData
+  if (inlineData?.data) {
+    const mimeType = inlineData.mime_type || inlineData.mimeType || 'image/png'
+    const payload = normalizeBase64Payload(String(inlineData.data))
+    if (payload) {
+      pushImage(result, `data:${mimeType};base64,${payload}`)
+    }
+  }
+  if (fileData?.file_uri || fileData?.fileUri) {
+    pushImage(result, normalizeImageUrl(fileData.file_uri || fileData.fileUri))
+  }
+  if (typeof part.text === 'string') {
+    pushText(part.thought ? result.thoughts : result.text, part.text)
+    collectTextImages(result, part.text)
+  }
+}
+
+const collectGeminiCandidates = (result, candidates) => {
+  candidates.forEach((candidate) => {
+    const parts = candidate?.content?.parts
+    if (Array.isArray(parts)) {
+      parts.forEach((part) => collectGeminiPart(result, part))
+    }
+    const finishReason = candidate?.finishReason || candidate?.finish_reason
+    if (!result.finishReason && typeof finishReason === 'string') {
+      result.finishReason = finishReason
+    }
+  })
+}
+
+const collectDataArray = (result, items) => {
+  items.forEach((item) => {
+    if (!item) return
+    if (typeof item === 'string') {
+      pushImage(result, normalizeImageUrl(item))
+      return
+    }
+    if (item.url) {
+      pushImage(result, normalizeImageUrl(item.url))
+    } else if (item.b64_json) {
+      pushImage(result, normalizeImageUrl(item.b64_json))
+    }
+    pushText(result.text, item.revised_prompt)
+  })
+}
+
+const collectMessage = (result, message) => {
+  if (!message) return
+  if (Array.isArray(message.content)) {
+    message.content.forEach((part) => {
+      if (part?.type === 'image_url') {
+        const url = part?.image_url?.url || part?.image_url
+        if (url) pushImage(result, normalizeImageUrl(url))
+      }
+      if (part?.type === 'text' && typeof part.text === 'string') {
+        pushText(result.text, part.text)
+        collectTextImages(result, part.text)
+      }
+    })
+  }
+  if (typeof message.content === 'string') {
+    pushText(result.text, message.content)
+    collectTextImages(result, message.content)
+  }
+  if (Array.isArray(message.images)) {
+    message.images.forEach((image) => {
+      const url = image?.image_url?.url || image?.image_url || image?.url
+      if (url) pushImage(result, normalizeImageUrl(url))
+    })
+  }
+  if (typeof message.reasoning_content === 'string') {
+    pushText(result.thoughts, message.reasoning_content)
+    collectTextImages(result, message.reasoning_content)
+  }
+}
+
+const toTokenCount = (value) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+const normalizeUsage = (data) => {
+  const gemini = data?.usageMetadata || data?.usage_metadata
+  if (gemini && typeof gemini === 'object') {
+    return {
+      promptTokens: toTokenCount(gemini.promptTokenCount ?? gemini.prompt_token_count),
+      completionTokens: toTokenCount(
+        gemini.candidatesTokenCount ?? gemini.candidates_token_count,
+      ),
+      thoughtsTokens: toTokenCount(gemini.thoughtsTokenCount ?? gemini.thoughts_token_count),
+      totalTokens: toTokenCount(gemini.totalTokenCount ?? gemini.total_token_count),
+    }
+  }
+  // OpenAI 的 completion_tokens 已包含 reasoning_tokens，这里扣掉，与 Gemini 的 candidatesTokenCount 口径一致
+  const openai = data?.usage
+  if (openai && typeof openai === 'object') {
+    const completionTokens = toTokenCount(openai.completion_tokens ?? openai.output_tokens)
+    const thoughtsTokens = toTokenCount(
+      openai.completion_tokens_details?.reasoning_tokens ??
+        openai.output_tokens_details?.reasoning_tokens,
+    )
+    return {
+      promptTokens: toTokenCount(openai.prompt_tokens ?? openai.input_tokens),
+      completionTokens:
+        completionTokens !== undefined && thoughtsTokens !== undefined
+          ? Math.max(0, completionTokens - thoughtsTokens)
+          : completionTokens,
+      thoughtsTokens,
+      totalTokens: toTokenCount(openai.total_tokens),
+    }
+  }
+  return null
+}
+
+export const parseImageResponse = (data) => {
+  const result = createResult()
+  if (!data || typeof data !== 'object') {
+    if (typeof data === 'string') {
+      pushText(result.text, data)
+      collectTextImages(result, data)
+    }
+    return result
+  }
+  const resultUrl = data.resultUrl ?? data.result_url
+  if (typeof resultUrl === 'string') {
+    pushImage(result, normalizeImageUrl(resultUrl))
+  }
+  if (Array.isArray(data.candidates)) {
+    collectGeminiCandidates(result, data.candidates)
+  }
+  if (Array.isArray(data.data)) {
+    collectDataArray(result, data.data)
+  }
+  if (Array.isArray(data.choices)) {
+    data.choices.forEach((choice) => {
+      collectMessage(result, choice?.message)
+      if (!result.finishReason && typeof choice?.finish_reason === 'string') {
+        result.finishReason = choice.finish_reason
+      }
+    })
+  }
+  result.usage = normalizeUsage(data)
+  return result
+}
+
+// OpenAI 流式响应只拿到拼接后的文本，需要单独解析
+export const parseStreamText = (content = '', reasoning = '', meta = {}) => {
+  const result = createResult()
+  pushText(result.text, content)
+  pushText(result.thoughts, reasoning)
+  collectTextImages(result, content)
+  collectTextImages(result, reasoning)
+  result.finishReason = typeof meta.finishReason === 'string' ? meta.finishReason : null
+  result.usage = meta.usage ? normalizeUsage({ usage: meta.usage }) : null
+  return result
+}
+
+// 按 index 分组的累加器，index 缺失时按数组位置
+const getIndexedEntry = (entries, item, position, create) => {
+  const index = typeof item?.index === 'number' ? item.index : position
+  if (!entries.has(index)) entries.set(index, create(index))
+  return entries.get(index)
+}
+
+const sortByIndex = (entries) =>
+  Array.from(entries.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+
+// Gemini 流式响应的图片可能分散在多个分块里，这里把所有分块的 parts 按 candidate.index 合并成一个完整响应，
+// candidateCount 大于 1 时每个候选各自保留
+export const mergeGeminiStreamChunks = (chunks = []) => {
+  const valid = chunks.filter((chunk) => chunk && typeof chunk === 'object')
+  if (valid.length === 0) return null
+  const errorChunk = valid.find((chunk) => chunk.error)
+  if (errorChunk) return errorChunk
+  const candidates = new Map()
+  let usageMetadata
+  let promptFeedback
+  valid.forEach((chunk) => {
+    const chunkCandidates = Array.isArray(chunk.candidates) ? chunk.candidates : []
+    chunkCandidates.forEach((candidate, position) => {
+      const entry = getIndexedEntry(candidates, candidate, position, (index) => ({
+        index,
+        content: { role: 'model', parts: [] },
+        finishReason: undefined,
+      }))
+      const chunkParts = candidate?.content?.parts
+      if (Array.isArray(chunkParts)) entry.content.parts.push(...chunkParts)
+      if (candidate?.finishReason) entry.finishReason = candidate.finishReason
+    })
+    if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata
+    if (chunk.promptFeedback) promptFeedback = chunk.promptFeedback
+  })
+  const merged = {
+    candidates: candidates.size > 0
+      ? sortByIndex(candidates)
+      : [{ content: { role: 'model', parts: [] }, finishReason: undefined }],
+  }
+  if (usageMetadata) merged.usageMetadata = usageMetadata
+  if (promptFeedback) merged.promptFeedback = promptFeedback
+  return merged
+}
+
+// OpenAI 流式响应按 choice.index 拼接 delta，合并成非流式的 Chat Completions 结构，
+// n 大于 1 时每个 choice 各自带图
+export const mergeOpenAiStreamChunks = (chunks = []) => {
+  const valid = chunks.filter((chunk) => chunk && typeof chunk === 'object')
+  if (valid.length === 0) return null
+  const errorChunk = valid.find((chunk) => chunk.error)
+  if (errorChunk) return errorChunk
+  const choices = new Map()
+  let usage
+  valid.forEach((chunk) => {
+    const chunkChoices = Array.isArray(chunk.choices) ? chunk.choices : []
+    chunkChoices.forEach((choice, position) => {
+      const entry = getIndexedEntry(choices, choice, position, (index) => ({
+        index,
+        message: { role: 'assistant', content: '', reasoning_content: '', images: [] },
+        finish_reason: null,
+      }))
+      const delta = choice?.delta
+      if (typeof delta?.content === 'string') entry.message.content += delta.content
+      if (typeof delta?.reasoning_content === 'string') {
+        entry.message.reasoning_content += delta.reasoning_content
+      }
+      if (Array.isArray(delta?.images)) entry.message.images.push(...delta.images)
+      if (choice?.finish_reason) entry.finish_reason = choice.finish_reason
+    })
+    if (chunk.usage) usage = chunk.usage
+  })
+  const merged = { choices: sortByIndex(choices) }
+  if (usage) merged.usage = usage
+  return merged
+}
+
+export const resolveImageFromResponse = (data) => parseImageResponse(data).images[0] || null
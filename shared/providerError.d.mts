@@ -0,0 +1,27 @@
+import type { SubTaskErrorKind } from '../src/types/imageTask';
+
+export interface ProviderErrorDetail {
+  status?: number;
+  code?: string;
+  type?: string;
+  message?: string;
+  kind?: SubTaskErrorKind;
+}
+
+export type ProviderError = Error & {
+  status?: number;
+  code?: string;
+  errorKind?: SubTaskErrorKind;
+};
+
+export declare const PERMANENT_ERROR_KINDS: Set<SubTaskErrorKind>;
+
+export declare const classifyProviderError: (detail?: ProviderErrorDetail) => SubTaskErrorKind;
+export declare const createProviderError: (
+  message: string,
+  detail?: ProviderErrorDetail,
+) => ProviderError;
+export declare const resolveErrorKind: (err: any) => SubTaskErrorKind;
+export declare const isPermanentErrorKind: (kind?: SubTaskErrorKind) => boolean;
+export declare const extractProviderErrorDetail: (data: any) => ProviderErrorDetail;
+export declare const detectSafetyBlock: (data: any) => string | null;
@@ -0,0 +1,121 @@
+// 前端与 server.mjs 共用的供应商错误分类：决定失败后是否自动重试、是否暂停供应商。
+
+export const PERMANENT_ERROR_KINDS = new Set(['auth', 'invalid_request', 'safety', 'quota'])
+
+const SAFETY_CODES = new Set([
+  'content_policy_violation',
+  'content_filter',
+  'moderation_blocked',
+  'safety',
+  'image_safety',
+  'prohibited_content',
+])
+const QUOTA_CODES = new Set([
+  'insufficient_quota',
+  'billing_hard_limit_reached',
+  'billing_not_active',
+  'insufficient_balance',
+])
+const AUTH_CODES = new Set([
+  'invalid_api_key',
+  'unauthenticated',
+  'permission_denied',
+  'api_key_invalid',
+])
+const INVALID_REQUEST_CODES = new Set([
+  'invalid_argument',
+  'invalid_request_error',
+  'model_not_found',
+  'not_found',
+  'failed_precondition',
+])
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+])
+
+const SAFETY_MESSAGE_REGEX =
+  /content[ _-]?policy|safety (?:system|filter|block)|blocked due to safety|prohibited[ _]content|moderation|违反.*(?:政策|规定)|敏感内容|内容安全/i
+// 只用于没有明确状态码与错误码的响应（如代理返回的 200/402）。
+// 429 的正文常带 quota、billing 字样（Gemini 按分钟限流也是如此），不能据此判为额度用尽
+const QUOTA_MESSAGE_REGEX =
+  /insufficient[ _]quota|exceeded your current quota|余额不足|额度不足|quota has been exhausted/i
+
+export const classifyProviderError = ({ status, code, type, message } = {}) => {
+  const normalizedCode = String(code || '').toLowerCase()
+  const normalizedType = String(type || '').toLowerCase()
+  const text = String(message || '')
+  if (SAFETY_CODES.has(normalizedCode) || SAFETY_MESSAGE_REGEX.test(text)) return 'safety'
+  if (QUOTA_CODES.has(normalizedCode) || QUOTA_CODES.has(normalizedType)) return 'quota'
+  if (status === 429) return 'rate_limit'
+  if (QUOTA_MESSAGE_REGEX.test(text)) return 'quota'
+  if (status === 401 || status === 403 || AUTH_CODES.has(normalizedCode)) return 'auth'
+  if ([400, 404, 405, 413, 422].includes(status) || INVALID_REQUEST_CODES.has(normalizedCode)) {
+    return 'invalid_request'
+  }
+  if (typeof status === 'number' && status >= 500) return 'server'
+  return 'unknown'
+}
+
+export const createProviderError = (message, detail = {}) => {
+  const error = new Error(message || (detail.status ? `HTTP ${detail.status}` : '未知错误'))
+  error.status = detail.status
+  error.code = detail.code
+  error.errorKind = detail.kind || classifyProviderError({ ...detail, message })
+  return error
+}
+
+// 前端的 axios 错误带有 response，fetch 的网络错误是 TypeError，Node 的还会带上 cause.code
+export const resolveErrorKind = (err) => {
+  if (err?.errorKind) return err.errorKind
+  const responseStatus = err?.response?.status
+  if (typeof responseStatus === 'number') {
+    const detail = extractProviderErrorDetail(err.response.data)
+    return classifyProviderError({ ...detail, status: responseStatus })
+  }
+  if (err?.code === 'ERR_NETWORK' || err?.name === 'TypeError' || err?.cause?.code) return 'network'
+  return classifyProviderError({ status: err?.status, code: err?.code, message: err?.message })
+}
+
+export const isPermanentErrorKind = (kind) => PERMANENT_ERROR_KINDS.has(kind)
+
+export const extractProviderErrorDetail = (data) => {
+  const error = data?.error
+  if (!error || typeof error !== 'object') {
+    return { message: typeof data?.message === 'string' ? data.message : '' }
+  }
+  return {
+    message: typeof error.message === 'string' ? error.message : '',
+    code:
+      typeof error.code === 'string'
+        ? error.code
+        : typeof error.status === 'string'
+          ? error.status
+          : undefined,
+    type: typeof error.type === 'string' ? error.type : undefined,
+  }
+}
+
+export const detectSafetyBlock = (data) => {
+  const blockReason = data?.promptFeedback?.blockReason || data?.prompt_feedback?.block_reason
+  if (typeof blockReason === 'string' && blockReason) {
+    return `提示词被安全策略拦截 (${blockReason})`
+  }
+  const candidates = Array.isArray(data?.candidates) ? data.candidates : []
+  for (const candidate of candidates) {
+    const finishReason = candidate?.finishReason || candidate?.finish_reason
+    if (typeof finishReason === 'string' && SAFETY_FINISH_REASONS.has(finishReason)) {
+      return `生成结果被安全策略拦截 (${finishReason})`
+    }
+  }
+  const choices = Array.isArray(data?.choices) ? data.choices : []
+  for (const choice of choices) {
+    if (choice?.finish_reason === 'content_filter') {
+      return '生成结果被内容过滤拦截 (content_filter)'
+    }
+  }
+  return null
+}
@@ -0,0 +1,53 @@
+import type { AppConfig, ProviderPool, ProviderProfile } from '../src/types/app';
+
+export type ProviderSelectionTarget = { type: 'profile' | 'pool'; id: string };
+
+export interface ProviderCandidate<T extends Partial<AppConfig> = Partial<AppConfig>> {
+  profileId: string;
+  profileName: string;
+  keyIndex: number;
+  config: T;
+}
+
+export interface ProviderFailoverOptions<C> {
+  resolveErrorKind?: (err: unknown) => string | undefined;
+  signal?: AbortSignal;
+  onFailover?: (candidate: C, err: unknown, next: C) => void;
+}
+
+export declare const PROFILE_SELECTION_PREFIX: string;
+export declare const POOL_SELECTION_PREFIX: string;
+export declare const FAILOVER_ERROR_KINDS: Set<string>;
+
+export declare const normalizeApiKeys: (value: unknown) => string[];
+export declare const normalizeProviderProfiles: (value: unknown) => ProviderProfile[];
+export declare const normalizeProviderPools: (value: unknown) => ProviderPool[];
+export declare const parseProviderSelection: (selection: unknown) => ProviderSelectionTarget | null;
+export declare const resolveSelectionProfiles: (
+  config: Partial<AppConfig>,
+  selection: unknown,
+) => ProviderProfile[] | null;
+export declare const applyProviderProfile: <T extends Partial<AppConfig>>(
+  config: T,
+  profile: ProviderProfile,
+  apiKey?: string,
+) => T;
+export declare const describeProviderSelection: (
+  config: Partial<AppConfig>,
+  selection: unknown,
+) => string;
+export declare const resolvePrimaryProviderConfig: <T extends Partial<AppConfig>>(
+  config: T,
+  selection: unknown,
+) => T | null;
+export declare const resolveProviderCandidates: <T extends Partial<AppConfig>>(
+  config: T,
+  selection: unknown,
+  options?: { advance?: boolean },
+) => ProviderCandidate<T>[];
+export declare const shouldFailover: (errorKind: unknown) => boolean;
+export declare const runWithProviderFailover: <C, R>(
+  candidates: C[],
+  attempt: (candidate: C) => Promise<R>,
+  options?: ProviderFailoverOptions<C>,
+) => Promise<R>;
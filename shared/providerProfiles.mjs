@@ -0,0 +1,181 @@
+// 前端与 server.mjs 共用的供应商配置：命名配置、多密钥轮询与失败切换。
+// 任务通过 providerSelection 选择「profile:<id>」或「pool:<id>」，留空则沿用全局配置。
+
+import { resolveApiFormat } from './providerRequest.mjs'
+
+export const PROFILE_SELECTION_PREFIX = 'profile:'
+export const POOL_SELECTION_PREFIX = 'pool:'
+
+// 额度耗尽、限流与 5xx 换下一个密钥/端点通常就能恢复，其余错误换了也一样会失败
+export const FAILOVER_ERROR_KINDS = new Set(['quota', 'rate_limit', 'server'])
+
+const PROFILE_CONNECTION_KEYS = [
+  'apiUrl',
+  'model',
+  'apiVersion',
+  'vertexProjectId',
+  'vertexLocation',
+  'vertexPublisher',
+]
+
+const coerceString = (value) => (typeof value === 'string' ? value.trim() : '')
+
+export const normalizeApiKeys = (value) => {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(/[\n,]/)
+      : []
+  const keys = []
+  list.forEach((item) => {
+    const key = coerceString(item)
+    if (key && !keys.includes(key)) keys.push(key)
+  })
+  return keys
+}
+
+export const normalizeProviderProfiles = (value) => {
+  if (!Array.isArray(value)) return []
+  const seen = new Set()
+  return value
+    .filter((item) => item && typeof item === 'object')
+    .map((item) => {
+      const profile = {
+        id: coerceString(item.id),
+        name: coerceString(item.name),
+        apiFormat: resolveApiFormat(item.apiFormat),
+        apiKeys: normalizeApiKeys(item.apiKeys),
+      }
+      PROFILE_CONNECTION_KEYS.forEach((key) => {
+        profile[key] = coerceString(item[key])
+      })
+      return profile
+    })
+    .filter((profile) => {
+      if (!profile.id || seen.has(profile.id)) return false
+      seen.add(profile.id)
+      return true
+    })
+}
+
+export const normalizeProviderPools = (value) => {
+  if (!Array.isArray(value)) return []
+  const seen = new Set()
+  return value
+    .filter((item) => item && typeof item === 'object')
+    .map((item) => ({
+      id: coerceString(item.id),
+      name: coerceString(item.name),
+      profileIds: Array.isArray(item.profileIds)
+        ? item.profileIds.map(coerceString).filter(Boolean)
+        : [],
+    }))
+    .filter((pool) => {
+      if (!pool.id || seen.has(pool.id)) return false
+      seen.add(pool.id)
+      return true
+    })
+}
+
+export const parseProviderSelection = (selection) => {
+  const value = coerceString(selection)
+  if (value.startsWith(PROFILE_SELECTION_PREFIX)) {
+    return { type: 'profile', id: value.slice(PROFILE_SELECTION_PREFIX.length) }
+  }
+  if (value.startsWith(POOL_SELECTION_PREFIX)) {
+    return { type: 'pool', id: value.slice(POOL_SELECTION_PREFIX.length) }
+  }
+  return null
+}
+
+export const resolveSelectionProfiles = (config, selection) => {
+  const target = parseProviderSelection(selection)
+  if (!target) return null
+  const profiles = normalizeProviderProfiles(config?.providerProfiles)
+  if (target.type === 'profile') {
+    return profiles.filter((profile) => profile.id === target.id)
+  }
+  const pool = normalizeProviderPools(config?.providerPools).find((item) => item.id === target.id)
+  if (!pool) return []
+  return pool.profileIds
+    .map((profileId) => profiles.find((profile) => profile.id === profileId))
+    .filter(Boolean)
+}
+
+// 供应商配置只覆盖连接相关字段，思考、安全设置等高级参数仍沿用全局配置
+export const applyProviderProfile = (config, profile, apiKey) => {
+  const next = { ...config, apiFormat: profile.apiFormat, apiKey: apiKey || '' }
+  PROFILE_CONNECTION_KEYS.forEach((key) => {
+    if (profile[key]) next[key] = profile[key]
+  })
+  return next
+}
+
+export const describeProviderSelection = (config, selection) => {
+  const target = parseProviderSelection(selection)
+  if (!target) return ''
+  const list =
+    target.type === 'profile'
+      ? normalizeProviderProfiles(config?.providerProfiles)
+      : normalizeProviderPools(config?.providerPools)
+  const matched = list.find((item) => item.id === target.id)
+  return matched ? matched.name || matched.id : ''
+}
+
+// 不推进轮询位置，仅用于调度分组与请求前的校验
+export const resolvePrimaryProviderConfig = (config, selection) => {
+  const profiles = resolveSelectionProfiles(config, selection)
+  if (!profiles) return config
+  const profile = profiles[0]
+  if (!profile) return null
+  return applyProviderProfile(config, profile, profile.apiKeys[0])
+}
+
+const rotationCursors = new Map()
+
+// 返回本次请求依次尝试的候选配置；同一选择每调用一次起点后移一位，实现密钥轮询。
+// advance 为 false 时只查看候选列表，不推进轮询位置
+export const resolveProviderCandidates = (config, selection, options = {}) => {
+  const profiles = resolveSelectionProfiles(config, selection)
+  if (!profiles) {
+    return [{ profileId: '', profileName: '', keyIndex: 0, config }]
+  }
+  const slots = []
+  profiles.forEach((profile) => {
+    const keys = profile.apiKeys.length > 0 ? profile.apiKeys : ['']
+    keys.forEach((apiKey, keyIndex) => {
+      slots.push({
+        profileId: profile.id,
+        profileName: profile.name || profile.id,
+        keyIndex,
+        config: applyProviderProfile(config, profile, apiKey),
+      })
+    })
+  })
+  if (slots.length === 0) return []
+  const cursorKey = coerceString(selection)
+  const cursor = (rotationCursors.get(cursorKey) || 0) % slots.length
+  if (options.advance !== false) {
+    rotationCursors.set(cursorKey, (cursor + 1) % slots.length)
+  }
+  return [...slots.slice(cursor), ...slots.slice(0, cursor)]
+}
+
+export const shouldFailover = (errorKind) => FAILOVER_ERROR_KINDS.has(errorKind)
+
+export const runWithProviderFailover = async (candidates, attempt, options = {}) => {
+  const { resolveErrorKind, signal, onFailover } = options
+  let lastError
+  for (const [index, candidate] of candidates.entries()) {
+    try {
+      return await attempt(candidate)
+    } catch (err) {
+      lastError = err
+      if (signal?.aborted || index === candidates.length - 1) throw err
+      const errorKind = resolveErrorKind ? resolveErrorKind(err) : err?.errorKind
+      if (!shouldFailover(errorKind)) throw err
+      onFailover?.(candidate, err, candidates[index + 1])
+    }
+  }
+  throw lastError || new Error('所选供应商配置不存在或已被删除')
+}
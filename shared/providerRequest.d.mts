@@ -0,0 +1,66 @@
+import type { AppConfig } from '../src/types/app';
+
+export type ApiFormat = 'openai' | 'gemini' | 'vertex';
+
+export type ProviderRequestConfig = Partial<AppConfig>;
+
+export type ProviderReference =
+  | { mimeType?: string; data: string; url?: undefined }
+  | { url: string; data?: undefined; mimeType?: undefined };
+
+export interface ProviderRequestInput {
+  prompt?: string;
+  references?: ProviderReference[];
+  imageCount?: number;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface ApiBaseInfo {
+  origin: string;
+  segments: string[];
+  host: string;
+}
+
+export declare const API_VERSION_OPTIONS: string[];
+export declare const DEFAULT_API_BASES: Record<ApiFormat, string>;
+
+export declare const resolveApiFormat: (value: unknown) => ApiFormat;
+export declare const resolveApiUrl: (apiUrl: string | undefined, apiFormat: ApiFormat) => string;
+export declare const inferApiVersionFromUrl: (apiUrl: string) => string | null;
+export declare const normalizeApiBase: (apiUrl: string) => ApiBaseInfo;
+export declare const resolveApiVersion: (
+  apiUrl: string,
+  apiVersion: string | undefined,
+  fallback: string,
+) => string;
+export declare const extractVertexProjectId: (apiUrl: string) => string | null;
+
+export declare const buildOpenAiChatUrl: (config: ProviderRequestConfig) => string;
+export declare const buildGeminiUrl: (config: ProviderRequestConfig) => {
+  url: string;
+  isOfficial: boolean;
+};
+export declare const buildGeminiGenerationConfig: (
+  config: ProviderRequestConfig,
+) => Record<string, unknown> | null;
+export declare const buildGeminiSafetySettings: (
+  config: ProviderRequestConfig,
+) => Array<{ category: string; threshold: string }> | null;
+export declare const mergeGeminiCustomJson: (
+  config: ProviderRequestConfig,
+  payload: Record<string, unknown>,
+) => Record<string, unknown>;
+export declare const buildGeminiPayload: (
+  config: ProviderRequestConfig,
+  contents: Array<Record<string, unknown>>,
+  options?: { imageCount?: number },
+) => Record<string, unknown>;
+export declare const buildProviderRequest: (
+  config: ProviderRequestConfig,
+  input?: ProviderRequestInput,
+) => ProviderRequest;
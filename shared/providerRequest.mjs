@@ -0,0 +1,366 @@
+// 前端与 server.mjs 共用的请求构建逻辑，保持纯 JS 以便浏览器与 Node 直接导入。
+
+export const API_VERSION_OPTIONS = ['v1', 'v1beta', 'v1beta1']
+
+export const DEFAULT_API_BASES = {
+  openai: 'https://api.openai.com/v1',
+  gemini: 'https://generativelanguage.googleapis.com',
+  vertex: 'https://aiplatform.googleapis.com',
+}
+
+const VERSION_REGEX = /^v1(?:beta1|beta)?$/i
+const MARKER_SEGMENTS = new Set(['projects', 'locations', 'publishers', 'models'])
+
+const isVersionSegment = (value) => VERSION_REGEX.test(String(value || ''))
+
+const ensureProtocol = (value) =>
+  /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`
+
+const trimUrl = (value) => String(value || '').trim().replace(/\/+$/, '')
+
+const clampNumber = (value, min, max) => Math.min(max, Math.max(min, value))
+
+export const resolveApiFormat = (value) =>
+  value === 'gemini' || value === 'vertex' ? value : 'openai'
+
+export const resolveApiUrl = (apiUrl, apiFormat) => {
+  const trimmed = typeof apiUrl === 'string' ? apiUrl.trim() : ''
+  return trimmed || DEFAULT_API_BASES[apiFormat] || DEFAULT_API_BASES.openai
+}
+
+const findVersionSegment = (segments) => {
+  for (let i = segments.length - 1; i >= 0; i -= 1) {
+    if (VERSION_REGEX.test(segments[i])) return segments[i]
+  }
+  return null
+}
+
+export const inferApiVersionFromUrl = (apiUrl) => {
+  const cleaned = trimUrl(apiUrl)
+  if (!cleaned) return null
+  try {
+    const url = new URL(ensureProtocol(cleaned))
+    return findVersionSegment(url.pathname.split('/').filter(Boolean))
+  } catch {
+    return findVersionSegment(cleaned.split('/').filter(Boolean))
+  }
+}
+
+export const normalizeApiBase = (apiUrl) => {
+  const cleaned = trimUrl(apiUrl)
+  if (!cleaned) {
+    return { origin: '', segments: [], host: '' }
+  }
+  try {
+    const url = new URL(ensureProtocol(cleaned))
+    return {
+      origin: `${url.protocol}//${url.host}`,
+      segments: url.pathname.split('/').filter(Boolean),
+      host: url.host.toLowerCase(),
+    }
+  } catch {
+    return { origin: cleaned, segments: [], host: '' }
+  }
+}
+
+export const resolveApiVersion = (apiUrl, apiVersion, fallback) => {
+  const inferred = inferApiVersionFromUrl(apiUrl)
+  if (inferred) return inferred
+  const trimmed = String(apiVersion || '').trim()
+  return trimmed || fallback
+}
+
+export const extractVertexProjectId = (apiUrl) => {
+  const { segments } = normalizeApiBase(apiUrl)
+  const index = segments.indexOf('projects')
+  if (index < 0) return null
+  const candidate = segments[index + 1]
+  if (!candidate) return null
+  if (MARKER_SEGMENTS.has(candidate)) return null
+  if (VERSION_REGEX.test(candidate)) return null
+  return candidate
+}
+
+const resolveModel = (config) => {
+  const modelValue = String(config?.model || '').trim()
+  if (!modelValue) {
+    throw new Error('模型名称未配置')
+  }
+  return modelValue
+}
+
+export const buildOpenAiChatUrl = (config) => {
+  const apiUrl = resolveApiUrl(config?.apiUrl, 'openai')
+  const baseInfo = normalizeApiBase(apiUrl)
+  const basePath = baseInfo.origin
+    ? `${baseInfo.origin}${baseInfo.segments.length ? `/${baseInfo.segments.join('/')}` : ''}`
+    : trimUrl(apiUrl)
+  const version = resolveApiVersion(apiUrl, config?.apiVersion, 'v1')
+  const hasVersion = Boolean(inferApiVersionFromUrl(apiUrl))
+  const openAiBase = hasVersion ? basePath : `${basePath}/${version}`
+  return openAiBase.endsWith('/chat/completions')
+    ? openAiBase
+    : `${openAiBase}/chat/completions`
+}
+
+export const buildGeminiUrl = (config) => {
+  const format = config?.apiFormat === 'vertex' ? 'vertex' : 'gemini'
+  const apiUrl = resolveApiUrl(config?.apiUrl, format)
+  const baseInfo = normalizeApiBase(apiUrl)
+  const baseOrigin = baseInfo.origin || trimUrl(apiUrl)
+  const versionFallback = format === 'vertex' ? 'v1beta1' : 'v1beta'
+  const version = resolveApiVersion(apiUrl, config?.apiVersion, versionFallback)
+  const hasVersion = Boolean(inferApiVersionFromUrl(apiUrl))
+  const segments = [...baseInfo.segments]
+
+  if (!hasVersion && version) {
+    const markerIndex = segments.findIndex((segment) => MARKER_SEGMENTS.has(segment))
+    if (markerIndex >= 0) {
+      segments.splice(markerIndex, 0, version)
+    } else {
+      segments.push(version)
+    }
+  }
+
+  const modelValue = resolveModel(config)
+  const modelSegments = modelValue.split('/').filter(Boolean)
+  const modelHasProjectPath = modelSegments.includes('projects')
+  const geminiModelIsPath = modelSegments[0] === 'models'
+  const normalizedModel = geminiModelIsPath ? modelSegments.slice(1).join('/') : modelValue
+
+  const applyModelPath = () => {
+    const modelIndex = segments.indexOf('models')
+    if (geminiModelIsPath) {
+      if (modelIndex >= 0) {
+        segments.splice(modelIndex + 1)
+        segments.push(...modelSegments.slice(1))
+      } else {
+        segments.push(...modelSegments)
+      }
+      return
+    }
+    if (modelIndex >= 0) {
+      segments.splice(modelIndex + 1)
+      segments.push(modelValue)
+    } else {
+      segments.push('models', modelValue)
+    }
+  }
+
+  const ensureMarkerValue = (marker, value) => {
+    const idx = segments.indexOf(marker)
+    if (idx === -1) {
+      if (!value) return false
+      segments.push(marker, value)
+      return true
+    }
+    const next = segments[idx + 1]
+    if (!next || MARKER_SEGMENTS.has(next) || isVersionSegment(next)) {
+      if (!value) return false
+      segments.splice(idx + 1, 0, value)
+      return true
+    }
+    return true
+  }
+
+  if (format === 'vertex') {
+    const projectId =
+      String(config?.vertexProjectId || '').trim() || extractVertexProjectId(apiUrl) || ''
+    const location = String(config?.vertexLocation || '').trim() || 'us-central1'
+    const publisher = String(config?.vertexPublisher || '').trim() || 'google'
+    const hasProjectsMarker = segments.includes('projects')
+    const useVertexMarkers = Boolean(projectId || hasProjectsMarker || modelHasProjectPath)
+
+    if (modelHasProjectPath) {
+      segments.push(...modelSegments)
+    } else if (useVertexMarkers) {
+      if (projectId) {
+        ensureMarkerValue('projects', projectId)
+      }
+      if (segments.includes('projects') || projectId) {
+        ensureMarkerValue('locations', location)
+        ensureMarkerValue('publishers', publisher)
+        ensureMarkerValue('models', normalizedModel)
+      } else {
+        applyModelPath()
+      }
+    } else {
+      applyModelPath()
+    }
+  } else {
+    applyModelPath()
+  }
+
+  const suffix = config?.stream ? ':streamGenerateContent' : ':generateContent'
+  const url = `${baseOrigin}${segments.length ? `/${segments.join('/')}` : ''}${suffix}`
+  const isOfficial =
+    format === 'vertex'
+      ? baseInfo.host === 'aiplatform.googleapis.com'
+      : baseInfo.host === 'generativelanguage.googleapis.com'
+  return { url, isOfficial }
+}
+
+export const buildGeminiGenerationConfig = (config) => {
+  const generationConfig = {}
+  if (config?.includeImageConfig) {
+    const imageSize = config.imageConfig?.imageSize || '2K'
+    const aspectRatio = config.imageConfig?.aspectRatio || 'auto'
+    const imageConfig = { imageSize }
+    if (aspectRatio && aspectRatio !== 'auto') {
+      imageConfig.aspectRatio = aspectRatio
+    }
+    generationConfig.imageConfig = imageConfig
+    if (config.useResponseModalities) {
+      generationConfig.responseModalities = ['TEXT', 'IMAGE']
+    }
+  }
+  if (config?.includeThoughts) {
+    const budget = clampNumber(
+      Math.round(typeof config.thinkingBudget === 'number' ? config.thinkingBudget : 128),
+      0,
+      8192,
+    )
+    generationConfig.thinkingConfig = {
+      thinkingBudget: budget,
+      includeThoughts: true,
+    }
+  }
+  return Object.keys(generationConfig).length > 0 ? generationConfig : null
+}
+
+export const buildGeminiSafetySettings = (config) => {
+  if (!config?.includeSafetySettings || !config.safety) return null
+  const entries = Object.entries(config.safety).filter(
+    ([, threshold]) => threshold && threshold !== 'OFF',
+  )
+  if (entries.length === 0) return null
+  return entries.map(([category, threshold]) => ({
+    category,
+    threshold,
+  }))
+}
+
+export const mergeGeminiCustomJson = (config, payload) => {
+  const raw = typeof config?.customJson === 'string' ? config.customJson.trim() : ''
+  if (!raw) return payload
+  try {
+    const custom = JSON.parse(raw)
+    if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+      return payload
+    }
+    const mergedGenerationConfig = {
+      ...(payload.generationConfig || {}),
+      ...(custom.generationConfig || {}),
+    }
+    return {
+      ...payload,
+      ...custom,
+      generationConfig:
+        Object.keys(mergedGenerationConfig).length > 0 ? mergedGenerationConfig : undefined,
+      safetySettings: custom.safetySettings ?? payload.safetySettings,
+    }
+  } catch (err) {
+    console.warn('自定义 JSON 解析失败，已忽略。', err)
+    return payload
+  }
+}
+
+const buildGeminiContents = (prompt, references) => {
+  const parts = []
+  const promptText = String(prompt || '').trim()
+  if (promptText) {
+    parts.push({ text: promptText })
+  }
+  references.forEach((reference) => {
+    if (reference?.data) {
+      parts.push({
+        inline_data: {
+          mime_type: reference.mimeType || 'image/png',
+          data: reference.data,
+        },
+      })
+    } else if (reference?.url) {
+      parts.push({ file_data: { file_uri: reference.url } })
+    }
+  })
+  return [{ role: 'user', parts }]
+}
+
+const normalizeImageCount = (value) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(1, Math.floor(value)) : 1
+
+export const buildGeminiPayload = (config, contents, options = {}) => {
+  const payload = { contents }
+  const generationConfig = buildGeminiGenerationConfig(config) || {}
+  const imageCount = normalizeImageCount(options.imageCount)
+  if (imageCount > 1) {
+    generationConfig.candidateCount = imageCount
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    payload.generationConfig = generationConfig
+  }
+  const safetySettings = buildGeminiSafetySettings(config)
+  if (safetySettings) {
+    payload.safetySettings = safetySettings
+  }
+  return mergeGeminiCustomJson(config, payload)
+}
+
+const buildOpenAiMessages = (prompt, references) => {
+  const content = []
+  const promptText = String(prompt || '').trim()
+  if (promptText) {
+    content.push({ type: 'text', text: promptText })
+  }
+  references.forEach((reference) => {
+    const url = reference?.data
+      ? `data:${reference.mimeType || 'image/png'};base64,${reference.data}`
+      : reference?.url
+    if (url) {
+      content.push({ type: 'image_url', image_url: { url } })
+    }
+  })
+  return [{ role: 'user', content }]
+}
+
+export const buildProviderRequest = (
+  config,
+  { prompt = '', references = [], imageCount = 1 } = {},
+) => {
+  const apiFormat = resolveApiFormat(config?.apiFormat)
+  const apiKey = String(config?.apiKey || '')
+  const list = Array.isArray(references) ? references : []
+  const count = normalizeImageCount(imageCount)
+
+  if (apiFormat === 'openai') {
+    const model = resolveModel(config)
+    return {
+      url: buildOpenAiChatUrl(config),
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'x-api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: {
+        model,
+        messages: buildOpenAiMessages(prompt, list),
+        stream: Boolean(config?.stream),
+        ...(count > 1 ? { n: count } : {}),
+      },
+    }
+  }
+
+  const { url, isOfficial } = buildGeminiUrl(config)
+  const headers = { 'Content-Type': 'application/json' }
+  let requestUrl = url
+  if (isOfficial) {
+    requestUrl += `${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(apiKey)}`
+  } else {
+    headers.Authorization = `Bearer ${apiKey}`
+  }
+  return {
+    url: requestUrl,
+    headers,
+    body: buildGeminiPayload(config, buildGeminiContents(prompt, list), { imageCount: count }),
+  }
+}
@@ -0,0 +1,8 @@
+import type { RetryPolicy } from '../src/types/app';
+
+export declare const DEFAULT_RETRY_POLICY: RetryPolicy;
+
+export declare const normalizeRetryPolicy: (value: unknown) => RetryPolicy;
+export declare const hasRetryAttemptsLeft: (policy: RetryPolicy, attemptsMade: number) => boolean;
+export declare const computeRetryDelay: (policy: RetryPolicy, retryIndex: number) => number;
+export declare const formatRetryDelay: (ms: number) => string;
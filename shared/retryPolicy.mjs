@@ -0,0 +1,71 @@
+// 前端与 server.mjs 共用的自动重试策略：指数退避加随机抖动。
+
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 10,
+  baseDelayMs: 1000,
+  backoffFactor: 2,
+  jitterPercent: 20,
+  maxDelayMs: 60000,
+}
+
+const coerceNumber = (value, fallback) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const clampNumber = (value, min, max) => Math.min(max, Math.max(min, value))
+
+export const normalizeRetryPolicy = (value) => {
+  const raw = value && typeof value === 'object' ? value : {}
+  const baseDelayMs = clampNumber(
+    Math.round(coerceNumber(raw.baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs)),
+    0,
+    3600000,
+  )
+  return {
+    maxAttempts: clampNumber(
+      Math.floor(coerceNumber(raw.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts)),
+      0,
+      1000,
+    ),
+    baseDelayMs,
+    backoffFactor: clampNumber(
+      coerceNumber(raw.backoffFactor, DEFAULT_RETRY_POLICY.backoffFactor),
+      1,
+      10,
+    ),
+    jitterPercent: clampNumber(
+      Math.round(coerceNumber(raw.jitterPercent, DEFAULT_RETRY_POLICY.jitterPercent)),
+      0,
+      100,
+    ),
+    maxDelayMs: Math.max(
+      baseDelayMs,
+      clampNumber(
+        Math.round(coerceNumber(raw.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs)),
+        0,
+        3600000,
+      ),
+    ),
+  }
+}
+
+// maxAttempts 为 0 表示不限制重试次数
+export const hasRetryAttemptsLeft = (policy, attemptsMade) =>
+  policy.maxAttempts <= 0 || attemptsMade < policy.maxAttempts
+
+export const computeRetryDelay = (policy, retryIndex) => {
+  const exponent = Math.max(0, retryIndex - 1)
+  const raw = policy.baseDelayMs * Math.pow(policy.backoffFactor, exponent)
+  const capped = Math.min(policy.maxDelayMs, raw)
+  const jitterRatio = policy.jitterPercent / 100
+  const jittered = capped * (1 + (Math.random() * 2 - 1) * jitterRatio)
+  return Math.max(0, Math.round(Math.min(policy.maxDelayMs, jittered)))
+}
+
+// 先取整再拆分，避免 119.6s 显示成 1m60s、9.96s 显示成 10.0s
+export const formatRetryDelay = (ms) => {
+  const tenths = Math.round(ms / 100)
+  if (tenths < 100) return `${(tenths / 10).toFixed(1)}s`
+  const totalSeconds = Math.round(ms / 1000)
+  if (totalSeconds < 60) return `${totalSeconds}s`
+  return `${Math.floor(totalSeconds / 60)}m${totalSeconds % 60}s`
+}
@@ -0,0 +1,27 @@
+import type { AppConfig, ImageConfig, SafetySettings } from '../src/types/app';
+
+export interface TaskOverrides {
+  model?: string;
+  apiVersion?: string;
+  vertexProjectId?: string;
+  vertexLocation?: string;
+  vertexPublisher?: string;
+  customJson?: string;
+  includeThoughts?: boolean;
+  includeImageConfig?: boolean;
+  includeSafetySettings?: boolean;
+  useResponseModalities?: boolean;
+  stream?: boolean;
+  thinkingBudget?: number;
+  webpQuality?: number;
+  safety?: Partial<SafetySettings>;
+  imageConfig?: Partial<ImageConfig>;
+}
+
+export declare const TASK_OVERRIDE_KEYS: string[];
+export declare const normalizeTaskOverrides: (value: unknown) => TaskOverrides;
+export declare const hasTaskOverrides: (value: unknown) => boolean;
+export declare const applyTaskOverrides: <T extends Partial<AppConfig>>(
+  config: T,
+  value: unknown,
+) => T;
@@ -0,0 +1,87 @@
+// 任务级生成参数覆盖：任务卡片可以单独覆盖任意格式配置字段以及流式开关，
+// 前端本地模式与 server.mjs 执行任务时共用同一套归一化与合并逻辑。
+// 接口地址与密钥不在覆盖范围内：任务状态明文保存且原样返回给前端，需要换端点时改用供应商配置。
+
+const STRING_KEYS = [
+  'model',
+  'apiVersion',
+  'vertexProjectId',
+  'vertexLocation',
+  'vertexPublisher',
+  'customJson',
+]
+const BOOLEAN_KEYS = [
+  'includeThoughts',
+  'includeImageConfig',
+  'includeSafetySettings',
+  'useResponseModalities',
+  'stream',
+]
+const NUMBER_RANGES = {
+  thinkingBudget: [0, 8192],
+  webpQuality: [50, 100],
+}
+
+export const TASK_OVERRIDE_KEYS = [
+  ...STRING_KEYS,
+  ...BOOLEAN_KEYS,
+  ...Object.keys(NUMBER_RANGES),
+  'safety',
+  'imageConfig',
+]
+
+const pickStringMap = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const next = {}
+  Object.entries(value).forEach(([key, item]) => {
+    if (typeof item === 'string' && item.trim()) next[key] = item.trim()
+  })
+  return Object.keys(next).length > 0 ? next : null
+}
+
+export const normalizeTaskOverrides = (value) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  const next = {}
+  STRING_KEYS.forEach((key) => {
+    const item = value[key]
+    if (typeof item === 'string' && item.trim()) next[key] = item.trim()
+  })
+  BOOLEAN_KEYS.forEach((key) => {
+    if (typeof value[key] === 'boolean') next[key] = value[key]
+  })
+  Object.entries(NUMBER_RANGES).forEach(([key, [min, max]]) => {
+    const item = value[key]
+    if (typeof item === 'number' && Number.isFinite(item)) {
+      next[key] = Math.min(max, Math.max(min, Math.round(item)))
+    }
+  })
+  const safety = pickStringMap(value.safety)
+  if (safety) next.safety = safety
+  const imageConfig = pickStringMap(value.imageConfig)
+  if (imageConfig) {
+    const picked = {}
+    if (imageConfig.imageSize) picked.imageSize = imageConfig.imageSize
+    if (imageConfig.aspectRatio) picked.aspectRatio = imageConfig.aspectRatio
+    if (Object.keys(picked).length > 0) next.imageConfig = picked
+  }
+  return next
+}
+
+export const hasTaskOverrides = (value) => Object.keys(normalizeTaskOverrides(value)).length > 0
+
+export const applyTaskOverrides = (config, value) => {
+  const overrides = normalizeTaskOverrides(value)
+  if (Object.keys(overrides).length === 0) return config
+  const next = { ...config, ...overrides }
+  if (overrides.safety) {
+    next.safety = { ...(config?.safety || {}), ...overrides.safety }
+  }
+  if (overrides.imageConfig) {
+    next.imageConfig = { ...(config?.imageConfig || {}), ...overrides.imageConfig }
+    // 单独指定了比例或分辨率却没开图像配置时，覆盖值不会被发送，这里视为一并开启
+    if (typeof overrides.includeImageConfig !== 'boolean') {
+      next.includeImageConfig = true
+    }
+  }
+  return next
+}
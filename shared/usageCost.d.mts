@@ -0,0 +1,33 @@
+import type { ModelPrice } from '../src/types/app';
+import type { UsageTotals } from '../src/types/stats';
+import type { ResponseUsage } from './imageResponse.mjs';
+
+export interface NormalizedUsage {
+  promptTokens: number;
+  completionTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+export declare const normalizeUsage: (usage: unknown) => NormalizedUsage | null;
+export declare const normalizePriceTable: (value: unknown) => ModelPrice[];
+export declare const findModelPrice: (priceTable: unknown, model: unknown) => ModelPrice | null;
+export declare const computeUsageCost: (
+  usage: ResponseUsage | null | undefined,
+  price: ModelPrice | null,
+  imageCount?: number,
+) => number;
+export declare const addUsageToStats: <T extends UsageTotals>(
+  stats: T,
+  usage: ResponseUsage | null | undefined,
+  cost?: number,
+) => T;
+export declare const formatUsageDay: (timestamp?: number) => string;
+export declare const addDailyUsage: <T extends { daily?: Record<string, UsageTotals> }>(
+  stats: T,
+  usage: ResponseUsage | null | undefined,
+  cost?: number,
+  timestamp?: number,
+) => T;
+export declare const formatCost: (cost: unknown) => string;
+export declare const formatTokenCount: (count: unknown) => string;
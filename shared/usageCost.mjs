@@ -0,0 +1,103 @@
+// 用量与花费统计：前端本地模式与 server.mjs 共用同一套价格匹配与累加逻辑。
+// 价格单位为美元，token 按每百万计价，图片按张计价；思考 token 按输出价计费。
+// usage 统一为 completionTokens 不含思考 token（OpenAI 的 reasoning_tokens 在解析时已扣除），避免重复计数。
+
+const DAILY_USAGE_LIMIT = 90
+
+const toCount = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0
+
+const toPrice = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0
+
+export const normalizeUsage = (usage) => {
+  if (!usage || typeof usage !== 'object') return null
+  const promptTokens = toCount(usage.promptTokens)
+  const completionTokens = toCount(usage.completionTokens)
+  const thoughtsTokens = toCount(usage.thoughtsTokens)
+  const totalTokens =
+    toCount(usage.totalTokens) || promptTokens + completionTokens + thoughtsTokens
+  if (totalTokens === 0) return null
+  return { promptTokens, completionTokens, thoughtsTokens, totalTokens }
+}
+
+export const normalizePriceTable = (value) => {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item) => item && typeof item === 'object' && typeof item.model === 'string')
+    .map((item) => ({
+      model: item.model.trim(),
+      inputPrice: toPrice(item.inputPrice),
+      outputPrice: toPrice(item.outputPrice),
+      imagePrice: toPrice(item.imagePrice),
+    }))
+    .filter((item) => item.model)
+}
+
+// 先精确匹配模型名，再按「gemini-*」这类前缀通配匹配，通配越长越优先
+export const findModelPrice = (priceTable, model) => {
+  const name = String(model || '').trim().toLowerCase()
+  if (!name) return null
+  const table = normalizePriceTable(priceTable)
+  const exact = table.find((item) => item.model.toLowerCase() === name)
+  if (exact) return exact
+  const wildcard = table
+    .filter((item) => item.model.endsWith('*'))
+    .filter((item) => name.startsWith(item.model.slice(0, -1).toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)
+  return wildcard[0] || null
+}
+
+export const computeUsageCost = (usage, price, imageCount = 0) => {
+  if (!price) return 0
+  const normalized = normalizeUsage(usage)
+  let cost = toCount(imageCount) * price.imagePrice
+  if (normalized) {
+    cost += (normalized.promptTokens * price.inputPrice) / 1e6
+    cost += ((normalized.completionTokens + normalized.thoughtsTokens) * price.outputPrice) / 1e6
+  }
+  return Math.round(cost * 1e6) / 1e6
+}
+
+export const addUsageToStats = (stats, usage, cost = 0) => {
+  const normalized = normalizeUsage(usage)
+  const next = { ...stats }
+  next.promptTokens = toCount(stats?.promptTokens) + (normalized?.promptTokens || 0)
+  next.completionTokens = toCount(stats?.completionTokens) + (normalized?.completionTokens || 0)
+  next.thoughtsTokens = toCount(stats?.thoughtsTokens) + (normalized?.thoughtsTokens || 0)
+  next.totalCost = Math.round((toPrice(stats?.totalCost) + toPrice(cost)) * 1e6) / 1e6
+  return next
+}
+
+export const formatUsageDay = (timestamp = Date.now()) => {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// 全局统计按天累计用量，只保留最近 90 天
+export const addDailyUsage = (stats, usage, cost = 0, timestamp = Date.now()) => {
+  const daily = stats?.daily && typeof stats.daily === 'object' ? { ...stats.daily } : {}
+  const key = formatUsageDay(timestamp)
+  daily[key] = addUsageToStats(daily[key] || {}, usage, cost)
+  const keys = Object.keys(daily).sort()
+  keys.slice(0, Math.max(0, keys.length - DAILY_USAGE_LIMIT)).forEach((day) => {
+    delete daily[day]
+  })
+  return { ...stats, daily }
+}
+
+export const formatCost = (cost) => {
+  const value = toPrice(cost)
+  if (value === 0) return '$0'
+  if (value < 0.01) return `$${value.toFixed(4)}`
+  return `$${value.toFixed(2)}`
+}
+
+export const formatTokenCount = (count) => {
+  const value = toCount(count)
+  if (value >= 1e6) return `${(value / 1e6).toFixed(1)}M`
+  if (value >= 1e3) return `${(value / 1e3).toFixed(1)}K`
+  return String(value)
+}
@@ -10,7 +10,9 @@ import {
   AppstoreFilled,
   ExperimentFilled,
   ReloadOutlined,
-  DeleteFilled
+  DeleteFilled,
+  DollarCircleFilled,
+  FireFilled
 } from '@ant-design/icons';
 import { v4 as uuidv4 } from 'uuid';
 import PromptDrawer from './components/PromptDrawer';
@@ -50,6 +52,8 @@ import {
 } from './utils/apiUrl';
 import { safeStorageSet } from './utils/storage';
 import { calculateSuccessRate, formatDuration } from './utils/stats';
+import { addDailyUsage, addUsageToStats, formatCost, formatTokenCount, formatUsageDay } from './utils/usageCost';
+import type { ResponseUsage } from './utils/imageResponse';
 import { TASK_STATE_VERSION, saveTaskState, DEFAULT_TASK_STATS } from './components/imageTaskState';
 import {
   authBackend,
@@ -60,6 +64,8 @@ import {
   getBackendMode,
   getBackendToken,
   buildBackendStreamUrl,
+  isRedactedApiKey,
+  logoutBackend,
   patchBackendState,
   putBackendTask,
   putBackendCollection,
@@ -127,6 +133,7 @@ function App() {
   const [backendMode, setBackendModeState] = useState<boolean>(() => initialBackendMode);
   const [backendAuthPending, setBackendAuthPending] = useState(false);
   const [backendPassword, setBackendPassword] = useState('');
+  const [backendUsername, setBackendUsername] = useState('');
   const [backendAuthLoading, setBackendAuthLoading] = useState(false);
   const [backendSyncing, setBackendSyncing] = useState(false);
   const backendModeRef = useRef(initialBackendMode);
@@ -264,7 +271,9 @@ function App() {
       applyBackendState(state);
     } catch (err: any) {
       console.error(err);
-      message.error('后端模式初始化失败，请检查密码或服务状态');
+      if (err?.code !== 'BACKEND_UNAUTHORIZED') {
+        message.error('后端模式初始化失败，请检查密码或服务状态');
+      }
       clearBackendToken();
       persistBackendMode(false);
       localHydratingRef.current = true;
@@ -284,7 +293,7 @@ function App() {
     setBackendAuthPending(true);
   };
 
-  const handleBackendDisable = () => {
+  const exitBackendMode = useCallback(() => {
     setBackendAuthPending(false);
     setBackendPassword('');
     clearBackendToken();
@@ -296,8 +305,30 @@ function App() {
     setConfig(localConfig);
     setTasks(loadTasks());
     setGlobalStats(loadGlobalStats());
+  }, []);
+
+  const handleBackendDisable = () => {
+    if (getBackendToken()) {
+      void logoutBackend().catch((err) => {
+        console.warn('后端登出失败:', err);
+      });
+    }
+    exitBackendMode();
   };
 
+  React.useEffect(() => {
+    if (!backendMode) return;
+    const handler = () => {
+      if (!backendModeRef.current) return;
+      message.warning('后端登录已过期或已被撤销，请重新验证');
+      exitBackendMode();
+    };
+    window.addEventListener('backend-unauthorized', handler);
+    return () => {
+      window.removeEventListener('backend-unauthorized', handler);
+    };
+  }, [backendMode, exitBackendMode]);
+
   const handleBackendAuthConfirm = async () => {
     if (!backendPassword) {
       message.warning('请输入后端密码');
@@ -305,7 +336,7 @@ function App() {
     }
     setBackendAuthLoading(true);
     try {
-      const token = await authBackend(backendPassword);
+      const token = await authBackend(backendPassword, backendUsername.trim());
       setBackendToken(token);
       persistBackendMode(true);
       setBackendModeState(true);
@@ -314,7 +345,14 @@ function App() {
       setBackendPassword('');
     } catch (err: any) {
       console.error(err);
-      message.error('后端密码错误或服务器不可用');
+      if (err?.code === 'BACKEND_AUTH_LOCKED') {
+        const unlockAt = err.lockedUntil
+          ? new Date(err.lockedUntil).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })
+          : '';
+        message.error(unlockAt ? `尝试次数过多，请在 ${unlockAt} 之后再试` : '尝试次数过多，请稍后再试');
+        return;
+      }
+      message.error('用户名或密码错误，或服务器不可用');
     } finally {
       setBackendAuthLoading(false);
     }
@@ -522,14 +560,36 @@ function App() {
         console.warn('解析后端任务事件失败:', err);
       }
     };
+    const handleQueue = (event: MessageEvent) => {
+      if (!backendModeRef.current) return;
+      try {
+        const payload = JSON.parse(event.data || '{}');
+        window.dispatchEvent(new CustomEvent('backend-queue-update', { detail: payload }));
+      } catch (err) {
+        console.warn('解析后端队列事件失败:', err);
+      }
+    };
+    const handleSchedules = (event: MessageEvent) => {
+      if (!backendModeRef.current) return;
+      try {
+        const payload = JSON.parse(event.data || '[]');
+        window.dispatchEvent(new CustomEvent('backend-schedules-update', { detail: payload }));
+      } catch (err) {
+        console.warn('解析后端定时事件失败:', err);
+      }
+    };
     source.addEventListener('state', handleState as EventListener);
     source.addEventListener('task', handleTask as EventListener);
+    source.addEventListener('queue', handleQueue as EventListener);
+    source.addEventListener('schedules', handleSchedules as EventListener);
     source.onerror = () => {
       console.warn('后端事件流断开，等待自动重连');
     };
     return () => {
       source.removeEventListener('state', handleState as EventListener);
       source.removeEventListener('task', handleTask as EventListener);
+      source.removeEventListener('queue', handleQueue as EventListener);
+      source.removeEventListener('schedules', handleSchedules as EventListener);
       source.close();
     };
   }, [backendMode, applyBackendState]);
@@ -540,6 +600,10 @@ function App() {
       message.warning('请先填写 API 密钥');
       return;
     }
+    if (isRedactedApiKey(currentConfig.apiKey)) {
+      message.warning('后端已隐藏保存的密钥，请重新填写 API 密钥后再获取模型列表');
+      return;
+    }
 
     setLoadingModels(true);
     try {
@@ -645,7 +709,7 @@ function App() {
 
   // 当配置抽屉打开且有 API Key 时，如果列表为空，自动获取一次
   React.useEffect(() => {
-    if (configVisible && config.apiKey && models.length === 0) {
+    if (configVisible && config.apiKey && !isRedactedApiKey(config.apiKey) && models.length === 0) {
       fetchModels();
     }
   }, [configVisible]);
@@ -978,6 +1042,10 @@ function App() {
     });
   }, []);
 
+  const updateGlobalUsage = useCallback((usage: ResponseUsage | null, cost: number) => {
+    setGlobalStats((prev: GlobalStats) => addDailyUsage(addUsageToStats(prev, usage, cost), usage, cost));
+  }, []);
+
   const handleClearGlobalStats = () => {
     setGlobalStats({ ...EMPTY_GLOBAL_STATS });
     message.success('数据总览统计已清空');
@@ -995,6 +1063,11 @@ function App() {
   const fastestTimeStr = formatDuration(globalStats.fastestTime);
 
   const slowestTimeStr = formatDuration(globalStats.slowestTime);
+  const todayUsage = globalStats.daily?.[formatUsageDay()];
+  const totalTokens =
+    (globalStats.promptTokens || 0) +
+    (globalStats.completionTokens || 0) +
+    (globalStats.thoughtsTokens || 0);
   const backendSwitchChecked = backendMode || backendAuthPending;
 
   return (
@@ -1154,7 +1227,7 @@ function App() {
             
             <div className="stat-panel">
               <Row gutter={[16, 16]}>
-                <Col xs={12} sm={8} lg={4}>
+                <Col xs={12} sm={6} lg={3}>
                   <div className="stat-item">
                     <div style={{ 
                       width: 40, height: 40, borderRadius: '50%', background: '#E0F7FA', color: '#00BCD4',
@@ -1166,7 +1239,7 @@ function App() {
                     <div className="stat-label">总请求数</div>
                   </div>
                 </Col>
-                <Col xs={12} sm={8} lg={4}>
+                <Col xs={12} sm={6} lg={3}>
                   <div className="stat-item">
                     <div style={{ 
                       width: 40, height: 40, borderRadius: '50%', background: '#E8F5E9', color: '#4CAF50',
@@ -1178,7 +1251,7 @@ function App() {
                     <div className="stat-label">成功生成</div>
                   </div>
                 </Col>
-                <Col xs={12} sm={8} lg={4}>
+                <Col xs={12} sm={6} lg={3}>
                   <div className="stat-item">
                     <div style={{ 
                       width: 40, height: 40, borderRadius: '50%', background: '#FFF8E1', color: '#FFC107',
@@ -1192,7 +1265,7 @@ function App() {
                     <div className="stat-label">成功率</div>
                   </div>
                 </Col>
-                <Col xs={12} sm={8} lg={4}>
+                <Col xs={12} sm={6} lg={3}>
                   <div className="stat-item">
                     <div style={{ 
                       width: 40, height: 40, borderRadius: '50%', background: '#E3F2FD', color: '#2196F3',
@@ -1204,7 +1277,7 @@ function App() {
                     <div className="stat-label">最快用时</div>
                   </div>
                 </Col>
-                <Col xs={12} sm={8} lg={4}>
+                <Col xs={12} sm={6} lg={3}>
                   <div className="stat-item">
                     <div style={{ 
                       width: 40, height: 40, borderRadius: '50%', background: '#FFEBEE', color: '#FF5252',
@@ -1216,7 +1289,7 @@ function App() {
                     <div className="stat-label">最慢用时</div>
                   </div>
                 </Col>
-                <Col xs={12} sm={8} lg={4}>
+                <Col xs={12} sm={6} lg={3}>
                   <div className="stat-item">
                     <div style={{ 
                       width: 40, height: 40, borderRadius: '50%', background: '#F3E5F5', color: '#9C27B0',
@@ -1228,6 +1301,36 @@ function App() {
                     <div className="stat-label">平均用时</div>
                   </div>
                 </Col>
+                <Col xs={12} sm={6} lg={3}>
+                  <Tooltip
+                    title={`输入 ${formatTokenCount(globalStats.promptTokens)} · 输出 ${formatTokenCount(globalStats.completionTokens)} · 思考 ${formatTokenCount(globalStats.thoughtsTokens)}`}
+                  >
+                    <div className="stat-item">
+                      <div style={{ 
+                        width: 40, height: 40, borderRadius: '50%', background: '#FBE9E7', color: '#FF7043',
+                        display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 20, marginBottom: 8
+                      }}>
+                        <FireFilled />
+                      </div>
+                      <div className="stat-value" style={{ color: '#FF7043' }}>{formatTokenCount(totalTokens)}</div>
+                      <div className="stat-label">累计 Tokens</div>
+                    </div>
+                  </Tooltip>
+                </Col>
+                <Col xs={12} sm={6} lg={3}>
+                  <Tooltip title={`累计花费 ${formatCost(globalStats.totalCost)}`}>
+                    <div className="stat-item">
+                      <div style={{ 
+                        width: 40, height: 40, borderRadius: '50%', background: '#E8F5E9', color: '#43A047',
+                        display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: 20, marginBottom: 8
+                      }}>
+                        <DollarCircleFilled />
+                      </div>
+                      <div className="stat-value" style={{ color: '#43A047' }}>{formatCost(todayUsage?.totalCost)}</div>
+                      <div className="stat-label">今日花费</div>
+                    </div>
+                  </Tooltip>
+                </Col>
               </Row>
             </div>
           </div>
@@ -1253,6 +1356,7 @@ function App() {
             collectionRevision={collectionRevision}
             onRemoveTask={handleRemoveTask}
             onStatsUpdate={updateGlobalStats}
+            onUsageUpdate={updateGlobalUsage}
             onCollect={handleCollect}
             onReorder={handleReorderTasks}
           />
@@ -1298,6 +1402,8 @@ function App() {
           backendAuthPending={backendAuthPending}
           backendPassword={backendPassword}
           onBackendPasswordChange={setBackendPassword}
+          backendUsername={backendUsername}
+          onBackendUsernameChange={setBackendUsername}
           onBackendEnable={handleBackendEnable}
           onBackendDisable={handleBackendDisable}
           onBackendAuthCancel={handleBackendAuthCancel}
@@ -5,6 +5,9 @@ import type { GlobalStats } from '../types/stats';
 import { safeStorageGet, safeStorageRemove, safeStorageSet } from '../utils/storage';
 import { openImageDb, IMAGE_STORE_NAME } from '../utils/imageDb';
 import { buildPromptKey } from '../utils/prompt';
+import { DEFAULT_RETRY_POLICY, normalizeRetryPolicy } from '../utils/retryPolicy';
+import { normalizeProviderPools, normalizeProviderProfiles } from '../utils/providerProfiles';
+import { normalizePriceTable } from '../utils/usageCost';
 
 export const STORAGE_KEYS = {
   config: 'moe-image-config',
@@ -101,6 +104,10 @@ const DEFAULT_CONFIG: AppConfig = {
   apiFormat: 'openai',
   stream: false,
   enableCollection: false,
+  retryPolicy: { ...DEFAULT_RETRY_POLICY },
+  providerProfiles: [],
+  providerPools: [],
+  priceTable: [],
 };
 
 const DEFAULT_GLOBAL_STATS: GlobalStats = {
@@ -226,7 +233,15 @@ export const loadConfig = (): AppConfig => {
       ...DEFAULT_FORMAT_CONFIGS[apiFormat],
       ...fallbackFormat,
     };
-    return { ...baseConfig, ...formatConfig, apiFormat };
+    return {
+      ...baseConfig,
+      ...formatConfig,
+      apiFormat,
+      retryPolicy: normalizeRetryPolicy(baseConfig.retryPolicy),
+      providerProfiles: normalizeProviderProfiles(baseConfig.providerProfiles),
+      providerPools: normalizeProviderPools(baseConfig.providerPools),
+      priceTable: normalizePriceTable(baseConfig.priceTable),
+    };
   } catch (err) {
     console.warn('Failed to parse config cache:', err);
     return { ...DEFAULT_CONFIG };
@@ -247,6 +262,10 @@ export const saveConfig = (config: AppConfig) => {
     apiFormat: config.apiFormat,
     stream: config.stream,
     enableCollection: config.enableCollection,
+    retryPolicy: normalizeRetryPolicy(config.retryPolicy),
+    providerProfiles: normalizeProviderProfiles(config.providerProfiles),
+    providerPools: normalizeProviderPools(config.providerPools),
+    priceTable: normalizePriceTable(config.priceTable),
   };
   safeStorageSet(STORAGE_KEYS.config, JSON.stringify(baseConfig), 'app cache');
   const formatMap = loadFormatConfigMap();
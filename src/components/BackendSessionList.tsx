@@ -0,0 +1,139 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button, Empty, Spin, Tag, Typography, message } from 'antd';
+import { DesktopOutlined, ReloadOutlined } from '@ant-design/icons';
+import {
+  fetchBackendSessions,
+  revokeBackendSession,
+  type BackendSession,
+} from '../utils/backendApi';
+
+const { Text } = Typography;
+
+const formatSessionTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// 从 User-Agent 里挑出浏览器与系统，完整字符串放在悬浮提示里
+const describeUserAgent = (userAgent: string) => {
+  if (!userAgent) return '未知设备';
+  const browser =
+    /Edg\//.test(userAgent)
+      ? 'Edge'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Firefox\//.test(userAgent)
+          ? 'Firefox'
+          : /Safari\//.test(userAgent)
+            ? 'Safari'
+            : '';
+  const os = /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /iPhone|iPad/.test(userAgent)
+        ? 'iOS'
+        : /Mac OS X/.test(userAgent)
+          ? 'macOS'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : '';
+  const label = [browser, os].filter(Boolean).join(' · ');
+  return label || userAgent.slice(0, 40);
+};
+
+interface BackendSessionListProps {
+  visible: boolean;
+  onLogout: () => void;
+}
+
+const BackendSessionList: React.FC<BackendSessionListProps> = ({ visible, onLogout }) => {
+  const [sessions, setSessions] = useState<BackendSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await fetchBackendSessions());
+    } catch (err) {
+      console.warn('读取登录设备失败:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) void refresh();
+  }, [visible, refresh]);
+
+  const handleRevoke = async (session: BackendSession) => {
+    if (session.current) {
+      onLogout();
+      return;
+    }
+    try {
+      await revokeBackendSession(session.id);
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+      message.success('已撤销该设备的登录');
+    } catch (err) {
+      console.warn('撤销登录失败:', err);
+      message.error('撤销登录失败');
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <Text strong style={{ fontSize: 13, color: '#665555' }}>登录设备</Text>
+        <Button type="text" size="small" icon={<ReloadOutlined />} onClick={() => void refresh()} />
+      </div>
+      <Spin spinning={loading}>
+        {sessions.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无登录记录" style={{ margin: 0 }} />
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '8px 10px',
+                marginBottom: 8,
+                background: '#fff',
+                borderRadius: 10,
+                border: '1px solid #E5EDFF',
+              }}
+            >
+              <DesktopOutlined style={{ color: '#91C1FF' }} />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  <Text style={{ fontSize: 12 }} ellipsis={{ tooltip: session.userAgent }}>
+                    {describeUserAgent(session.userAgent)}
+                  </Text>
+                  {session.current && (
+                    <Tag color="blue" bordered={false} style={{ marginInlineEnd: 0, fontSize: 10 }}>
+                      当前
+                    </Tag>
+                  )}
+                </div>
+                <Text type="secondary" style={{ fontSize: 11, display: 'block' }}>
+                  {session.ip || '未知 IP'} · 活跃 {formatSessionTime(session.lastSeenAt)} · 到期{' '}
+                  {formatSessionTime(session.expiresAt)}
+                </Text>
+              </div>
+              <Button size="small" type="text" danger onClick={() => void handleRevoke(session)}>
+                {session.current ? '退出' : '撤销'}
+              </Button>
+            </div>
+          ))
+        )}
+      </Spin>
+    </div>
+  );
+};
+
+export default BackendSessionList;
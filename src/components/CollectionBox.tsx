@@ -4,6 +4,12 @@ import Icon, { DeleteFilled, DownloadOutlined, PictureFilled, LeftOutlined, Righ
 import { openImageDb, IMAGE_STORE_NAME } from '../utils/imageDb';
 import { buildBackendImageUrl } from '../utils/backendApi';
 import { copyTextToClipboard } from '../utils/clipboard';
+import {
+  buildCollectionGroupKey,
+  isUploadCollectionKey,
+  normalizeCollectionPrompt,
+} from '../utils/collectionGroup';
+import SharePanel from './SharePanel';
 import type { CollectionItem } from '../types/collection';
 import { COLORS } from '../theme/colors';
 
@@ -47,8 +53,6 @@ interface CollectionBoxProps {
 
 // Helper functions
 const isBackendLocalKey = (key: string) => /\.[a-z0-9]+$/i.test(key);
-const isUploadCollectionKey = (key?: string) =>
-  Boolean(key && key.startsWith('collection:upload:'));
 const isUploadCollectionItem = (item: ResolvedCollectionItem) =>
   isUploadCollectionKey(item.localKey) || isUploadCollectionKey(item.id);
 
@@ -59,7 +63,8 @@ const CollectionGroupCard: React.FC<{
   onRemoveItem: (id: string) => void;
   onRemoveGroup: (groupKey: string) => void;
   onCreateTask: (prompt: string, referenceImages: CollectionItem[]) => void;
-}> = ({ group, activeIndex, setActiveIndex, onRemoveItem, onRemoveGroup, onCreateTask }) => {
+  backendMode: boolean;
+}> = ({ group, activeIndex, setActiveIndex, onRemoveItem, onRemoveGroup, onCreateTask, backendMode }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [startX, setStartX] = useState(0);
@@ -491,6 +496,14 @@ const CollectionGroupCard: React.FC<{
                   }}
                 />
               </Tooltip>
+              {backendMode && (
+                <SharePanel
+                  type="collection"
+                  target={group.key}
+                  title="分享此分组"
+                  buttonStyle={{ height: 20, width: 20, minWidth: 20, padding: 0, fontSize: 12 }}
+                />
+              )}
               <Tooltip title="删除此卡片">
                 <Button
                   type="text"
@@ -631,6 +644,16 @@ const CollectionBox: React.FC<CollectionBoxProps> = ({
     };
   }, [collectedItems, backendMode]);
 
+  // 后端图片签名地址签发或续签后重新计算展示地址
+  useEffect(() => {
+    if (!backendMode) return;
+    const handler = () => setImageCacheVersion((prev) => prev + 1);
+    window.addEventListener('backend-image-urls-update', handler);
+    return () => {
+      window.removeEventListener('backend-image-urls-update', handler);
+    };
+  }, [backendMode]);
+
   useEffect(() => {
     return () => {
       objectUrlMapRef.current.forEach((url) => URL.revokeObjectURL(url));
@@ -638,14 +661,6 @@ const CollectionBox: React.FC<CollectionBoxProps> = ({
     };
   }, []);
 
-  const normalizePrompt = (prompt: string) =>
-    prompt.trim().replace(/\s+/g, ' ');
-
-  const buildPromptKey = (prompt: string) => {
-    const normalized = normalizePrompt(prompt);
-    return normalized ? normalized.toLowerCase() : '__empty__';
-  };
-
   const resolvedItems = useMemo(() => {
     return collectedItems.map((item) => {
       let resolvedImage = item.image;
@@ -687,8 +702,8 @@ const CollectionBox: React.FC<CollectionBoxProps> = ({
     const sortedItems = [...resolvedItems].sort((a, b) => b.timestamp - a.timestamp);
     sortedItems.forEach((item) => {
       const rawPrompt = item.prompt || '';
-      const normalized = normalizePrompt(rawPrompt);
-      const key = buildPromptKey(rawPrompt);
+      const normalized = normalizeCollectionPrompt(rawPrompt);
+      const key = buildCollectionGroupKey(rawPrompt);
       const displayPrompt = normalized || '无提示词';
       const existing = groups.get(key);
       if (!existing) {
@@ -857,6 +872,7 @@ const CollectionBox: React.FC<CollectionBoxProps> = ({
                 onRemoveItem={onRemoveItem}
                 onRemoveGroup={onRemoveGroup}
                 onCreateTask={onCreateTask}
+                backendMode={backendMode}
               />
             ))}
           </div>
@@ -7,6 +7,7 @@ import {
   Drawer,
   Form,
   Input,
+  InputNumber,
   Radio,
   Select,
   Space,
@@ -18,22 +19,47 @@ import {
 } from 'antd';
 import {
   ApiFilled,
+  DeleteOutlined,
   ExperimentFilled,
   KeyOutlined,
+  PlusOutlined,
   ReloadOutlined,
   SafetyCertificateFilled,
   SettingFilled,
   ThunderboltFilled,
+  UserOutlined,
 } from '@ant-design/icons';
 import type { FormInstance } from 'antd/es/form';
+import { v4 as uuidv4 } from 'uuid';
 import type { AppConfig } from '../types/app';
 import type { ApiFormat } from '../utils/apiUrl';
 import { API_VERSION_OPTIONS, DEFAULT_API_BASES } from '../utils/apiUrl';
 import { ASPECT_RATIO_OPTIONS, IMAGE_SIZE_OPTIONS, SAFETY_OPTIONS } from '../app/constants';
 import LazySliderInput from '../shared/ui/LazySliderInput';
+import BackendSessionList from './BackendSessionList';
 
 const { Text } = Typography;
 
+const API_FORMAT_OPTIONS = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'vertex', label: 'Vertex' },
+];
+
+const PROFILE_CARD_STYLE: React.CSSProperties = {
+  background: '#fff',
+  border: '1px solid #eee',
+  borderRadius: 12,
+  padding: '12px 12px 4px',
+  marginBottom: 12,
+};
+
+// 密钥在表单里以「每行一个」的文本编辑，存储时保持数组
+const joinApiKeys = (value: unknown) => ({
+  value: Array.isArray(value) ? value.join('\n') : '',
+});
+const splitApiKeys = (value: unknown) => (typeof value === 'string' ? value.split('\n') : []);
+
 interface ConfigDrawerProps {
   visible: boolean;
   config: AppConfig;
@@ -50,6 +76,8 @@ interface ConfigDrawerProps {
   backendAuthPending: boolean;
   backendPassword: string;
   onBackendPasswordChange: (value: string) => void;
+  backendUsername: string;
+  onBackendUsernameChange: (value: string) => void;
   onBackendEnable: () => void;
   onBackendDisable: () => void;
   onBackendAuthCancel: () => void;
@@ -72,6 +100,8 @@ const ConfigDrawer: React.FC<ConfigDrawerProps> = ({
   backendAuthPending,
   backendPassword,
   onBackendPasswordChange,
+  backendUsername,
+  onBackendUsernameChange,
   onBackendEnable,
   onBackendDisable,
   onBackendAuthCancel,
@@ -217,6 +247,251 @@ const ConfigDrawer: React.FC<ConfigDrawerProps> = ({
         </Form.Item>
       </div>
 
+      <Collapse
+        ghost
+        items={[
+          {
+            key: 'retry',
+            label: <span style={{ fontWeight: 700, color: '#665555' }}>重试策略</span>,
+            style: { background: '#F8F9FA', borderRadius: 16, border: '1px solid #eee', marginBottom: 24 },
+            children: (
+              <div>
+                <Row gutter={12}>
+                  <Col span={12}>
+                    <Form.Item
+                      name={['retryPolicy', 'maxAttempts']}
+                      label={<span style={{ fontWeight: 600, color: '#665555' }}>最大尝试次数</span>}
+                      extra="0 表示不限制"
+                      style={{ marginBottom: 8 }}
+                    >
+                      <InputNumber min={0} max={1000} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item
+                      name={['retryPolicy', 'baseDelayMs']}
+                      label={<span style={{ fontWeight: 600, color: '#665555' }}>初始间隔 (ms)</span>}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <InputNumber min={0} max={3600000} step={500} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item
+                      name={['retryPolicy', 'backoffFactor']}
+                      label={<span style={{ fontWeight: 600, color: '#665555' }}>退避倍数</span>}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <InputNumber min={1} max={10} step={0.5} style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item
+                      name={['retryPolicy', 'jitterPercent']}
+                      label={<span style={{ fontWeight: 600, color: '#665555' }}>随机抖动 (%)</span>}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <InputNumber min={0} max={100} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item
+                      name={['retryPolicy', 'maxDelayMs']}
+                      label={<span style={{ fontWeight: 600, color: '#665555' }}>最大间隔 (ms)</span>}
+                      style={{ marginBottom: 0 }}
+                    >
+                      <InputNumber min={0} max={3600000} step={1000} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                  </Col>
+                </Row>
+              </div>
+            ),
+          },
+        ]}
+      />
+
+      <Collapse
+        ghost
+        items={[
+          {
+            key: 'providers',
+            label: <span style={{ fontWeight: 700, color: '#665555' }}>供应商配置</span>,
+            style: { background: '#F8F9FA', borderRadius: 16, border: '1px solid #eee', marginBottom: 24 },
+            children: (
+              <div>
+                <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 12 }}>
+                  任务可单独选择供应商或供应商池；多个密钥轮流使用，遇到额度不足、限流或 5xx 时自动切换到下一个。
+                </Text>
+                <Form.List name="providerProfiles">
+                  {(fields, { add, remove }) => (
+                    <div>
+                      {fields.map((field) => (
+                        <div key={field.key} style={PROFILE_CARD_STYLE}>
+                          <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                            <Form.Item name={[field.name, 'name']} noStyle>
+                              <Input placeholder="配置名称" />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'apiFormat']} noStyle>
+                              <Select options={API_FORMAT_OPTIONS} style={{ width: 110, flexShrink: 0 }} />
+                            </Form.Item>
+                            <Button
+                              type="text"
+                              danger
+                              icon={<DeleteOutlined />}
+                              onClick={() => remove(field.name)}
+                            />
+                          </div>
+                          <Form.Item name={[field.name, 'apiUrl']} style={{ marginBottom: 8 }}>
+                            <Input placeholder="API 接口地址" prefix={<ApiFilled style={{ color: '#FF9EB5' }} />} />
+                          </Form.Item>
+                          <Form.Item name={[field.name, 'model']} style={{ marginBottom: 8 }}>
+                            <Input placeholder="模型名称" prefix={<ExperimentFilled style={{ color: '#FF9EB5' }} />} />
+                          </Form.Item>
+                          <Form.Item
+                            name={[field.name, 'apiKeys']}
+                            getValueProps={joinApiKeys}
+                            normalize={splitApiKeys}
+                            extra="每行一个密钥"
+                            style={{ marginBottom: 8 }}
+                          >
+                            <Input.TextArea rows={2} placeholder="sk-..." />
+                          </Form.Item>
+                        </div>
+                      ))}
+                      <Button
+                        block
+                        type="dashed"
+                        icon={<PlusOutlined />}
+                        onClick={() =>
+                          add({
+                            id: uuidv4(),
+                            name: `供应商 ${fields.length + 1}`,
+                            apiFormat: 'openai',
+                            apiUrl: '',
+                            apiKeys: [],
+                            model: '',
+                          })
+                        }
+                        style={{ marginBottom: 16 }}
+                      >
+                        添加供应商
+                      </Button>
+                    </div>
+                  )}
+                </Form.List>
+
+                <Form.Item
+                  noStyle
+                  shouldUpdate={(prev, cur) => prev.providerProfiles !== cur.providerProfiles}
+                >
+                  {({ getFieldValue }) => {
+                    const profiles = (getFieldValue('providerProfiles') || []) as AppConfig['providerProfiles'];
+                    const profileOptions = (profiles || [])
+                      .filter((profile) => profile?.id)
+                      .map((profile) => ({ value: profile.id, label: profile.name || profile.id }));
+                    return (
+                      <Form.List name="providerPools">
+                        {(fields, { add, remove }) => (
+                          <div>
+                            {fields.map((field) => (
+                              <div key={field.key} style={PROFILE_CARD_STYLE}>
+                                <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                                  <Form.Item name={[field.name, 'name']} noStyle>
+                                    <Input placeholder="池名称" />
+                                  </Form.Item>
+                                  <Button
+                                    type="text"
+                                    danger
+                                    icon={<DeleteOutlined />}
+                                    onClick={() => remove(field.name)}
+                                  />
+                                </div>
+                                <Form.Item name={[field.name, 'profileIds']} style={{ marginBottom: 8 }}>
+                                  <Select mode="multiple" placeholder="按顺序选择参与轮询的供应商" options={profileOptions} />
+                                </Form.Item>
+                              </div>
+                            ))}
+                            <Button
+                              block
+                              type="dashed"
+                              icon={<PlusOutlined />}
+                              disabled={profileOptions.length === 0}
+                              onClick={() =>
+                                add({ id: uuidv4(), name: `供应商池 ${fields.length + 1}`, profileIds: [] })
+                              }
+                            >
+                              添加供应商池
+                            </Button>
+                          </div>
+                        )}
+                      </Form.List>
+                    );
+                  }}
+                </Form.Item>
+              </div>
+            ),
+          },
+        ]}
+      />
+
+      <Collapse
+        ghost
+        items={[
+          {
+            key: 'pricing',
+            label: <span style={{ fontWeight: 700, color: '#665555' }}>价格表</span>,
+            style: { background: '#F8F9FA', borderRadius: 16, border: '1px solid #eee', marginBottom: 24 },
+            children: (
+              <div>
+                <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 12 }}>
+                  按模型估算花费（美元）。模型名支持以 * 结尾的前缀匹配；token 单价按每百万计，图片单价按张计。
+                </Text>
+                <Form.List name="priceTable">
+                  {(fields, { add, remove }) => (
+                    <div>
+                      {fields.map((field) => (
+                        <div key={field.key} style={PROFILE_CARD_STYLE}>
+                          <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                            <Form.Item name={[field.name, 'model']} noStyle>
+                              <Input placeholder="模型名称，如 gemini-*" />
+                            </Form.Item>
+                            <Button
+                              type="text"
+                              danger
+                              icon={<DeleteOutlined />}
+                              onClick={() => remove(field.name)}
+                            />
+                          </div>
+                          <Space.Compact block>
+                            <Form.Item name={[field.name, 'inputPrice']} noStyle>
+                              <InputNumber min={0} step={0.1} placeholder="输入 $/1M" style={{ width: '33%' }} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'outputPrice']} noStyle>
+                              <InputNumber min={0} step={0.1} placeholder="输出 $/1M" style={{ width: '33%' }} />
+                            </Form.Item>
+                            <Form.Item name={[field.name, 'imagePrice']} noStyle>
+                              <InputNumber min={0} step={0.01} placeholder="每张 $" style={{ width: '34%' }} />
+                            </Form.Item>
+                          </Space.Compact>
+                        </div>
+                      ))}
+                      <Button
+                        block
+                        type="dashed"
+                        icon={<PlusOutlined />}
+                        onClick={() => add({ model: '', inputPrice: 0, outputPrice: 0, imagePrice: 0 })}
+                      >
+                        添加模型价格
+                      </Button>
+                    </div>
+                  )}
+                </Form.List>
+              </div>
+            ),
+          },
+        ]}
+      />
+
       <Form.Item noStyle shouldUpdate={(prev, cur) => prev.apiFormat !== cur.apiFormat}>
         {({ getFieldValue }) => {
           const apiFormat = getFieldValue('apiFormat') || 'openai';
@@ -414,15 +689,25 @@ const ConfigDrawer: React.FC<ConfigDrawerProps> = ({
         </Form.Item>
         <div style={{ marginTop: 16 }}>
           <Text type="secondary" style={{ fontSize: 12, color: '#6B7280', lineHeight: 1.5, display: 'block' }}>
-            需要在服务端 .env 中设置 BACKEND_PASSWORD。开启后生图请求将由服务器执行并自动缓存。
+            需要在服务端 .env 中设置 BACKEND_PASSWORD，或用 npm run users 创建账号。开启后生图请求将由服务器执行并自动缓存。
           </Text>
         </div>
+        {backendMode && <BackendSessionList visible={visible} onLogout={onBackendDisable} />}
         <div className={`password-collapse-container ${backendAuthPending && !backendMode ? 'open' : ''}`}>
           <div className="password-content-wrapper">
             <Space direction="vertical" size={8} style={{ width: '100%' }}>
               <Text type="secondary" style={{ fontSize: 12, color: '#6B7280' }}>
-                请输入 .env 中配置的 BACKEND_PASSWORD。
+                请输入 .env 中配置的 BACKEND_PASSWORD；服务端启用多用户时需填写用户名。
               </Text>
+              <Input
+                size="large"
+                value={backendUsername}
+                placeholder="用户名（单密码模式留空）"
+                autoComplete="username"
+                prefix={<UserOutlined style={{ color: '#FF9EB5', fontSize: 18 }} />}
+                onChange={(e) => onBackendUsernameChange(e.target.value)}
+                onPressEnter={() => void onBackendAuthConfirm()}
+              />
               <Input.Password
                 size="large"
                 value={backendPassword}
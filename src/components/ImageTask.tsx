@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { 
   Input, Button, Upload, message, Spin, Image, 
-  Space, Typography, Tooltip, Progress
+  Space, Typography, Tooltip, Progress, Select, Tag
 } from 'antd';
 import { 
   UploadOutlined, DeleteFilled, ReloadOutlined, 
@@ -27,28 +27,69 @@ import type {
 import type { CollectionItem } from '../types/collection';
 import { DEFAULT_TASK_STATS, loadTaskState, saveTaskState, serializeResults, TASK_STATE_VERSION } from './imageTaskState';
 import { getBase64 } from '../utils/file';
-import { parseMarkdownImage, resolveImageFromResponse } from '../utils/imageResponse';
+import {
+  mergeGeminiStreamChunks,
+  mergeOpenAiStreamChunks,
+  parseImageResponse,
+  type ParsedImageResponse,
+  type ResponseUsage,
+} from '../utils/imageResponse';
 import { openImageDb, IMAGE_STORE_NAME } from '../utils/imageDb';
+import { buildProviderRequest, type ProviderReference } from '../../shared/providerRequest.mjs';
+import {
+  describeProviderSelection,
+  normalizeProviderPools,
+  normalizeProviderProfiles,
+  POOL_SELECTION_PREFIX,
+  PROFILE_SELECTION_PREFIX,
+  resolvePrimaryProviderConfig,
+  resolveProviderCandidates,
+  runWithProviderFailover,
+} from '../utils/providerProfiles';
+import { applyTaskOverrides, normalizeTaskOverrides, type TaskOverrides } from '../utils/taskOverrides';
+import TaskOverridePanel, { describeTaskOverrides } from './TaskOverridePanel';
+import TaskSchedulePanel from './TaskSchedulePanel';
+import SharePanel from './SharePanel';
 import {
-  extractVertexProjectId,
-  inferApiVersionFromUrl,
-  normalizeApiBase,
-  resolveApiUrl,
-  resolveApiVersion,
-} from '../utils/apiUrl';
+  addUsageToStats,
+  computeUsageCost,
+  findModelPrice,
+  formatCost,
+  formatTokenCount,
+  normalizeUsage,
+} from '../utils/usageCost';
 import { calculateSuccessRate, formatDuration } from '../utils/stats';
+import {
+  computeRetryDelay,
+  formatRetryDelay,
+  formatRateLimitTime,
+  formatRetryTime,
+  hasRetryAttemptsLeft,
+  normalizeRetryPolicy,
+} from '../utils/retryPolicy';
+import {
+  createProviderError,
+  describeErrorKind,
+  detectSafetyBlock,
+  extractProviderErrorDetail,
+  isPermanentErrorKind,
+  readProviderError,
+  resolveErrorKind,
+} from '../utils/providerError';
 import { buildPromptKey } from '../utils/prompt';
 import {
   buildBackendImageUrl,
   cleanupBackendImages,
+  extractBackendImageKey,
   fetchBackendTask,
   generateBackendTask,
-  getBackendToken,
   patchBackendTask,
   retryBackendSubTask,
+  saveImageToServer,
   stopBackendSubTask,
   uploadBackendImage,
   stripBackendToken,
+  type BackendQueueSnapshot,
 } from '../utils/backendApi';
 import { useDebouncedSync, useInputGuard } from '../utils/inputSync';
 
@@ -62,6 +103,7 @@ interface ImageTaskProps {
   backendMode: boolean;
   onRemove: () => void;
   onStatsUpdate: (type: 'request' | 'success' | 'fail', duration?: number) => void;
+  onUsageUpdate?: (usage: ResponseUsage | null, cost: number) => void;
   onCollect?: (item: CollectionItem) => void;
   collectionRevision?: number;
   dragAttributes?: any;
@@ -69,6 +111,12 @@ interface ImageTaskProps {
 }
 const SUCCESS_AUDIO_SRC = 'https://actions.google.com/sounds/v1/cartoon/magic_chime.ogg';
 const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_IMAGES_PER_REQUEST = 1;
+const MAX_IMAGES_PER_REQUEST = 8;
+const IMAGES_PER_REQUEST_OPTIONS = Array.from({ length: MAX_IMAGES_PER_REQUEST }).map((_, index) => ({
+  label: `${index + 1}`,
+  value: index + 1,
+}));
 
 type UploadFileWithMeta = UploadFile & {
   localKey?: string;
@@ -97,7 +145,12 @@ const normalizeStoredResult = (item: PersistedSubTaskResult, backendMode: boolea
     id: item.id,
     status: shouldMarkInterrupted ? 'error' : item.status,
     error: shouldMarkInterrupted ? '刷新后已中断' : item.error,
+    errorKind: shouldMarkInterrupted ? undefined : item.errorKind,
     retryCount: typeof item.retryCount === 'number' ? item.retryCount : 0,
+    nextRetryAt: shouldMarkInterrupted ? undefined : item.nextRetryAt,
+    rateLimitedUntil: shouldMarkInterrupted ? undefined : item.rateLimitedUntil,
+    usage: item.usage,
+    cost: item.cost,
     startTime: item.startTime,
     endTime: item.endTime,
     duration: item.duration,
@@ -139,7 +192,14 @@ const normalizeConcurrency = (value: unknown, fallback = DEFAULT_CONCURRENCY) =>
   return Math.max(1, Math.floor(value));
 };
 
-const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMode, onRemove, onStatsUpdate, onCollect, collectionRevision, dragAttributes, dragListeners }: ImageTaskProps) => {
+const normalizeImagesPerRequest = (value: unknown) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return DEFAULT_IMAGES_PER_REQUEST;
+  return Math.min(MAX_IMAGES_PER_REQUEST, Math.max(1, Math.floor(value)));
+};
+
+const normalizeProviderSelection = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMode, onRemove, onStatsUpdate, onUsageUpdate, onCollect, collectionRevision, dragAttributes, dragListeners }: ImageTaskProps) => {
   const [prompt, setPrompt] = useState('');
   const promptRef = useRef(prompt);
   const promptFocusedRef = useRef(false);
@@ -147,6 +207,10 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
   const fileListRef = useRef<UploadFileWithMeta[]>(fileList);
   const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
   const [concurrencyInput, setConcurrencyInput] = useState<string>(String(DEFAULT_CONCURRENCY));
+  const [imagesPerRequest, setImagesPerRequest] = useState<number>(DEFAULT_IMAGES_PER_REQUEST);
+  const imagesPerRequestRef = useRef(imagesPerRequest);
+  const [providerSelection, setProviderSelection] = useState<string>('');
+  const [overrides, setOverrides] = useState<TaskOverrides>({});
   const [enableSound, setEnableSound] = useState<boolean>(true);
   
   const [results, setResults] = useState<SubTaskResult[]>([]);
@@ -154,11 +218,14 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
   const [stats, setStats] = useState<TaskStats>({ ...DEFAULT_TASK_STATS });
   const [hydrated, setHydrated] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [queuePositions, setQueuePositions] = useState<Record<string, number>>({});
+  const [queuePausedUntil, setQueuePausedUntil] = useState<Record<string, number>>({});
   
   const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
   const isRetryingRef = useRef<Map<string, boolean>>(new Map());
   const taskStartTimesRef = useRef<Map<string, number>>(new Map());
   const retryTimersRef = useRef<Map<string, number>>(new Map());
+  const retryAttemptsRef = useRef<Map<string, number>>(new Map());
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const prevResultsRef = useRef<SubTaskResult[]>([]);
   const dbPromiseRef = useRef<Promise<IDBDatabase> | null>(null);
@@ -169,15 +236,37 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
   const requestContextByResultIdRef = useRef<Map<string, CollectionRequestSnapshot>>(new Map());
   const lastCollectionRevisionRef = useRef(collectionRevision);
   const promptGuard = useInputGuard({ isEditing: () => promptFocusedRef.current });
+  const providerOptions = React.useMemo(() => {
+    const profiles = normalizeProviderProfiles(config.providerProfiles);
+    const pools = normalizeProviderPools(config.providerPools);
+    if (profiles.length === 0 && pools.length === 0) return [];
+    return [
+      { value: '', label: '默认配置' },
+      ...profiles.map((profile) => ({
+        value: `${PROFILE_SELECTION_PREFIX}${profile.id}`,
+        label: profile.name || profile.id,
+      })),
+      ...pools.map((pool) => ({
+        value: `${POOL_SELECTION_PREFIX}${pool.id}`,
+        label: `池 · ${pool.name || pool.id}`,
+      })),
+    ];
+  }, [config.providerProfiles, config.providerPools]);
+  const overrideLabels = describeTaskOverrides(overrides);
+  const providerSelectionLabel =
+    providerSelection && !describeProviderSelection(config, providerSelection) ? '已删除的配置' : undefined;
   const backendPayload = React.useMemo(() => {
     if (!backendMode || !hydrated) return null;
     return {
       prompt,
       concurrency,
+      imagesPerRequest,
+      providerSelection,
+      overrides,
       enableSound,
       uploads: normalizeUploadsPayload(serializeUploads(fileList)),
     };
-  }, [backendMode, hydrated, prompt, concurrency, enableSound, fileList]);
+  }, [backendMode, hydrated, prompt, concurrency, imagesPerRequest, providerSelection, overrides, enableSound, fileList]);
   const taskSync = useDebouncedSync({
     enabled: backendMode && hydrated,
     payload: backendPayload,
@@ -195,33 +284,17 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
   } = promptGuard;
   const { markSynced: markTaskSynced } = taskSync;
 
-  const withBackendToken = (url: string) => {
-    const cleaned = stripBackendToken(url);
-    const token = getBackendToken();
-    if (!token) return cleaned;
-    return cleaned.includes('?')
-      ? `${cleaned}&token=${encodeURIComponent(token)}`
-      : `${cleaned}?token=${encodeURIComponent(token)}`;
-  };
-
   const resolveBackendDisplayUrl = (localKey?: string, sourceUrl?: string) => {
     if (localKey) {
       return buildBackendImageUrl(localKey);
     }
     if (sourceUrl) {
-      return sourceUrl.includes('/api/backend/image/')
-        ? withBackendToken(sourceUrl)
-        : sourceUrl;
+      const imageKey = extractBackendImageKey(sourceUrl);
+      return imageKey ? buildBackendImageUrl(imageKey) : sourceUrl;
     }
     return undefined;
   };
 
-  const extractBackendImageKey = (url?: string) => {
-    if (!url) return undefined;
-    const match = url.match(/\/api\/backend\/image\/([^?]+)/);
-    return match ? decodeURIComponent(match[1]) : undefined;
-  };
-
   const applyBackendTaskState = (
     stored: PersistedImageTaskState,
     options: { preserveUploads?: boolean; preservePrompt?: boolean } = {},
@@ -232,11 +305,17 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
       options.preservePrompt ||
       shouldPreservePromptInput(nextPrompt, currentPrompt);
     const nextConcurrency = normalizeConcurrency(stored.concurrency, DEFAULT_CONCURRENCY);
+    const nextImagesPerRequest = normalizeImagesPerRequest(stored.imagesPerRequest);
+    const nextProviderSelection = normalizeProviderSelection(stored.providerSelection);
+    const nextOverrides = normalizeTaskOverrides(stored.overrides);
     const nextEnableSound = typeof stored.enableSound === 'boolean' ? stored.enableSound : true;
     const storedUploads = Array.isArray(stored.uploads) ? stored.uploads : [];
     markTaskSynced({
       prompt: nextPrompt,
       concurrency: nextConcurrency,
+      imagesPerRequest: nextImagesPerRequest,
+      providerSelection: nextProviderSelection,
+      overrides: nextOverrides,
       enableSound: nextEnableSound,
       uploads: normalizeUploadsPayload(storedUploads),
     });
@@ -250,6 +329,9 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     }
     setConcurrency(nextConcurrency);
     setConcurrencyInput(String(nextConcurrency));
+    setImagesPerRequest(nextImagesPerRequest);
+    setProviderSelection(nextProviderSelection);
+    setOverrides(nextOverrides);
     setEnableSound(nextEnableSound);
     setStats({ ...DEFAULT_TASK_STATS, ...(stored.stats || {}) });
 
@@ -321,6 +403,9 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
         const nextConcurrency = normalizeConcurrency(stored.concurrency, DEFAULT_CONCURRENCY);
         setConcurrency(nextConcurrency);
         setConcurrencyInput(String(nextConcurrency));
+        setImagesPerRequest(normalizeImagesPerRequest(stored.imagesPerRequest));
+        setProviderSelection(normalizeProviderSelection(stored.providerSelection));
+        setOverrides(normalizeTaskOverrides(stored.overrides));
         setEnableSound(typeof stored.enableSound === 'boolean' ? stored.enableSound : true);
         setStats({ ...DEFAULT_TASK_STATS, ...(stored.stats || {}) });
         const storedResults = Array.isArray(stored.results) ? stored.results : [];
@@ -401,6 +486,11 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     promptRef.current = prompt;
   }, [prompt]);
 
+  // 定时器触发的重试拿到的是旧闭包，需要从 ref 读取当前的每次生成张数
+  useEffect(() => {
+    imagesPerRequestRef.current = imagesPerRequest;
+  }, [imagesPerRequest]);
+
   useEffect(() => {
     fileListRef.current = fileList;
   }, [fileList]);
@@ -423,13 +513,16 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
       version: TASK_STATE_VERSION,
       prompt,
       concurrency,
+      imagesPerRequest,
+      providerSelection,
+      overrides,
       enableSound,
       results: serializeResults(results),
       uploads: serializeUploads(fileList),
       stats,
     };
     saveTaskState(storageKey, payload);
-  }, [prompt, concurrency, enableSound, results, stats, storageKey, hydrated, fileList, backendMode]);
+  }, [prompt, concurrency, imagesPerRequest, providerSelection, overrides, enableSound, results, stats, storageKey, hydrated, fileList, backendMode]);
 
   useEffect(() => {
     if (!backendMode) return;
@@ -454,6 +547,48 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     };
   }, [backendMode, id, fileList]);
 
+  // 图片签名地址签发或续签后，重新生成结果与参考图的显示地址
+  useEffect(() => {
+    if (!backendMode) return;
+    const handler = () => {
+      setResults((prev) =>
+        prev.map((result) => {
+          if (!result.localKey && !extractBackendImageKey(result.sourceUrl)) return result;
+          const displayUrl = resolveBackendDisplayUrl(result.localKey, result.sourceUrl);
+          return displayUrl === result.displayUrl ? result : { ...result, displayUrl };
+        }),
+      );
+      setFileList((prev) =>
+        prev.map((file) => {
+          if (!file.localKey) return file;
+          const thumbUrl = buildBackendImageUrl(file.localKey);
+          return thumbUrl === file.thumbUrl ? file : { ...file, thumbUrl };
+        }),
+      );
+    };
+    window.addEventListener('backend-image-urls-update', handler);
+    return () => {
+      window.removeEventListener('backend-image-urls-update', handler);
+    };
+  }, [backendMode]);
+
+  useEffect(() => {
+    if (!backendMode) {
+      setQueuePositions({});
+      setQueuePausedUntil({});
+      return;
+    }
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent).detail as BackendQueueSnapshot | undefined;
+      setQueuePositions(detail?.positions?.[id] || {});
+      setQueuePausedUntil(detail?.pausedUntil?.[id] || {});
+    };
+    window.addEventListener('backend-queue-update', handler as EventListener);
+    return () => {
+      window.removeEventListener('backend-queue-update', handler as EventListener);
+    };
+  }, [backendMode, id]);
+
   useEffect(() => {
     if (!backendMode) return;
     setIsGlobalLoading(results.some((result) => result.status === 'loading'));
@@ -877,10 +1012,6 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     });
   };
 
-  const apiMarkerSegments = new Set(['projects', 'locations', 'publishers', 'models']);
-  const apiVersionPattern = /^v1(?:beta1|beta)?$/i;
-  const isVersionSegment = (value?: string) =>
-    Boolean(value && apiVersionPattern.test(value));
 
   const normalizeBase64Payload = (value: string) => value.replace(/\s+/g, '');
   const clampNumber = (value: number, min: number, max: number) =>
@@ -895,10 +1026,11 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
   };
 
   const resolveWebpQuality = () => {
-    if (typeof config.webpQuality !== 'number' || Number.isNaN(config.webpQuality)) {
+    const { webpQuality } = applyTaskOverrides(config, overrides);
+    if (typeof webpQuality !== 'number' || Number.isNaN(webpQuality)) {
       return null;
     }
-    return clampNumber(Math.round(config.webpQuality), 50, 100);
+    return clampNumber(Math.round(webpQuality), 50, 100);
   };
 
   const convertDataUrlToWebp = (dataUrl: string, quality: number) =>
@@ -958,209 +1090,18 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     }
   };
 
-  const buildGeminiContents = async () => {
-    const parts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = [];
-    const promptText = promptRef.current.trim();
-    if (promptText) {
-      parts.push({ text: promptText });
-    }
+  const buildReferences = async (convertToWebp: boolean) => {
+    const references: ProviderReference[] = [];
     for (const file of fileList) {
       if (!file.originFileObj) continue;
       const base64 = await getBase64(file.originFileObj);
-      const converted = await maybeConvertToWebp(base64);
-      const resolvedMime = converted.mimeType || file.type || 'image/png';
-      const payload = normalizeBase64Payload(converted.data);
-      parts.push({ inline_data: { mime_type: resolvedMime, data: payload } });
-    }
-    return [{ role: 'user', parts }];
-  };
-
-  const buildGeminiGenerationConfig = () => {
-    const generationConfig: Record<string, unknown> = {};
-    if (config.includeImageConfig) {
-      const imageSize = config.imageConfig?.imageSize || '2K';
-      const aspectRatio = config.imageConfig?.aspectRatio || 'auto';
-      const imageConfig: Record<string, string> = { imageSize };
-      if (aspectRatio && aspectRatio !== 'auto') {
-        imageConfig.aspectRatio = aspectRatio;
-      }
-      generationConfig.imageConfig = imageConfig;
-      if (config.useResponseModalities) {
-        generationConfig.responseModalities = ['TEXT', 'IMAGE'];
-      }
-    }
-    if (config.includeThoughts) {
-      const budget = clampNumber(
-        Math.round(typeof config.thinkingBudget === 'number' ? config.thinkingBudget : 128),
-        0,
-        8192,
-      );
-      generationConfig.thinkingConfig = {
-        thinkingBudget: budget,
-        includeThoughts: true,
-      };
-    }
-    return Object.keys(generationConfig).length > 0 ? generationConfig : null;
-  };
-
-  const buildGeminiSafetySettings = () => {
-    if (!config.includeSafetySettings || !config.safety) return null;
-    const entries = Object.entries(config.safety).filter(
-      ([, threshold]) => threshold && threshold !== 'OFF',
-    );
-    if (entries.length === 0) return null;
-    return entries.map(([category, threshold]) => ({
-      category,
-      threshold,
-    }));
-  };
-
-  const mergeGeminiCustomJson = (payload: Record<string, unknown>) => {
-    const raw = typeof config.customJson === 'string' ? config.customJson.trim() : '';
-    if (!raw) return payload;
-    try {
-      const custom = JSON.parse(raw);
-      if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
-        return payload;
-      }
-      const mergedGenerationConfig = {
-        ...(payload.generationConfig as Record<string, unknown> | undefined),
-        ...(custom.generationConfig || {}),
-      };
-      return {
-        ...payload,
-        ...custom,
-        generationConfig:
-          Object.keys(mergedGenerationConfig).length > 0 ? mergedGenerationConfig : undefined,
-        safetySettings: custom.safetySettings ?? payload.safetySettings,
-      };
-    } catch (err) {
-      console.warn('自定义 JSON 解析失败，已忽略。', err);
-      return payload;
-    }
-  };
-
-  const buildGeminiPayload = (contents: Array<Record<string, unknown>>) => {
-    const payload: Record<string, unknown> = { contents };
-    const generationConfig = buildGeminiGenerationConfig();
-    if (generationConfig) {
-      payload.generationConfig = generationConfig;
-    }
-    const safetySettings = buildGeminiSafetySettings();
-    if (safetySettings) {
-      payload.safetySettings = safetySettings;
-    }
-    return mergeGeminiCustomJson(payload);
-  };
-
-  const buildGeminiRequest = () => {
-    const apiFormat = config.apiFormat || 'openai';
-    const format = apiFormat === 'vertex' ? 'vertex' : 'gemini';
-    const apiUrl = resolveApiUrl(config.apiUrl, format);
-    const baseInfo = normalizeApiBase(apiUrl);
-    const baseOrigin = baseInfo.origin || apiUrl.replace(/\/+$/, '');
-    const versionFallback = format === 'vertex' ? 'v1beta1' : 'v1beta';
-    const version = resolveApiVersion(apiUrl, config.apiVersion, versionFallback);
-    const hasVersion = Boolean(inferApiVersionFromUrl(apiUrl));
-    const segments = [...baseInfo.segments];
-
-    if (!hasVersion && version) {
-      const markerIndex = segments.findIndex((segment) => apiMarkerSegments.has(segment));
-      if (markerIndex >= 0) {
-        segments.splice(markerIndex, 0, version);
-      } else {
-        segments.push(version);
-      }
-    }
-
-    const modelValue = config.model.trim();
-    if (!modelValue) {
-      throw new Error('请填写模型名称');
-    }
-
-    const modelSegments = modelValue.split('/').filter(Boolean);
-    const modelHasProjectPath = modelSegments.includes('projects');
-    const geminiModelIsPath = modelSegments[0] === 'models';
-    const normalizedModel = geminiModelIsPath ? modelSegments.slice(1).join('/') : modelValue;
-
-    const applyModelPath = () => {
-      const modelIndex = segments.indexOf('models');
-      if (geminiModelIsPath) {
-        if (modelIndex >= 0 && modelSegments[0] === 'models') {
-          segments.splice(modelIndex + 1);
-          segments.push(...modelSegments.slice(1));
-        } else {
-          segments.push(...modelSegments);
-        }
-        return;
-      }
-      if (modelIndex >= 0) {
-        segments.splice(modelIndex + 1);
-        segments.push(modelValue);
-      } else {
-        segments.push('models', modelValue);
-      }
-    };
-
-    const ensureMarkerValue = (marker: string, value?: string) => {
-      const idx = segments.indexOf(marker);
-      if (idx === -1) {
-        if (!value) return false;
-        segments.push(marker, value);
-        return true;
-      }
-      const next = segments[idx + 1];
-      if (!next || apiMarkerSegments.has(next) || isVersionSegment(next)) {
-        if (!value) return false;
-        segments.splice(idx + 1, 0, value);
-        return true;
-      }
-      return true;
-    };
-
-    if (format === 'vertex') {
-      const projectId =
-        config.vertexProjectId?.trim() || extractVertexProjectId(apiUrl) || '';
-      const location = config.vertexLocation?.trim() || 'us-central1';
-      const publisher = config.vertexPublisher?.trim() || 'google';
-      const hasProjectsMarker = segments.includes('projects');
-      const useVertexMarkers = Boolean(projectId || hasProjectsMarker || modelHasProjectPath);
-
-      if (modelHasProjectPath) {
-        segments.push(...modelSegments);
-      } else if (useVertexMarkers) {
-        if (projectId) {
-          ensureMarkerValue('projects', projectId);
-        }
-        if (segments.includes('projects') || projectId) {
-          ensureMarkerValue('locations', location);
-          ensureMarkerValue('publishers', publisher);
-        }
-        if (segments.includes('projects') || projectId) {
-          ensureMarkerValue('models', normalizedModel);
-        } else {
-          applyModelPath();
-        }
-      } else {
-        applyModelPath();
-      }
-    } else {
-      applyModelPath();
-    }
-
-    const suffix = config.stream ? ':streamGenerateContent' : ':generateContent';
-    let url = `${baseOrigin}${segments.length ? `/${segments.join('/')}` : ''}${suffix}`;
-    const headers: HeadersInit = { 'Content-Type': 'application/json' };
-    const isOfficial =
-      format === 'vertex'
-        ? baseInfo.host === 'aiplatform.googleapis.com'
-        : baseInfo.host === 'generativelanguage.googleapis.com';
-    if (isOfficial) {
-      url += `${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(config.apiKey)}`;
-    } else {
-      headers.Authorization = `Bearer ${config.apiKey}`;
+      const converted = convertToWebp ? await maybeConvertToWebp(base64) : splitDataUrl(base64);
+      references.push({
+        mimeType: converted.mimeType || file.type || 'image/png',
+        data: normalizeBase64Payload(converted.data),
+      });
     }
-    return { url, headers };
+    return references;
   };
 
   const readGeminiStream = async (response: Response) => {
@@ -1170,7 +1111,7 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     }
     const decoder = new TextDecoder();
     let buffer = '';
-    let lastJson: any = null;
+    const chunks: unknown[] = [];
 
     while (true) {
       const { value, done } = await reader.read();
@@ -1185,7 +1126,7 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
         const cleaned = line.replace(/^data:\s*/i, '').trim();
         if (!cleaned || cleaned === '[DONE]') continue;
         try {
-          lastJson = JSON.parse(cleaned);
+          chunks.push(JSON.parse(cleaned));
         } catch {
           // ignore partial lines
         }
@@ -1201,14 +1142,14 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
       const cleaned = remainder.replace(/^data:\s*/i, '').trim();
       if (cleaned && cleaned !== '[DONE]') {
         try {
-          lastJson = JSON.parse(cleaned);
+          chunks.push(JSON.parse(cleaned));
         } catch {
           // ignore
         }
       }
     }
 
-    return lastJson;
+    return mergeGeminiStreamChunks(chunks);
   };
 
   const registerObjectUrl = (key: string, url: string) => {
@@ -1281,18 +1222,13 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
       const response = await fetch(imageUrl);
       if (!response.ok) return;
       const blob = await response.blob();
-      const saveResponse = await fetch('/api/save-image', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/octet-stream',
-          'X-Image-Type': blob.type || 'application/octet-stream',
-        },
-        body: blob,
-      });
-      if (!saveResponse.ok) return;
+      await saveImageToServer(blob);
       updateResult(result.id, { savedLocal: true });
     } catch (err) {
       console.warn('保存到项目目录失败:', err);
+      if ((err as { status?: number })?.status === 507) {
+        message.warning('saved-images 已超出配额，图片未保存到服务器');
+      }
     }
   };
 
@@ -1328,10 +1264,17 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     onStatsUpdate(type, duration);
   };
 
+  const updateUsage = (usage: ResponseUsage | null, cost: number) => {
+    if (!usage && !cost) return;
+    setStats((prev: TaskStats) => addUsageToStats(prev, usage, cost));
+    onUsageUpdate?.(usage, cost);
+  };
+
   const resetTaskForGenerate = (task: SubTaskResult, startTime: number): SubTaskResult => ({
     ...task,
     status: 'loading',
     error: undefined,
+    errorKind: undefined,
     displayUrl: undefined,
     localKey: undefined,
     sourceUrl: undefined,
@@ -1339,11 +1282,19 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     startTime,
     endTime: undefined,
     duration: undefined,
-    retryCount: 0
+    retryCount: 0,
+    nextRetryAt: undefined,
+    usage: undefined,
+    cost: undefined,
   });
 
   const handleGenerate = async () => {
-    if (!config.apiKey) {
+    const primaryConfig = resolvePrimaryProviderConfig(config, providerSelection);
+    if (!primaryConfig) {
+      message.error('所选供应商配置不存在，请重新选择');
+      return;
+    }
+    if (!applyTaskOverrides(primaryConfig, overrides).apiKey) {
       message.error('请先配置 API Key');
       return;
     }
@@ -1364,6 +1315,9 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
         await patchBackendTask(id, {
           prompt,
           concurrency,
+          imagesPerRequest,
+          providerSelection,
+          overrides,
           enableSound,
           uploads: serializeUploads(fileList),
         });
@@ -1418,6 +1372,7 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     // 启动所有任务（新的 + 复用的）
     [...newSubTasks, ...resetTasks].forEach(task => {
       taskStartTimesRef.current.set(task.id, startTime);
+      retryAttemptsRef.current.set(task.id, 0);
       isRetryingRef.current.set(task.id, true);
       performRequest(task.id);
     });
@@ -1444,7 +1399,8 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
       return;
     }
     clearRetryTimer(subTaskId);
-    updateResult(subTaskId, { status: 'loading', error: undefined, displayUrl: undefined, localKey: undefined, sourceUrl: undefined, savedLocal: false, startTime: Date.now() });
+    retryAttemptsRef.current.set(subTaskId, 0);
+    updateResult(subTaskId, { status: 'loading', error: undefined, errorKind: undefined, displayUrl: undefined, localKey: undefined, sourceUrl: undefined, savedLocal: false, startTime: Date.now(), retryCount: 0, nextRetryAt: undefined, usage: undefined, cost: undefined });
     taskStartTimesRef.current.set(subTaskId, Date.now());
     isRetryingRef.current.set(subTaskId, true);
     performRequest(subTaskId);
@@ -1474,7 +1430,8 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     if (!existingStartTime) {
       taskStartTimesRef.current.set(subTaskId, nextStartTime);
     }
-    updateResult(subTaskId, { status: 'loading', error: undefined, startTime: nextStartTime });
+    retryAttemptsRef.current.set(subTaskId, 0);
+    updateResult(subTaskId, { status: 'loading', error: undefined, startTime: nextStartTime, nextRetryAt: undefined });
     if (hasActiveRequest || hasPendingRetry) {
       return;
     }
@@ -1498,7 +1455,7 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     // 如果需要强制停止请求，可以调用 abortControllersRef.current.get(subTaskId)?.abort();
     // 根据需求：停止新的请求，如果有图返回还是要显示的。所以不 abort。
     // 更新状态显示为“暂停重试”
-    updateResult(subTaskId, { status: 'error', error: '已暂停重试' });
+    updateResult(subTaskId, { status: 'error', error: '已暂停重试', nextRetryAt: undefined });
   };
 
   const performRequest = async (subTaskId: string) => {
@@ -1514,150 +1471,198 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     requestContextByResultIdRef.current.set(subTaskId, requestSnapshot);
 
     try {
-      const apiFormat = config.apiFormat || 'openai';
-      const hasImage = fileList.length > 0;
-      let imageUrl: string | null = null;
-
-      if (apiFormat === 'openai') {
-        const apiUrl = resolveApiUrl(config.apiUrl, 'openai');
-        const baseInfo = normalizeApiBase(apiUrl);
-        const basePath = baseInfo.origin
-          ? `${baseInfo.origin}${baseInfo.segments.length ? `/${baseInfo.segments.join('/')}` : ''}`
-          : apiUrl.replace(/\/+$/, '');
-        const version = resolveApiVersion(apiUrl, config.apiVersion, 'v1');
-        const hasVersion = Boolean(inferApiVersionFromUrl(apiUrl));
-        const openAiBase = hasVersion ? basePath : `${basePath}/${version}`;
-        const chatUrl = openAiBase.endsWith('/chat/completions')
-          ? openAiBase
-          : `${openAiBase}/chat/completions`;
-
-        const messages: any[] = [];
-        const content: any[] = [];
-        if (prompt) {
-          content.push({ type: 'text', text: prompt });
-        }
-        if (hasImage) {
-          for (const file of fileList) {
-            if (file.originFileObj) {
-              const base64 = await getBase64(file.originFileObj);
-              content.push({
-                type: 'image_url',
-                image_url: {
-                  url: base64,
-                },
-              });
-            }
-          }
-        }
-        messages.push({
-          role: 'user',
-          content,
+      const requestWithConfig = async (requestConfig: AppConfig): Promise<ParsedImageResponse> => {
+        const apiFormat = requestConfig.apiFormat || 'openai';
+
+        const references = await buildReferences(apiFormat !== 'openai');
+        const request = buildProviderRequest(requestConfig, {
+          prompt: promptRef.current,
+          references,
+          imageCount: imagesPerRequestRef.current,
         });
-        const headers = {
-          'Authorization': `Bearer ${config.apiKey}`,
-          'x-api-key': config.apiKey,
-        };
-
-        if (config.stream) {
-          const fetchResponse = await fetch(chatUrl, {
-            method: 'POST',
-            headers: { ...headers, 'Content-Type': 'application/json' },
-            body: JSON.stringify({ model: config.model, messages, stream: true }),
-            signal: controller.signal,
-          });
 
-          if (!fetchResponse.ok) throw new Error(fetchResponse.statusText);
-
-          const reader = fetchResponse.body?.getReader();
-          const decoder = new TextDecoder();
-          let generatedText = '';
-          let pending = '';
-          const consumeLine = (line: string) => {
-            const cleaned = line.replace(/\r$/, '');
-            if (!cleaned.startsWith('data:')) return;
-            const payload = cleaned.slice(5).trimStart();
-            if (!payload || payload === '[DONE]') return;
-            try {
-              const json = JSON.parse(payload);
-              const delta = json.choices?.[0]?.delta;
-              if (delta?.content) generatedText += delta.content;
-              if (delta?.reasoning_content) generatedText += delta.reasoning_content;
-            } catch (e) { /* ignore */ }
-          };
+        if (apiFormat === 'openai') {
+          if (requestConfig.stream) {
+            const fetchResponse = await fetch(request.url, {
+              method: 'POST',
+              headers: request.headers,
+              body: JSON.stringify(request.body),
+              signal: controller.signal,
+            });
 
-          if (reader) {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              pending += decoder.decode(value, { stream: true });
-              let newlineIndex = pending.indexOf('\n');
-              while (newlineIndex >= 0) {
-                const line = pending.slice(0, newlineIndex);
-                pending = pending.slice(newlineIndex + 1);
-                consumeLine(line);
-                newlineIndex = pending.indexOf('\n');
+            if (!fetchResponse.ok) throw await readProviderError(fetchResponse);
+
+            const reader = fetchResponse.body?.getReader();
+            const decoder = new TextDecoder();
+            const chunks: unknown[] = [];
+            let pending = '';
+            const consumeLine = (line: string) => {
+              const cleaned = line.replace(/\r$/, '');
+              if (!cleaned.startsWith('data:')) return;
+              const payload = cleaned.slice(5).trimStart();
+              if (!payload || payload === '[DONE]') return;
+              try {
+                chunks.push(JSON.parse(payload));
+              } catch (e) { /* ignore */ }
+            };
+
+            if (reader) {
+              while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                pending += decoder.decode(value, { stream: true });
+                let newlineIndex = pending.indexOf('\n');
+                while (newlineIndex >= 0) {
+                  const line = pending.slice(0, newlineIndex);
+                  pending = pending.slice(newlineIndex + 1);
+                  consumeLine(line);
+                  newlineIndex = pending.indexOf('\n');
+                }
               }
+              const tail = decoder.decode();
+              if (tail) pending += tail;
             }
-            const tail = decoder.decode();
-            if (tail) pending += tail;
-          }
-          if (pending) {
-            consumeLine(pending);
+            if (pending) {
+              consumeLine(pending);
+            }
+            // n 大于 1 时各个 choice 的分块交错到达，按 index 合并后统一解析
+            return parseImageResponse(mergeOpenAiStreamChunks(chunks));
+          } else {
+            const response = await axios.post(
+              request.url,
+              request.body,
+              { headers: request.headers, signal: controller.signal }
+            );
+            const parsed = parseImageResponse(response.data);
+            if (parsed.images.length === 0) {
+              const blockMessage = detectSafetyBlock(response.data);
+              if (blockMessage) throw createProviderError(blockMessage, { kind: 'safety' });
+            }
+            return parsed;
           }
-          imageUrl = parseMarkdownImage(generatedText);
         } else {
-          const response = await axios.post(
-            chatUrl,
-            { model: config.model, messages, stream: false },
-            { headers: { ...headers, 'Content-Type': 'application/json' }, signal: controller.signal }
-          );
-          imageUrl = resolveImageFromResponse(response.data);
+          const response = await fetch(request.url, {
+            method: 'POST',
+            headers: request.headers,
+            body: JSON.stringify(request.body),
+            signal: controller.signal,
+          });
+          const data = requestConfig.stream ? await readGeminiStream(response) : await response.json();
+          if (!response.ok) {
+            const detail = extractProviderErrorDetail(data);
+            const errorMessage =
+              detail.message ||
+              (typeof data === 'string' ? data : '') ||
+              response.statusText;
+            throw createProviderError(errorMessage, { ...detail, status: response.status });
+          }
+          const parsed = parseImageResponse(data);
+          if (parsed.images.length === 0) {
+            const blockMessage = detectSafetyBlock(data);
+            if (blockMessage) throw createProviderError(blockMessage, { kind: 'safety' });
+          }
+          return parsed;
         }
-      } else {
-        const contents = await buildGeminiContents();
-        const { url, headers } = buildGeminiRequest();
-        const payload = buildGeminiPayload(contents);
-        const response = await fetch(url, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(payload),
+      };
+
+      // 选择了供应商或供应商池时，额度不足、限流与 5xx 会依次切换到下一个密钥/端点
+      // 任务级覆盖在供应商配置之后合并，保证本任务指定的模型、比例等优先生效
+      const candidates = resolveProviderCandidates(config, providerSelection).map((candidate) => ({
+        ...candidate,
+        config: applyTaskOverrides(candidate.config, overrides),
+      }));
+      const { parsed, requestConfig: usedConfig } = await runWithProviderFailover(
+        candidates,
+        async (candidate) => ({
+          parsed: await requestWithConfig(candidate.config),
+          requestConfig: candidate.config,
+        }),
+        {
+          resolveErrorKind,
           signal: controller.signal,
-        });
-        const data = config.stream ? await readGeminiStream(response) : await response.json();
-        if (!response.ok) {
-          const errorMessage =
-            data?.error?.message ||
-            (typeof data === 'string' ? data : '') ||
-            response.statusText;
-          throw new Error(errorMessage);
-        }
-        imageUrl = resolveImageFromResponse(data);
-      }
-      
+          onFailover: (candidate, err, next) => {
+            console.warn(
+              `供应商 ${candidate.profileName} (密钥 #${candidate.keyIndex + 1}) 请求失败，切换到 ${next.profileName} (密钥 #${next.keyIndex + 1}):`,
+              err,
+            );
+          },
+        },
+      );
+
+      const imageUrls = parsed.images;
+      const imageUrl = imageUrls[0];
       if (imageUrl) {
         const endTime = Date.now();
         const duration = endTime - startTime;
+        // 用量按整次请求记在第一张图上，花费按价格表中匹配到的模型计算
+        const usage = normalizeUsage(parsed.usage);
+        const cost = computeUsageCost(
+          usage,
+          findModelPrice(config.priceTable, usedConfig.model),
+          imageUrls.length,
+        );
         const { displayUrl, localKey } = await persistImageLocally(imageUrl, subTaskId);
-        updateResult(subTaskId, { status: 'success', displayUrl, localKey, sourceUrl: imageUrl, savedLocal: false, endTime, duration });
+        updateResult(subTaskId, { status: 'success', error: undefined, errorKind: undefined, displayUrl, localKey, sourceUrl: imageUrl, savedLocal: false, endTime, duration, usage: usage || undefined, cost: cost || undefined });
         updateStats('success', duration);
-        
-        if (config.enableCollection && onCollect) {
-          const collectionKey = buildResultCollectionKey(subTaskId, endTime);
-          await collectImageForCollection({
-            collectionKey,
-            sourceUrl: imageUrl,
-            sourceLocalKey: localKey,
-            prompt: requestSnapshot.prompt,
-            timestamp: endTime,
-            taskId: id,
+        updateUsage(usage, cost);
+
+        // 一次响应里的多张图各自成为独立的结果，并按「一次请求一张图」计入统计
+        const extraResults: SubTaskResult[] = [];
+        for (const extraUrl of imageUrls.slice(1)) {
+          const extraId = uuidv4();
+          const persisted = await persistImageLocally(extraUrl, extraId);
+          extraResults.push({
+            id: extraId,
+            status: 'success',
+            retryCount: 0,
+            displayUrl: persisted.displayUrl,
+            localKey: persisted.localKey,
+            sourceUrl: extraUrl,
+            savedLocal: false,
+            startTime,
+            endTime,
+            duration,
           });
+          if (persisted.displayUrl.startsWith('blob:')) {
+            registerObjectUrl(extraId, persisted.displayUrl);
+          }
+          updateStats('request');
+          updateStats('success', duration);
+        }
+        if (extraResults.length > 0) {
+          setResults((prev) => {
+            const index = prev.findIndex((item) => item.id === subTaskId);
+            if (index === -1) return [...prev, ...extraResults];
+            return [...prev.slice(0, index + 1), ...extraResults, ...prev.slice(index + 1)];
+          });
+        }
+
+        if (config.enableCollection && onCollect) {
+          const collected = [
+            { resultId: subTaskId, sourceUrl: imageUrl, localKey },
+            ...extraResults.map((item) => ({
+              resultId: item.id,
+              sourceUrl: item.sourceUrl,
+              localKey: item.localKey,
+            })),
+          ];
+          for (const item of collected) {
+            await collectImageForCollection({
+              collectionKey: buildResultCollectionKey(item.resultId, endTime),
+              sourceUrl: item.sourceUrl,
+              sourceLocalKey: item.localKey,
+              prompt: requestSnapshot.prompt,
+              timestamp: endTime,
+              taskId: id,
+            });
+          }
           collectReferenceImagesForCollection(requestSnapshot);
         }
 
         playSuccessSound();
         isRetryingRef.current.set(subTaskId, false);
       } else {
-        throw new Error('未在响应中找到图片数据');
+        throw createProviderError('未在响应中找到图片数据', { kind: 'no_image' });
       }
 
     } catch (err: any) {
@@ -1667,18 +1672,28 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
 
       console.error('Generation error:', err);
       const errorMessage = err.response?.data?.error?.message || err.message || '未知错误';
+      const errorKind = resolveErrorKind(err);
+      const isPermanent = isPermanentErrorKind(errorKind);
       updateStats('fail');
       
-      const shouldRetry = isRetryingRef.current.get(subTaskId);
+      const retryPolicy = normalizeRetryPolicy(config.retryPolicy);
+      const attemptsMade = (retryAttemptsRef.current.get(subTaskId) || 0) + 1;
+      retryAttemptsRef.current.set(subTaskId, attemptsMade);
+      const canRetry = hasRetryAttemptsLeft(retryPolicy, attemptsMade);
+      const shouldRetry = isRetryingRef.current.get(subTaskId) && canRetry && !isPermanent;
       
       if (shouldRetry) {
+        const delayMs = computeRetryDelay(retryPolicy, attemptsMade);
+        const nextRetryAt = Date.now() + delayMs;
         setResults(prev => prev.map(r => {
           if (r.id !== subTaskId) return r;
           return {
             ...r,
             status: 'loading',
-            error: `${errorMessage} (1s后重试...)`,
-            retryCount: (r.retryCount || 0) + 1
+            error: `${errorMessage} (${formatRetryDelay(delayMs)}后重试...)`,
+            errorKind,
+            retryCount: (r.retryCount || 0) + 1,
+            nextRetryAt
           };
         }));
 
@@ -1686,14 +1701,23 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
         const timerId = window.setTimeout(() => {
           clearRetryTimer(subTaskId);
         if (isRetryingRef.current.get(subTaskId)) { 
+          updateResult(subTaskId, { nextRetryAt: undefined });
           performRequest(subTaskId);
         } else {
-          updateResult(subTaskId, { status: 'error', error: '已暂停重试' });
+          updateResult(subTaskId, { status: 'error', error: '已暂停重试', nextRetryAt: undefined });
         }
-      }, 1000);
+      }, delayMs);
         retryTimersRef.current.set(subTaskId, timerId);
       } else {
-        updateResult(subTaskId, { status: 'error', error: errorMessage });
+        isRetryingRef.current.set(subTaskId, false);
+        updateResult(subTaskId, {
+          status: 'error',
+          error: canRetry || isPermanent
+            ? errorMessage
+            : `${errorMessage} (已达最大尝试次数 ${retryPolicy.maxAttempts})`,
+          errorKind,
+          nextRetryAt: undefined,
+        });
       }
     } finally {
       abortControllersRef.current.delete(subTaskId);
@@ -1727,7 +1751,7 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
     setResults((prev) =>
       prev.map((item) => {
         if (item.status !== 'loading') return item;
-        return { ...item, status: 'error', error: '已停止', endTime: Date.now() };
+        return { ...item, status: 'error', error: '已停止', endTime: Date.now(), nextRetryAt: undefined };
       }),
     );
     message.info('已停止所有请求');
@@ -1863,6 +1887,8 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
   const averageTime = stats.successCount > 0 
     ? formatDuration(stats.totalTime / stats.successCount)
     : '0.0s';
+  const taskTokens =
+    (stats.promptTokens || 0) + (stats.completionTokens || 0) + (stats.thoughtsTokens || 0);
   
   const fastestTimeStr = formatDuration(stats.fastestTime);
   const slowestTimeStr = formatDuration(stats.slowestTime);
@@ -1951,15 +1977,31 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
             <PictureFilled style={{ fontSize: 14 }} />
           </div>
           <Text strong style={{ fontSize: 14, color: '#665555' }}>任务 #{id.slice(0, 6).toUpperCase()}</Text>
+          {overrideLabels.length > 0 && (
+            <Tooltip title="本任务已覆盖全局生成参数">
+              <Tag
+                color="magenta"
+                bordered={false}
+                style={{ marginInlineEnd: 0, fontSize: 10, maxWidth: 160, overflow: 'hidden', textOverflow: 'ellipsis' }}
+              >
+                {overrideLabels.join(' · ')}
+              </Tag>
+            </Tooltip>
+          )}
+        </Space>
+        <Space size={0}>
+          {backendMode && <SharePanel type="task" target={id} title="分享任务结果" />}
+          {backendMode && <TaskSchedulePanel taskId={id} />}
+          <TaskOverridePanel value={overrides} config={config} onChange={setOverrides} />
+          <Button 
+            type="text" 
+            danger 
+            icon={<DeleteFilled />} 
+            onClick={onRemove} 
+            size="small"
+            style={{ color: '#FFB7C5' }} 
+          />
         </Space>
-        <Button 
-          type="text" 
-          danger 
-          icon={<DeleteFilled />} 
-          onClick={onRemove} 
-          size="small"
-          style={{ color: '#FFB7C5' }} 
-        />
       </div>
 
       {/* Stats Bar - 紧凑设计 */}
@@ -2000,6 +2042,16 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
             <div style={{ fontWeight: 700, color: '#9C27B0' }}>{averageTime}</div>
           </div>
         </div>
+        {(taskTokens > 0 || (stats.totalCost || 0) > 0) && (
+          <Tooltip
+            title={`输入 ${formatTokenCount(stats.promptTokens)} · 输出 ${formatTokenCount(stats.completionTokens)} · 思考 ${formatTokenCount(stats.thoughtsTokens)}`}
+          >
+            <div style={{ marginTop: 8, textAlign: 'center', color: '#998888', fontSize: 10 }}>
+              Tokens <span style={{ fontWeight: 700, color: '#FF7043' }}>{formatTokenCount(taskTokens)}</span>
+              {' · '}花费 <span style={{ fontWeight: 700, color: '#43A047' }}>{formatCost(stats.totalCost)}</span>
+            </div>
+          </Tooltip>
+        )}
       </div>
       <Progress 
         percent={successRate} 
@@ -2119,6 +2171,39 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
                 />
               </Space>
 
+              <Tooltip title="每次请求生成的图片数量">
+                <Space size={4} style={{ background: '#fff', padding: '2px 8px', borderRadius: 12, display: 'flex', alignItems: 'center' }}>
+                  <Text type="secondary" style={{ fontSize: 10, whiteSpace: 'nowrap' }}>每次</Text>
+                  <Select
+                    size="small"
+                    variant="borderless"
+                    value={imagesPerRequest}
+                    options={IMAGES_PER_REQUEST_OPTIONS}
+                    onChange={(value: number) => setImagesPerRequest(normalizeImagesPerRequest(value))}
+                    popupMatchSelectWidth={false}
+                    style={{ width: 44, fontSize: 12, fontWeight: 700 }}
+                  />
+                </Space>
+              </Tooltip>
+
+              {(providerOptions.length > 0 || providerSelection) && (
+                <Tooltip title="本任务使用的供应商或供应商池">
+                  <Space size={4} style={{ background: '#fff', padding: '2px 8px', borderRadius: 12, display: 'flex', alignItems: 'center' }}>
+                    <Text type="secondary" style={{ fontSize: 10, whiteSpace: 'nowrap' }}>供应商</Text>
+                    <Select
+                      size="small"
+                      variant="borderless"
+                      value={providerSelectionLabel ? undefined : providerSelection}
+                      placeholder={providerSelectionLabel}
+                      options={providerOptions}
+                      onChange={(value: string) => setProviderSelection(normalizeProviderSelection(value))}
+                      popupMatchSelectWidth={false}
+                      style={{ width: 96, fontSize: 12, fontWeight: 700 }}
+                    />
+                  </Space>
+                </Tooltip>
+              )}
+
               <Button 
                 type="text" 
                 size="small" 
@@ -2180,6 +2265,10 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
             <div className="mobile-compact-grid" style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
               {results.map((result: SubTaskResult) => {
                 const imageSrc = getPreferredImageSrc(result);
+                // 自身被限流，或排在被限流的服务商之后等待派发
+                const rateLimitedUntil = [result.rateLimitedUntil, queuePausedUntil[result.id]].find(
+                  (until): until is number => typeof until === 'number' && until > Date.now(),
+                );
                 return (
                 <div key={result.id} style={{ 
                   position: 'relative', 
@@ -2274,12 +2363,28 @@ const ImageTask: React.FC<ImageTaskProps> = ({ id, storageKey, config, backendMo
                           <Space direction="vertical" size={8}>
                             <Spin indicator={<LoadingOutlined style={{ fontSize: 24, color: '#FF9EB5' }} spin />} />
                             <Text type="secondary" style={{ fontSize: 10, fontWeight: 600 }}>
-                              {result.retryCount > 0 ? `重试 (${result.retryCount})...` : '生成中...'}
+                              {rateLimitedUntil
+                                ? `已限流，${formatRateLimitTime(rateLimitedUntil)} 恢复`
+                                : queuePositions[result.id]
+                                ? `排队中 (#${queuePositions[result.id]})`
+                                : result.retryCount > 0
+                                  ? `重试 (${result.retryCount})...`
+                                  : '生成中...'}
                             </Text>
+                            {result.nextRetryAt && (
+                              <Text type="secondary" style={{ fontSize: 10 }}>
+                                下次尝试 {formatRetryTime(result.nextRetryAt)}
+                              </Text>
+                            )}
                           </Space>
                         ) : (
                           <Space direction="vertical" align="center" size={8}>
                             <CloseCircleFilled style={{ fontSize: 20, color: '#FF5252' }} />
+                            {describeErrorKind(result.errorKind) && (
+                              <Text type="secondary" style={{ fontSize: 10, lineHeight: 1.4, display: 'block', maxWidth: 140 }}>
+                                {describeErrorKind(result.errorKind)}
+                              </Text>
+                            )}
                             <Space>
                               {result.error === '已暂停重试' ? (
                                 <Button 
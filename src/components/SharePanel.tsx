@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Empty, Popover, Radio, Space, Tooltip, Typography, message } from 'antd';
+import { CopyOutlined, DeleteOutlined, PlusOutlined, ShareAltOutlined } from '@ant-design/icons';
+import type { BackendShare, ShareType } from '../types/share';
+import { createBackendShare, deleteBackendShare, fetchBackendShares } from '../utils/backendApi';
+import { copyTextToClipboard } from '../utils/clipboard';
+
+const { Text } = Typography;
+
+const EXPIRY_OPTIONS = [
+  { value: 1, label: '1 天' },
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+];
+
+const formatExpiry = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const buildShareLink = (share: BackendShare) => `${window.location.origin}${share.url}`;
+
+// 后端 400/404 时返回 {"error": "..."}，直接展示校验信息
+const readBackendError = (err: unknown, fallback: string) => {
+  const text = err instanceof Error ? err.message : '';
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed.error === 'string') return parsed.error;
+  } catch {
+    // 非 JSON 响应
+  }
+  return fallback;
+};
+
+interface SharePanelProps {
+  type: ShareType;
+  target: string;
+  title?: string;
+  buttonStyle?: React.CSSProperties;
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({ type, target, title = '分享链接', buttonStyle }) => {
+  const [open, setOpen] = useState(false);
+  const [shares, setShares] = useState<BackendShare[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [submitting, setSubmitting] = useState(false);
+  const active = shares.length > 0;
+
+  // 收纳盒分组很多，打开时才读取，避免每张卡片都发请求
+  useEffect(() => {
+    if (!open) return;
+    let isActive = true;
+    fetchBackendShares(type, target)
+      .then((list) => {
+        if (isActive) setShares(list);
+      })
+      .catch((err) => {
+        console.warn('读取分享链接失败:', err);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [open, type, target]);
+
+  const handleCopy = async (share: BackendShare) => {
+    const copied = await copyTextToClipboard(buildShareLink(share));
+    if (copied) {
+      message.success('链接已复制');
+    } else {
+      message.error('复制失败，请在 HTTPS 环境下访问或手动复制');
+    }
+  };
+
+  const handleCreate = async () => {
+    setSubmitting(true);
+    try {
+      const created = await createBackendShare({ type, target, expiresInDays });
+      setShares((prev) => [created, ...prev]);
+      await handleCopy(created);
+    } catch (err) {
+      message.error(readBackendError(err, '创建分享链接失败'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (share: BackendShare) => {
+    try {
+      await deleteBackendShare(share.id);
+      setShares((prev) => prev.filter((item) => item.id !== share.id));
+    } catch (err) {
+      message.error(readBackendError(err, '撤销分享链接失败'));
+    }
+  };
+
+  const content = (
+    <div style={{ width: 280 }}>
+      <Space direction="vertical" size={10} style={{ width: '100%' }}>
+        {shares.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无分享链接" style={{ margin: 0 }} />
+        ) : (
+          shares.map((share) => (
+            <div
+              key={share.id}
+              style={{ padding: '8px 10px', background: '#FAFAFA', borderRadius: 10, border: '1px solid #F0F0F0' }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <Text style={{ flex: 1, fontSize: 12 }} ellipsis>
+                  {share.url}
+                </Text>
+                <Tooltip title="复制链接">
+                  <Button type="text" size="small" icon={<CopyOutlined />} onClick={() => handleCopy(share)} />
+                </Tooltip>
+                <Tooltip title="撤销">
+                  <Button
+                    type="text"
+                    size="small"
+                    danger
+                    icon={<DeleteOutlined />}
+                    onClick={() => handleRevoke(share)}
+                  />
+                </Tooltip>
+              </div>
+              <Text type="secondary" style={{ fontSize: 11, display: 'block' }}>
+                有效期至 {formatExpiry(share.expiresAt)}
+              </Text>
+            </div>
+          ))
+        )}
+        <div>
+          <Text type="secondary" style={{ fontSize: 12, marginRight: 8 }}>有效期</Text>
+          <Radio.Group
+            size="small"
+            optionType="button"
+            buttonStyle="solid"
+            value={expiresInDays}
+            options={EXPIRY_OPTIONS}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+          />
+        </div>
+        <Button size="small" block icon={<PlusOutlined />} loading={submitting} onClick={handleCreate}>
+          创建并复制链接
+        </Button>
+        <Text type="secondary" style={{ fontSize: 11 }}>
+          拿到链接的人无需登录即可查看这里的图片（只读），撤销或过期后立即失效。
+        </Text>
+      </Space>
+    </div>
+  );
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      title={title}
+      content={content}
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <Tooltip title="只读分享链接">
+        <Button
+          type="text"
+          size="small"
+          icon={<ShareAltOutlined />}
+          style={{ color: active ? '#FF9EB5' : '#D0C0C0', ...buttonStyle }}
+        />
+      </Tooltip>
+    </Popover>
+  );
+};
+
+export default SharePanel;
@@ -27,6 +27,7 @@ import { CSS } from '@dnd-kit/utilities';
 import ImageTask from './ImageTask';
 import type { AppConfig, TaskConfig } from '../types/app';
 import type { CollectionItem } from '../types/collection';
+import type { ResponseUsage } from '../utils/imageResponse';
 import { getTaskStorageKey } from '../app/storage';
 
 interface TaskGridProps {
@@ -36,6 +37,7 @@ interface TaskGridProps {
   collectionRevision: number;
   onRemoveTask: (id: string) => void;
   onStatsUpdate: (type: 'request' | 'success' | 'fail', duration?: number) => void;
+  onUsageUpdate: (usage: ResponseUsage | null, cost: number) => void;
   onCollect: (item: CollectionItem) => void;
   onReorder: (nextTasks: TaskConfig[]) => void;
 }
@@ -46,6 +48,7 @@ interface SortableTaskItemProps {
   backendMode: boolean;
   onRemove: (id: string) => void;
   onStatsUpdate: (type: 'request' | 'success' | 'fail', duration?: number) => void;
+  onUsageUpdate: (usage: ResponseUsage | null, cost: number) => void;
   onCollect: (item: CollectionItem) => void;
   collectionRevision: number;
 }
@@ -59,6 +62,7 @@ const SortableTaskItem = ({
   backendMode,
   onRemove,
   onStatsUpdate,
+  onUsageUpdate,
   onCollect,
   collectionRevision,
 }: SortableTaskItemProps) => {
@@ -85,6 +89,7 @@ const SortableTaskItem = ({
           backendMode={backendMode}
           onRemove={() => onRemove(task.id)}
           onStatsUpdate={onStatsUpdate}
+          onUsageUpdate={onUsageUpdate}
           onCollect={onCollect}
           collectionRevision={collectionRevision}
           dragAttributes={attributes}
@@ -102,6 +107,7 @@ const TaskGrid: React.FC<TaskGridProps> = ({
   collectionRevision,
   onRemoveTask,
   onStatsUpdate,
+  onUsageUpdate,
   onCollect,
   onReorder,
 }) => {
@@ -197,6 +203,7 @@ const TaskGrid: React.FC<TaskGridProps> = ({
               backendMode={backendMode}
               onRemove={onRemoveTask}
               onStatsUpdate={onStatsUpdate}
+              onUsageUpdate={onUsageUpdate}
               onCollect={onCollect}
               collectionRevision={collectionRevision}
             />
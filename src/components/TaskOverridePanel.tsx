@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Input, Popover, Select, Space, Tooltip, Typography, message } from 'antd';
+import { ControlOutlined } from '@ant-design/icons';
+import type { AppConfig } from '../types/app';
+import { ASPECT_RATIO_OPTIONS, IMAGE_SIZE_OPTIONS } from '../app/constants';
+import { normalizeTaskOverrides, type TaskOverrides } from '../utils/taskOverrides';
+
+const { Text } = Typography;
+
+// 这几个字段在面板上有专门的控件，其余字段通过 JSON 编辑
+const QUICK_KEYS = ['model', 'imageConfig', 'stream'] as const;
+
+const FOLLOW_GLOBAL = '__global__';
+
+const STREAM_OPTIONS = [
+  { value: FOLLOW_GLOBAL, label: '跟随全局' },
+  { value: 'on', label: '开启' },
+  { value: 'off', label: '关闭' },
+];
+
+const withFollowOption = (values: string[]) => [
+  { value: FOLLOW_GLOBAL, label: '跟随全局' },
+  ...values.map((value) => ({ value, label: value })),
+];
+
+const pickExtraOverrides = (overrides: TaskOverrides) => {
+  const extra: Record<string, unknown> = { ...overrides };
+  QUICK_KEYS.forEach((key) => {
+    delete extra[key];
+  });
+  return extra;
+};
+
+const formatExtraOverrides = (overrides: TaskOverrides) => {
+  const extra = pickExtraOverrides(overrides);
+  return Object.keys(extra).length > 0 ? JSON.stringify(extra, null, 2) : '';
+};
+
+export const describeTaskOverrides = (overrides: TaskOverrides) => {
+  const labels: string[] = [];
+  if (overrides.model) labels.push(overrides.model);
+  if (overrides.imageConfig?.aspectRatio) labels.push(overrides.imageConfig.aspectRatio);
+  if (overrides.imageConfig?.imageSize) labels.push(overrides.imageConfig.imageSize);
+  if (typeof overrides.stream === 'boolean') labels.push(overrides.stream ? '流式' : '非流式');
+  const extraCount = Object.keys(pickExtraOverrides(overrides)).length;
+  if (extraCount > 0) labels.push(`+${extraCount}`);
+  return labels;
+};
+
+interface TaskOverridePanelProps {
+  value: TaskOverrides;
+  config: AppConfig;
+  onChange: (next: TaskOverrides) => void;
+}
+
+const TaskOverridePanel: React.FC<TaskOverridePanelProps> = ({ value, config, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [extraText, setExtraText] = useState(() => formatExtraOverrides(value));
+  const active = Object.keys(value).length > 0;
+
+  useEffect(() => {
+    if (!open) {
+      setExtraText(formatExtraOverrides(value));
+    }
+  }, [open, value]);
+
+  const update = (patch: Partial<TaskOverrides>) => {
+    onChange(normalizeTaskOverrides({ ...value, ...patch }));
+  };
+
+  const updateImageConfig = (key: 'aspectRatio' | 'imageSize', nextValue: string) => {
+    const imageConfig = { ...(value.imageConfig || {}) };
+    if (nextValue === FOLLOW_GLOBAL) {
+      delete imageConfig[key];
+    } else {
+      imageConfig[key] = nextValue;
+    }
+    update({ imageConfig });
+  };
+
+  const applyExtraText = () => {
+    const trimmed = extraText.trim();
+    let parsed: unknown = {};
+    if (trimmed) {
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        message.error('覆盖字段不是合法的 JSON');
+        return;
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        message.error('覆盖字段需要是 JSON 对象');
+        return;
+      }
+    }
+    const quick: Record<string, unknown> = {};
+    QUICK_KEYS.forEach((key) => {
+      if (value[key] !== undefined) quick[key] = value[key];
+    });
+    const next = normalizeTaskOverrides({ ...(parsed as Record<string, unknown>), ...quick });
+    onChange(next);
+    setExtraText(formatExtraOverrides(next));
+  };
+
+  const content = (
+    <div style={{ width: 260 }}>
+      <Space direction="vertical" size={10} style={{ width: '100%' }}>
+        <div>
+          <Text type="secondary" style={{ fontSize: 12 }}>模型</Text>
+          <Input
+            size="small"
+            allowClear
+            value={value.model || ''}
+            placeholder={config.model || '跟随全局'}
+            onChange={(e) => update({ model: e.target.value })}
+          />
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <div style={{ flex: 1 }}>
+            <Text type="secondary" style={{ fontSize: 12 }}>比例</Text>
+            <Select
+              size="small"
+              style={{ width: '100%' }}
+              value={value.imageConfig?.aspectRatio || FOLLOW_GLOBAL}
+              options={withFollowOption(ASPECT_RATIO_OPTIONS)}
+              onChange={(next: string) => updateImageConfig('aspectRatio', next)}
+            />
+          </div>
+          <div style={{ flex: 1 }}>
+            <Text type="secondary" style={{ fontSize: 12 }}>分辨率</Text>
+            <Select
+              size="small"
+              style={{ width: '100%' }}
+              value={value.imageConfig?.imageSize || FOLLOW_GLOBAL}
+              options={withFollowOption(IMAGE_SIZE_OPTIONS)}
+              onChange={(next: string) => updateImageConfig('imageSize', next)}
+            />
+          </div>
+        </div>
+        <div>
+          <Text type="secondary" style={{ fontSize: 12 }}>流式传输</Text>
+          <Select
+            size="small"
+            style={{ width: '100%' }}
+            value={typeof value.stream === 'boolean' ? (value.stream ? 'on' : 'off') : FOLLOW_GLOBAL}
+            options={STREAM_OPTIONS}
+            onChange={(next: string) =>
+              update({ stream: next === FOLLOW_GLOBAL ? undefined : next === 'on' })
+            }
+          />
+        </div>
+        <div>
+          <Text type="secondary" style={{ fontSize: 12 }}>其它字段（JSON，不含接口地址与密钥，失焦后生效）</Text>
+          <Input.TextArea
+            rows={3}
+            value={extraText}
+            placeholder='{"thinkingBudget": 1024}'
+            onChange={(e) => setExtraText(e.target.value)}
+            onBlur={applyExtraText}
+            style={{ fontSize: 12 }}
+          />
+        </div>
+        <Button size="small" block disabled={!active} onClick={() => onChange({})}>
+          清除覆盖
+        </Button>
+      </Space>
+    </div>
+  );
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      title="本任务生成参数"
+      content={content}
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <Tooltip title="覆盖本任务的生成参数">
+        <Button
+          type="text"
+          size="small"
+          icon={<ControlOutlined />}
+          style={{ color: active ? '#FF9EB5' : '#D0C0C0' }}
+        />
+      </Tooltip>
+    </Popover>
+  );
+};
+
+export default TaskOverridePanel;
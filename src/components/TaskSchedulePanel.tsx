@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  Empty,
+  Input,
+  InputNumber,
+  Popover,
+  Radio,
+  Space,
+  Switch,
+  Tooltip,
+  Typography,
+  message,
+} from 'antd';
+import { DeleteOutlined, FieldTimeOutlined, PlusOutlined } from '@ant-design/icons';
+import type { ScheduleType, TaskSchedule } from '../types/schedule';
+import {
+  createBackendSchedule,
+  deleteBackendSchedule,
+  fetchBackendSchedules,
+  patchBackendSchedule,
+} from '../utils/backendApi';
+
+const { Text } = Typography;
+
+const TYPE_OPTIONS = [
+  { value: 'repeat', label: '重复 N 次' },
+  { value: 'cron', label: 'Cron' },
+];
+
+const formatScheduleTime = (timestamp: number | null) => {
+  if (!timestamp) return '—';
+  return new Date(timestamp).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const describeSchedule = (schedule: TaskSchedule) => {
+  if (schedule.type === 'cron') return `Cron ${schedule.cron}`;
+  return `每 ${schedule.intervalMinutes} 分钟 · ${schedule.runCount}/${schedule.totalRuns} 次`;
+};
+
+// 后端 400 时返回 {"error": "..."}，直接展示校验信息
+const readBackendError = (err: unknown, fallback: string) => {
+  const text = err instanceof Error ? err.message : '';
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed.error === 'string') return parsed.error;
+  } catch {
+    // 非 JSON 响应
+  }
+  return fallback;
+};
+
+interface TaskSchedulePanelProps {
+  taskId: string;
+}
+
+const TaskSchedulePanel: React.FC<TaskSchedulePanelProps> = ({ taskId }) => {
+  const [open, setOpen] = useState(false);
+  const [schedules, setSchedules] = useState<TaskSchedule[]>([]);
+  const [type, setType] = useState<ScheduleType>('repeat');
+  const [totalRuns, setTotalRuns] = useState(10);
+  const [intervalMinutes, setIntervalMinutes] = useState(10);
+  const [cron, setCron] = useState('0 * * * *');
+  const [submitting, setSubmitting] = useState(false);
+  const active = schedules.some((schedule) => schedule.enabled);
+
+  useEffect(() => {
+    let isActive = true;
+    fetchBackendSchedules(taskId)
+      .then((list) => {
+        if (isActive) setSchedules(list);
+      })
+      .catch((err) => {
+        console.warn('读取定时计划失败:', err);
+      });
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent).detail as TaskSchedule[] | undefined;
+      if (!Array.isArray(detail)) return;
+      setSchedules(detail.filter((schedule) => schedule.taskId === taskId));
+    };
+    window.addEventListener('backend-schedules-update', handler as EventListener);
+    return () => {
+      isActive = false;
+      window.removeEventListener('backend-schedules-update', handler as EventListener);
+    };
+  }, [taskId]);
+
+  const handleCreate = async () => {
+    setSubmitting(true);
+    try {
+      const payload =
+        type === 'cron' ? { type, cron } : { type, totalRuns, intervalMinutes };
+      const created = await createBackendSchedule(taskId, payload);
+      setSchedules((prev) =>
+        prev.some((item) => item.id === created.id) ? prev : [...prev, created],
+      );
+    } catch (err) {
+      message.error(readBackendError(err, '创建定时计划失败'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (schedule: TaskSchedule, enabled: boolean) => {
+    try {
+      const updated = await patchBackendSchedule(schedule.id, { enabled });
+      setSchedules((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      message.error(readBackendError(err, '更新定时计划失败'));
+    }
+  };
+
+  const handleDelete = async (schedule: TaskSchedule) => {
+    try {
+      await deleteBackendSchedule(schedule.id);
+      setSchedules((prev) => prev.filter((item) => item.id !== schedule.id));
+    } catch (err) {
+      message.error(readBackendError(err, '删除定时计划失败'));
+    }
+  };
+
+  const content = (
+    <div style={{ width: 280 }}>
+      <Space direction="vertical" size={10} style={{ width: '100%' }}>
+        {schedules.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="暂无定时计划" style={{ margin: 0 }} />
+        ) : (
+          schedules.map((schedule) => (
+            <div
+              key={schedule.id}
+              style={{ padding: '8px 10px', background: '#FAFAFA', borderRadius: 10, border: '1px solid #F0F0F0' }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                <Text strong style={{ flex: 1, fontSize: 12 }} ellipsis>
+                  {describeSchedule(schedule)}
+                </Text>
+                <Switch
+                  size="small"
+                  checked={schedule.enabled}
+                  onChange={(checked) => handleToggle(schedule, checked)}
+                />
+                <Button
+                  type="text"
+                  size="small"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => handleDelete(schedule)}
+                />
+              </div>
+              <Text type="secondary" style={{ fontSize: 11, display: 'block' }}>
+                下次 {schedule.enabled ? formatScheduleTime(schedule.nextRunAt) : '—'}
+                {' · '}上次 {formatScheduleTime(schedule.lastRunAt)}
+              </Text>
+              {schedule.lastError && (
+                <Text type="danger" style={{ fontSize: 11, display: 'block' }}>
+                  {schedule.lastError}
+                </Text>
+              )}
+            </div>
+          ))
+        )}
+        <Radio.Group
+          size="small"
+          optionType="button"
+          buttonStyle="solid"
+          value={type}
+          options={TYPE_OPTIONS}
+          onChange={(e) => setType(e.target.value)}
+        />
+        {type === 'repeat' ? (
+          <div style={{ display: 'flex', gap: 8 }}>
+            <div style={{ flex: 1 }}>
+              <Text type="secondary" style={{ fontSize: 12 }}>次数</Text>
+              <InputNumber
+                size="small"
+                min={1}
+                max={1000}
+                value={totalRuns}
+                onChange={(value) => setTotalRuns(value || 1)}
+                style={{ width: '100%' }}
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <Text type="secondary" style={{ fontSize: 12 }}>间隔（分钟）</Text>
+              <InputNumber
+                size="small"
+                min={1}
+                max={10080}
+                value={intervalMinutes}
+                onChange={(value) => setIntervalMinutes(value || 1)}
+                style={{ width: '100%' }}
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <Text type="secondary" style={{ fontSize: 12 }}>分 时 日 月 周（服务器时区）</Text>
+            <Input
+              size="small"
+              value={cron}
+              placeholder="0 * * * *"
+              onChange={(e) => setCron(e.target.value)}
+            />
+          </div>
+        )}
+        <Button size="small" block icon={<PlusOutlined />} loading={submitting} onClick={handleCreate}>
+          添加计划
+        </Button>
+        <Text type="secondary" style={{ fontSize: 11 }}>
+          每次触发等同点击「生成」，会替换卡片上的结果；上一轮未结束时会推迟触发。
+        </Text>
+      </Space>
+    </div>
+  );
+
+  return (
+    <Popover
+      trigger="click"
+      placement="bottomRight"
+      title="定时运行"
+      content={content}
+      open={open}
+      onOpenChange={setOpen}
+    >
+      <Tooltip title="定时 / 重复运行本任务">
+        <Button
+          type="text"
+          size="small"
+          icon={<FieldTimeOutlined />}
+          style={{ color: active ? '#FF9EB5' : '#D0C0C0' }}
+        />
+      </Tooltip>
+    </Popover>
+  );
+};
+
+export default TaskSchedulePanel;
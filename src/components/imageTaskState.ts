@@ -48,7 +48,12 @@ export const serializeResults = (results: SubTaskResult[]): PersistedSubTaskResu
       id: result.id,
       status: result.status,
       error: result.error,
+      errorKind: result.errorKind,
       retryCount: result.retryCount,
+      nextRetryAt: result.nextRetryAt,
+      rateLimitedUntil: result.rateLimitedUntil,
+      usage: result.usage,
+      cost: result.cost,
       startTime: result.startTime,
       endTime: result.endTime,
       duration: result.duration,
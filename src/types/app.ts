@@ -5,6 +5,40 @@ export interface ImageConfig {
   aspectRatio: string;
 }
 
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  backoffFactor: number;
+  jitterPercent: number;
+  maxDelayMs: number;
+}
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  apiFormat: 'openai' | 'gemini' | 'vertex';
+  apiUrl: string;
+  apiKeys: string[];
+  model: string;
+  apiVersion?: string;
+  vertexProjectId?: string;
+  vertexLocation?: string;
+  vertexPublisher?: string;
+}
+
+export interface ProviderPool {
+  id: string;
+  name: string;
+  profileIds: string[];
+}
+
+export interface ModelPrice {
+  model: string;
+  inputPrice: number;
+  outputPrice: number;
+  imagePrice: number;
+}
+
 export interface AppConfig {
   apiUrl: string;
   apiKey: string;
@@ -25,6 +59,10 @@ export interface AppConfig {
   webpQuality: number;
   useResponseModalities: boolean;
   customJson: string;
+  retryPolicy: RetryPolicy;
+  providerProfiles?: ProviderProfile[];
+  providerPools?: ProviderPool[];
+  priceTable?: ModelPrice[];
 }
 
 export interface TaskConfig {
@@ -1,4 +1,17 @@
 import type { TaskStats } from './stats';
+import type { TaskOverrides } from '../../shared/taskOverrides.mjs';
+import type { ResponseUsage } from '../../shared/imageResponse.mjs';
+
+export type SubTaskErrorKind =
+  | 'auth'
+  | 'invalid_request'
+  | 'safety'
+  | 'quota'
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'no_image'
+  | 'unknown';
 
 export interface SubTaskResult {
   id: string;
@@ -8,7 +21,12 @@ export interface SubTaskResult {
   savedLocal?: boolean;
   status: 'pending' | 'loading' | 'success' | 'error';
   error?: string;
+  errorKind?: SubTaskErrorKind;
   retryCount: number;
+  nextRetryAt?: number;
+  rateLimitedUntil?: number;
+  usage?: ResponseUsage;
+  cost?: number;
   startTime?: number;
   endTime?: number;
   duration?: number;
@@ -18,7 +36,12 @@ export interface PersistedSubTaskResult {
   id: string;
   status: SubTaskResult['status'];
   error?: string;
+  errorKind?: SubTaskErrorKind;
   retryCount: number;
+  nextRetryAt?: number;
+  rateLimitedUntil?: number;
+  usage?: ResponseUsage;
+  cost?: number;
   startTime?: number;
   endTime?: number;
   duration?: number;
@@ -42,6 +65,9 @@ export interface PersistedImageTaskState {
   version: number;
   prompt: string;
   concurrency: number;
+  imagesPerRequest?: number;
+  providerSelection?: string;
+  overrides?: TaskOverrides;
   enableSound: boolean;
   results: PersistedSubTaskResult[];
   uploads?: PersistedUploadImage[];
@@ -0,0 +1,20 @@
+export type ScheduleType = 'cron' | 'repeat';
+
+export interface TaskSchedule {
+  id: string;
+  taskId: string;
+  type: ScheduleType;
+  enabled: boolean;
+  cron?: string;
+  intervalMinutes?: number;
+  totalRuns?: number;
+  runCount: number;
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  lastError?: string;
+  createdAt: number;
+}
+
+export type TaskScheduleInput = Partial<
+  Pick<TaskSchedule, 'type' | 'enabled' | 'cron' | 'intervalMinutes' | 'totalRuns'>
+>;
@@ -0,0 +1,17 @@
+export type ShareType = 'task' | 'collection';
+
+export interface BackendShare {
+  id: string;
+  type: ShareType;
+  // 任务 ID 或收纳盒提示词分组键
+  target: string;
+  createdAt: number;
+  expiresAt: number;
+  url: string;
+}
+
+export interface BackendShareInput {
+  type: ShareType;
+  target: string;
+  expiresInDays: number;
+}
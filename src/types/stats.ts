@@ -1,4 +1,11 @@
-export interface Stats {
+export interface UsageTotals {
+  promptTokens?: number;
+  completionTokens?: number;
+  thoughtsTokens?: number;
+  totalCost?: number;
+}
+
+export interface Stats extends UsageTotals {
   totalRequests: number;
   successCount: number;
   fastestTime: number;
@@ -6,5 +13,7 @@ export interface Stats {
   totalTime: number;
 }
 
-export type GlobalStats = Stats;
+export interface GlobalStats extends Stats {
+  daily?: Record<string, UsageTotals>;
+}
 export type TaskStats = Stats;
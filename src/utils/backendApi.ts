@@ -2,6 +2,8 @@ import type { AppConfig } from '../types/app';
 import type { CollectionItem } from '../types/collection';
 import type { GlobalStats } from '../types/stats';
 import type { PersistedImageTaskState } from '../types/imageTask';
+import type { TaskSchedule, TaskScheduleInput } from '../types/schedule';
+import type { BackendShare, BackendShareInput, ShareType } from '../types/share';
 import type { ApiFormat } from './apiUrl';
 import type { FormatConfig } from '../app/storage';
 import { safeStorageGet, safeStorageRemove, safeStorageSet } from './storage';
@@ -13,8 +15,40 @@ export interface BackendState {
   globalStats: GlobalStats;
 }
 
+// 后端返回的 API 密钥已脱敏为「••••末四位」，提交回去时服务端会换回原值
+export const isRedactedApiKey = (value: unknown) =>
+  typeof value === 'string' && value.startsWith('••••');
+
+export interface BackendQueueSnapshot {
+  running: number;
+  queued: number;
+  maxConcurrency: number;
+  positions: Record<string, Record<string, number>>;
+  // 本工作区排队任务所用服务商的限流恢复时间，键为「格式:主机」
+  pausedProviders: Record<string, number>;
+  // 排在限流服务商之后的子任务及其恢复时间，按任务 ID、子任务 ID 分组
+  pausedUntil: Record<string, Record<string, number>>;
+}
+
+export interface BackendSession {
+  id: string;
+  createdAt: number;
+  expiresAt: number;
+  lastSeenAt: number;
+  userAgent: string;
+  ip: string;
+  current: boolean;
+}
+
 const BACKEND_MODE_KEY = 'moe-image-backend-mode';
 const BACKEND_TOKEN_KEY = 'moe-image-backend-token';
+// 图片签名地址的内存缓存，按图片 key 保存；切换账号或登出时清空
+const IMAGE_URL_REFRESH_MARGIN_MS = 2 * 60 * 1000;
+const MAX_SIGN_BATCH = 500;
+const signedImageUrls = new Map<string, { url: string; expiresAt: number }>();
+const pendingImageKeys = new Set<string>();
+let signRequestTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
 
 export const getBackendMode = () => safeStorageGet(BACKEND_MODE_KEY) === 'true';
 
@@ -29,10 +63,12 @@ export const setBackendMode = (enabled: boolean) => {
 export const getBackendToken = () => safeStorageGet(BACKEND_TOKEN_KEY);
 
 export const setBackendToken = (token: string) => {
+  signedImageUrls.clear();
   safeStorageSet(BACKEND_TOKEN_KEY, token, 'backend token');
 };
 
 export const clearBackendToken = () => {
+  signedImageUrls.clear();
   safeStorageRemove(BACKEND_TOKEN_KEY, 'backend token');
 };
 
@@ -51,6 +87,10 @@ const backendFetch = async (path: string, options: RequestInit = {}) => {
     headers: buildBackendHeaders(options.headers),
   });
   if (response.status === 401) {
+    // 携带令牌仍被拒绝说明会话已过期或被撤销，交给 App 退出后端模式
+    if (getBackendToken()) {
+      window.dispatchEvent(new CustomEvent('backend-unauthorized'));
+    }
     const error = new Error('BACKEND_UNAUTHORIZED');
     (error as Error & { code?: string }).code = 'BACKEND_UNAUTHORIZED';
     throw error;
@@ -58,6 +98,22 @@ const backendFetch = async (path: string, options: RequestInit = {}) => {
   return response;
 };
 
+// 保存到服务端 saved-images/；服务端配置了后端密码时需要带上登录令牌
+export const saveImageToServer = async (blob: Blob) => {
+  const response = await fetch('/api/save-image', {
+    method: 'POST',
+    headers: buildBackendHeaders({ 'Content-Type': 'application/octet-stream' }),
+    body: blob,
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    const error = new Error(text || response.statusText) as Error & { status?: number };
+    error.status = response.status;
+    throw error;
+  }
+  return (await response.json()) as { saved: boolean; exists: boolean; fileName: string };
+};
+
 type BackendJsonOptions = Omit<RequestInit, 'body' | 'headers'> & {
   body?: unknown;
   headers?: HeadersInit;
@@ -81,14 +137,40 @@ const backendJson = async <T>(
   return (await response.json()) as T;
 };
 
-export const authBackend = async (password: string) => {
-  const data = await backendJson<{ token: string }>('/api/backend/auth', {
+// 服务端配置了多用户账号时需要用户名，单密码模式下忽略
+export const authBackend = async (password: string, username = '') => {
+  const response = await backendFetch('/api/backend/auth', {
     method: 'POST',
-    body: { password },
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(username ? { username, password } : { password }),
   });
+  if (response.status === 429) {
+    // 连续输错被服务端临时锁定，带上解锁时间方便提示
+    const data = (await response.json().catch(() => ({}))) as { lockedUntil?: unknown };
+    const error = new Error('BACKEND_AUTH_LOCKED') as Error & { code?: string; lockedUntil?: number };
+    error.code = 'BACKEND_AUTH_LOCKED';
+    error.lockedUntil = typeof data.lockedUntil === 'number' ? data.lockedUntil : undefined;
+    throw error;
+  }
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(text || response.statusText);
+  }
+  const data = (await response.json()) as { token: string };
   return data.token;
 };
 
+export const logoutBackend = async () =>
+  backendJson<{ ok: true }>('/api/backend/logout', { method: 'POST' });
+
+export const fetchBackendSessions = async () =>
+  backendJson<BackendSession[]>('/api/backend/sessions');
+
+export const revokeBackendSession = async (sessionId: string) =>
+  backendJson<{ ok: true }>(`/api/backend/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+  });
+
 export const fetchBackendState = async () => backendJson<BackendState>('/api/backend/state');
 
 export const patchBackendState = async (payload: Partial<BackendState>) =>
@@ -164,6 +246,42 @@ export const stopBackendSubTask = async (
     { method: 'POST', body: { subTaskId, mode } },
   );
 
+export const fetchBackendSchedules = async (taskId: string) =>
+  backendJson<TaskSchedule[]>(`/api/backend/task/${encodeURIComponent(taskId)}/schedules`);
+
+export const createBackendSchedule = async (taskId: string, payload: TaskScheduleInput) =>
+  backendJson<TaskSchedule>(`/api/backend/task/${encodeURIComponent(taskId)}/schedules`, {
+    method: 'POST',
+    body: payload,
+  });
+
+export const patchBackendSchedule = async (scheduleId: string, payload: TaskScheduleInput) =>
+  backendJson<TaskSchedule>(`/api/backend/schedules/${encodeURIComponent(scheduleId)}`, {
+    method: 'PATCH',
+    body: payload,
+  });
+
+export const deleteBackendSchedule = async (scheduleId: string) =>
+  backendJson<{ ok: true }>(`/api/backend/schedules/${encodeURIComponent(scheduleId)}`, {
+    method: 'DELETE',
+  });
+
+export const fetchBackendShares = async (type: ShareType, target: string) =>
+  backendJson<BackendShare[]>(
+    `/api/backend/shares?${new URLSearchParams({ type, target }).toString()}`,
+  );
+
+export const createBackendShare = async (payload: BackendShareInput) =>
+  backendJson<BackendShare>('/api/backend/shares', {
+    method: 'POST',
+    body: payload,
+  });
+
+export const deleteBackendShare = async (shareId: string) =>
+  backendJson<{ ok: true }>(`/api/backend/shares/${encodeURIComponent(shareId)}`, {
+    method: 'DELETE',
+  });
+
 export const uploadBackendImage = async (
   blob: Blob,
   meta: { name?: string; lastModified?: number } = {},
@@ -186,13 +304,69 @@ export const uploadBackendImage = async (
   return (await response.json()) as { key: string; url: string };
 };
 
+const requestSignedImageUrls = async () => {
+  signRequestTimer = null;
+  const keys = Array.from(pendingImageKeys).slice(0, MAX_SIGN_BATCH);
+  keys.forEach((key) => pendingImageKeys.delete(key));
+  if (pendingImageKeys.size > 0) {
+    signRequestTimer = setTimeout(() => void requestSignedImageUrls(), 0);
+  }
+  if (keys.length === 0 || !getBackendToken()) return;
+  try {
+    const data = await backendJson<{ urls: Record<string, string>; expiresAt: number }>(
+      '/api/backend/image-urls',
+      { method: 'POST', body: { keys } },
+    );
+    const entries = Object.entries(data.urls);
+    if (entries.length === 0) return;
+    entries.forEach(([key, url]) => {
+      signedImageUrls.set(key, { url, expiresAt: data.expiresAt });
+    });
+    scheduleImageUrlRefresh();
+    window.dispatchEvent(new CustomEvent('backend-image-urls-update'));
+  } catch (err) {
+    console.warn('获取图片签名地址失败:', err);
+  }
+};
+
+const queueImageUrlSigning = (key: string) => {
+  pendingImageKeys.add(key);
+  if (!signRequestTimer) {
+    signRequestTimer = setTimeout(() => void requestSignedImageUrls(), 0);
+  }
+};
+
+// 页面一直开着时，在最早的地址过期前统一续签，组件收到事件后重新取地址
+const scheduleImageUrlRefresh = () => {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (signedImageUrls.size === 0) return;
+  const earliest = Math.min(...Array.from(signedImageUrls.values(), (item) => item.expiresAt));
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    const now = Date.now();
+    signedImageUrls.forEach((item, key) => {
+      if (item.expiresAt - now < IMAGE_URL_REFRESH_MARGIN_MS) queueImageUrlSigning(key);
+    });
+  }, Math.max(earliest - Date.now() - IMAGE_URL_REFRESH_MARGIN_MS, 0));
+};
+
+// 返回服务端签发的短期图片地址；尚未签发时返回空字符串并在后台申请，
+// 签好后派发 backend-image-urls-update 事件，调用方再重新取一次
 export const buildBackendImageUrl = (key: string) => {
-  const token = getBackendToken();
-  const encodedKey = encodeURIComponent(key);
-  if (!token) {
-    return `/api/backend/image/${encodedKey}`;
+  if (!key) return '';
+  const cached = signedImageUrls.get(key);
+  const now = Date.now();
+  if (!cached || cached.expiresAt - now < IMAGE_URL_REFRESH_MARGIN_MS) {
+    queueImageUrlSigning(key);
   }
-  return `/api/backend/image/${encodedKey}?token=${encodeURIComponent(token)}`;
+  return cached && cached.expiresAt > now ? cached.url : '';
+};
+
+export const extractBackendImageKey = (url?: string) => {
+  if (!url) return undefined;
+  const match = url.match(/\/api\/backend\/image\/([^?]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
 };
 
 export const buildBackendStreamUrl = () => {
@@ -201,7 +375,6 @@ export const buildBackendStreamUrl = () => {
   return `/api/backend/stream?token=${encodeURIComponent(token)}`;
 };
 
+// 图片地址只保存不带凭据的路径，旧版的 token 参数与签名参数都去掉
 export const stripBackendToken = (url: string) =>
-  url
-    .replace(/[?&]token=[^&]+/g, '')
-    .replace(/[?&]$/, '');
+  url.includes('/api/backend/image/') ? url.split('?')[0] : url;
@@ -0,0 +1,6 @@
+export {
+  buildCollectionGroupKey,
+  EMPTY_PROMPT_GROUP_KEY,
+  isUploadCollectionKey,
+  normalizeCollectionPrompt,
+} from '../../shared/collectionGroup.mjs';
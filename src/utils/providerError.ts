@@ -0,0 +1,46 @@
+import type { SubTaskErrorKind } from '../types/imageTask';
+import {
+  createProviderError,
+  extractProviderErrorDetail,
+  type ProviderErrorDetail,
+} from '../../shared/providerError.mjs';
+
+export type { ProviderError, ProviderErrorDetail } from '../../shared/providerError.mjs';
+
+export {
+  classifyProviderError,
+  createProviderError,
+  detectSafetyBlock,
+  extractProviderErrorDetail,
+  isPermanentErrorKind,
+  resolveErrorKind,
+} from '../../shared/providerError.mjs';
+
+export const readProviderError = async (response: Response) => {
+  const fallback = response.statusText || `HTTP ${response.status}`;
+  let detail: ProviderErrorDetail = { message: fallback };
+  try {
+    const text = await response.text();
+    if (text) {
+      try {
+        const parsed = extractProviderErrorDetail(JSON.parse(text));
+        detail = { ...parsed, message: parsed.message || text };
+      } catch {
+        detail = { message: text };
+      }
+    }
+  } catch {
+    // keep fallback
+  }
+  return createProviderError(detail.message || fallback, { ...detail, status: response.status });
+};
+
+const ERROR_KIND_HINTS: Partial<Record<SubTaskErrorKind, string>> = {
+  auth: 'API Key 无效或无访问权限，已停止重试',
+  invalid_request: '请求参数或模型名称有误，已停止重试',
+  safety: '内容被安全策略拦截，请调整提示词后重试',
+  quota: '账户额度已用尽，已停止重试',
+};
+
+export const describeErrorKind = (kind?: SubTaskErrorKind) =>
+  (kind && ERROR_KIND_HINTS[kind]) || null;
@@ -0,0 +1,13 @@
+export type { ProviderCandidate } from '../../shared/providerProfiles.mjs';
+
+export {
+  describeProviderSelection,
+  normalizeApiKeys,
+  normalizeProviderPools,
+  normalizeProviderProfiles,
+  POOL_SELECTION_PREFIX,
+  PROFILE_SELECTION_PREFIX,
+  resolvePrimaryProviderConfig,
+  resolveProviderCandidates,
+  runWithProviderFailover,
+} from '../../shared/providerProfiles.mjs';
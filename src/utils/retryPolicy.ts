@@ -0,0 +1,13 @@
+export {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  formatRetryDelay,
+  hasRetryAttemptsLeft,
+  normalizeRetryPolicy,
+} from '../../shared/retryPolicy.mjs';
+
+export const formatRetryTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour12: false });
+
+export const formatRateLimitTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour12: false, hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,8 @@
+export type { TaskOverrides } from '../../shared/taskOverrides.mjs';
+
+export {
+  applyTaskOverrides,
+  hasTaskOverrides,
+  normalizeTaskOverrides,
+  TASK_OVERRIDE_KEYS,
+} from '../../shared/taskOverrides.mjs';
@@ -0,0 +1,11 @@
+export {
+  addDailyUsage,
+  addUsageToStats,
+  computeUsageCost,
+  findModelPrice,
+  formatCost,
+  formatTokenCount,
+  formatUsageDay,
+  normalizePriceTable,
+  normalizeUsage,
+} from '../../shared/usageCost.mjs';
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, mock, test } from 'node:test'
+import {
+  beginAuthAttempt,
+  clearAuthFailures,
+  computeAuthDelay,
+  getAuthLockedUntil,
+  recordAuthFailure,
+} from '../server/authGuard.mjs'
+import { backendAuthLockoutMs, backendAuthMaxAttempts } from '../server/config.mjs'
+
+let ipSeq = 0
+const nextIp = () => `203.0.113.${(ipSeq += 1)}`
+
+// 与登录路由一致：同步登记尝试后才进入异步校验（多用户模式下是 scrypt）
+const attemptLogin = async (ip, correct) => {
+  const attempt = beginAuthAttempt(ip)
+  if (attempt.lockedUntil) return { result: 'locked' }
+  await new Promise((resolve) => setImmediate(resolve))
+  if (correct) {
+    clearAuthFailures(ip)
+    return { result: 'ok', delayMs: attempt.delayMs }
+  }
+  recordAuthFailure(ip)
+  return { result: 'failed', delayMs: attempt.delayMs }
+}
+
+beforeEach(() => {
+  mock.method(console, 'warn', () => {})
+})
+
+describe('登录延迟', () => {
+  test('前三次不延迟，之后翻倍并封顶 8 秒', () => {
+    assert.deepEqual([0, 1, 2, 3, 4, 5].map(computeAuthDelay), [0, 0, 0, 500, 1000, 2000])
+    assert.equal(computeAuthDelay(20), 8000)
+  })
+
+  test('连续失败时每次尝试的等待递增', async () => {
+    const ip = nextIp()
+    const delays = []
+    for (let i = 0; i < 5; i += 1) {
+      delays.push((await attemptLogin(ip, false)).delayMs)
+    }
+    assert.deepEqual(delays, [0, 0, 0, 500, 1000])
+  })
+
+  test('登录成功后清零', async () => {
+    const ip = nextIp()
+    for (let i = 0; i < 4; i += 1) await attemptLogin(ip, false)
+    assert.equal((await attemptLogin(ip, true)).result, 'ok')
+    assert.equal(beginAuthAttempt(ip).delayMs, 0)
+  })
+})
+
+describe('锁定', () => {
+  test('达到上限后锁定，锁定期间不再校验', async () => {
+    const ip = nextIp()
+    for (let i = 0; i < backendAuthMaxAttempts; i += 1) {
+      assert.equal((await attemptLogin(ip, false)).result, 'failed')
+    }
+    assert.ok(getAuthLockedUntil(ip) > Date.now())
+    assert.equal((await attemptLogin(ip, true)).result, 'locked')
+  })
+
+  test('锁定过期后重新计数', async () => {
+    const ip = nextIp()
+    for (let i = 0; i < backendAuthMaxAttempts; i += 1) await attemptLogin(ip, false)
+    const later = Date.now() + backendAuthLockoutMs * 2
+    assert.equal(getAuthLockedUntil(ip, later), 0)
+    assert.deepEqual(beginAuthAttempt(ip, later), { lockedUntil: 0, delayMs: 0 })
+  })
+
+  test('其他 IP 不受影响', async () => {
+    const ip = nextIp()
+    for (let i = 0; i < backendAuthMaxAttempts; i += 1) await attemptLogin(ip, false)
+    assert.equal((await attemptLogin(nextIp(), true)).result, 'ok')
+  })
+})
+
+describe('并发请求', () => {
+  test('同一 IP 的并发爆破最多校验上限次，且各自拿到递增的延迟', async () => {
+    const ip = nextIp()
+    const outcomes = await Promise.all(
+      Array.from({ length: backendAuthMaxAttempts * 3 }, () => attemptLogin(ip, false)),
+    )
+    const checked = outcomes.filter((item) => item.result !== 'locked')
+    assert.equal(checked.length, backendAuthMaxAttempts)
+    assert.deepEqual(
+      checked.map((item) => item.delayMs),
+      Array.from({ length: backendAuthMaxAttempts }, (_item, index) => computeAuthDelay(index)),
+    )
+    assert.ok(getAuthLockedUntil(ip) > Date.now())
+  })
+
+  test('并发中有一次成功时清零，随后的失败重新计数', async () => {
+    const ip = nextIp()
+    const outcomes = await Promise.all([
+      attemptLogin(ip, false),
+      attemptLogin(ip, true),
+      attemptLogin(ip, false),
+    ])
+    assert.deepEqual(
+      outcomes.map((item) => item.result),
+      ['failed', 'ok', 'failed'],
+    )
+    assert.equal(getAuthLockedUntil(ip), 0)
+    assert.equal(beginAuthAttempt(ip).delayMs, 0)
+  })
+})
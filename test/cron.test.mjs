@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { computeNextCronRun, parseCronExpression } from '../server/cron.mjs'
+
+// 固定时区，2026 年 3 月 8 日 02:00 跳到 03:00，11 月 1 日 02:00 回拨到 01:00
+process.env.TZ = 'America/New_York'
+
+const local = (year, month, day, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime()
+
+const nextRuns = (expression, from, count) => {
+  const runs = []
+  let cursor = from
+  for (let index = 0; index < count; index += 1) {
+    cursor = computeNextCronRun(expression, cursor)
+    runs.push(new Date(cursor).toISOString())
+  }
+  return runs
+}
+
+describe('parseCronExpression', () => {
+  test('别名展开为五段式', () => {
+    const cron = parseCronExpression('@daily')
+    assert.deepEqual([...cron.minute.values], [0])
+    assert.deepEqual([...cron.hour.values], [0])
+    assert.equal(cron.dayOfMonth.wildcard, true)
+  })
+
+  test('星期 7 等同于星期日', () => {
+    assert.equal(parseCronExpression('0 0 * * 7').dayOfWeek.values.has(0), true)
+  })
+
+  test('*/n 与取满整个范围的字段视为不限定', () => {
+    assert.equal(parseCronExpression('0 9 */1 * 1').dayOfMonth.wildcard, true)
+    assert.equal(parseCronExpression('0 9 */2 * 1').dayOfMonth.wildcard, true)
+    assert.equal(parseCronExpression('0 9 1-31 * 1').dayOfMonth.wildcard, true)
+    assert.equal(parseCronExpression('0 9 1 * 0-6').dayOfWeek.wildcard, true)
+    assert.equal(parseCronExpression('0 9 1 * 1-7').dayOfWeek.wildcard, true)
+    assert.equal(parseCronExpression('0 9 1-30 * 1').dayOfMonth.wildcard, false)
+  })
+
+  test('非法表达式抛出 INVALID_CRON', () => {
+    for (const expression of ['', '* * * *', '60 * * * *', '0 24 * * *', '0 0 0 * *', '0 0 * 13 *', '0 0 5-1 * *', '*/0 * * * *', 'a * * * *']) {
+      assert.throws(() => parseCronExpression(expression), { code: 'INVALID_CRON' }, expression)
+    }
+  })
+})
+
+describe('computeNextCronRun', () => {
+  test('返回严格晚于起点的下一分钟', () => {
+    assert.equal(computeNextCronRun('* * * * *', local(2026, 5, 1, 10, 0)), local(2026, 5, 1, 10, 1))
+    assert.equal(computeNextCronRun('0 10 * * *', local(2026, 5, 1, 10, 0)), local(2026, 5, 2, 10, 0))
+  })
+
+  test('只限定星期时 */1 的日期不再当作额外条件', () => {
+    // 2026-05-01 是周五，之后的周一依次是 5/4、5/11
+    assert.deepEqual(nextRuns('0 9 */1 * 1', local(2026, 5, 1), 2), [
+      new Date(local(2026, 5, 4, 9)).toISOString(),
+      new Date(local(2026, 5, 11, 9)).toISOString(),
+    ])
+  })
+
+  test('*/n 日期与星期同时出现时两者都要满足', () => {
+    // 奇数日且为周一：5/11、5/25
+    assert.deepEqual(nextRuns('0 9 */2 * 1', local(2026, 5, 1), 2), [
+      new Date(local(2026, 5, 11, 9)).toISOString(),
+      new Date(local(2026, 5, 25, 9)).toISOString(),
+    ])
+  })
+
+  test('日期与星期都限定时满足其一即可', () => {
+    // 每月 15 日或周一
+    assert.deepEqual(nextRuns('0 9 15 * 1', local(2026, 5, 10), 3), [
+      new Date(local(2026, 5, 11, 9)).toISOString(),
+      new Date(local(2026, 5, 15, 9)).toISOString(),
+      new Date(local(2026, 5, 18, 9)).toISOString(),
+    ])
+  })
+
+  test('31 日只在有 31 天的月份触发', () => {
+    assert.deepEqual(nextRuns('0 0 31 * *', local(2026, 1, 31, 1), 3), [
+      new Date(local(2026, 3, 31)).toISOString(),
+      new Date(local(2026, 5, 31)).toISOString(),
+      new Date(local(2026, 7, 31)).toISOString(),
+    ])
+  })
+
+  test('2 月 29 日跳到下一个闰年', () => {
+    assert.equal(computeNextCronRun('0 0 29 2 *', local(2026, 1, 1)), local(2028, 2, 29))
+  })
+
+  test('月末跨年', () => {
+    assert.equal(computeNextCronRun('30 23 * * *', local(2026, 12, 31, 23, 30)), local(2027, 1, 1, 23, 30))
+    assert.equal(computeNextCronRun('@monthly', local(2026, 12, 15)), local(2027, 1, 1))
+  })
+
+  test('永远不会出现的日期返回 null', () => {
+    assert.equal(computeNextCronRun('0 0 30 2 *', local(2026, 1, 1)), null)
+  })
+
+  test('夏令时跳过的时刻顺延一小时，当天只触发一次', () => {
+    const from = local(2026, 3, 7, 12)
+    assert.deepEqual(nextRuns('30 2 * * *', from, 3), [
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z',
+      '2026-03-10T06:30:00.000Z',
+    ])
+  })
+
+  test('夏令时切换前后的固定时刻保持本地挂钟时间', () => {
+    assert.deepEqual(nextRuns('0 9 * * *', local(2026, 3, 7, 12), 2), [
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ])
+    assert.deepEqual(nextRuns('0 9 * * *', local(2026, 10, 31, 12), 2), [
+      '2026-11-01T14:00:00.000Z',
+      '2026-11-02T14:00:00.000Z',
+    ])
+  })
+
+  test('跳过的一小时内的分钟步长接到切换后', () => {
+    // 01:45 EST 之后挂钟直接到 03:00 EDT
+    assert.deepEqual(nextRuns('*/15 * * * *', Date.parse('2026-03-08T06:45:00Z'), 2), [
+      '2026-03-08T07:00:00.000Z',
+      '2026-03-08T07:15:00.000Z',
+    ])
+  })
+
+  test('回拨重复的一小时只触发第一次', () => {
+    const from = local(2026, 10, 31, 12)
+    assert.deepEqual(nextRuns('30 1 * * *', from, 2), [
+      '2026-11-01T05:30:00.000Z',
+      '2026-11-02T06:30:00.000Z',
+    ])
+    // 从重复时段的第二次 01:10 EST 起算，当天的 01:30 已经触发过
+    assert.equal(
+      new Date(computeNextCronRun('30 1 * * *', Date.parse('2026-11-01T06:10:00Z'))).toISOString(),
+      '2026-11-02T06:30:00.000Z',
+    )
+  })
+})
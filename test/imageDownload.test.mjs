@@ -0,0 +1,208 @@
+import assert from 'node:assert/strict'
+import dns from 'node:dns'
+import http from 'node:http'
+import { after, before, describe, mock, test } from 'node:test'
+
+// 本地服务只对 allowed.test 放行；其余测试域名经模拟的 DNS 解析到回环、内网或映射地址
+process.env.BACKEND_IMAGE_ALLOW_HOSTS = 'allowed.test'
+process.env.BACKEND_IMAGE_DENY_HOSTS = ''
+process.env.BACKEND_IMAGE_MAX_MB = String(16 / 1024)
+process.env.BACKEND_IMAGE_TIMEOUT_SECONDS = '0.5'
+
+const { downloadRemoteImage } = await import('../server/imageDownload.mjs')
+
+const MAX_REDIRECTS = 5
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.alloc(64, 1),
+])
+
+const DNS_TABLE = {
+  'allowed.test': { address: '127.0.0.1', family: 4 },
+  'loopback.test': { address: '127.0.0.1', family: 4 },
+  'private.test': { address: '10.1.2.3', family: 4 },
+  'mapped.test': { address: '::ffff:127.0.0.1', family: 6 },
+}
+
+let server
+let baseUrl
+const hits = new Map()
+
+const routes = {
+  '/png': (_req, res) => {
+    res.setHeader('content-type', 'image/png')
+    res.end(PNG)
+  },
+  '/octet': (_req, res) => {
+    res.setHeader('content-type', 'application/octet-stream')
+    res.end(PNG)
+  },
+  '/mislabeled': (_req, res) => {
+    res.setHeader('content-type', 'image/jpeg')
+    res.end(PNG)
+  },
+  '/html-as-png': (_req, res) => {
+    res.setHeader('content-type', 'image/png')
+    res.end('<html><script>alert(1)</script></html>'.padEnd(200, ' '))
+  },
+  '/html': (_req, res) => {
+    res.setHeader('content-type', 'text/html')
+    res.end('<html></html>')
+  },
+  '/loop': (_req, res) => {
+    res.writeHead(302, { location: '/loop' })
+    res.end()
+  },
+  '/redirect-ok': (_req, res) => {
+    res.writeHead(302, { location: '/png' })
+    res.end()
+  },
+  '/to-loopback-host': (_req, res) => {
+    res.writeHead(302, { location: `http://loopback.test:${server.address().port}/png` })
+    res.end()
+  },
+  '/to-loopback-ip': (_req, res) => {
+    res.writeHead(301, { location: `http://127.0.0.1:${server.address().port}/png` })
+    res.end()
+  },
+  '/big-declared': (_req, res) => {
+    res.setHeader('content-type', 'image/png')
+    res.setHeader('content-length', String(64 * 1024))
+    res.end(Buffer.concat([PNG, Buffer.alloc(64 * 1024 - PNG.length)]))
+  },
+  '/big-chunked': (_req, res) => {
+    res.setHeader('content-type', 'image/png')
+    res.write(PNG)
+    for (let i = 0; i < 8; i += 1) res.write(Buffer.alloc(4096))
+    res.end()
+  },
+  '/hang': () => {},
+  '/slow-body': (_req, res) => {
+    res.setHeader('content-type', 'image/png')
+    res.write(PNG)
+  },
+}
+
+before(async () => {
+  const lookup = dns.lookup
+  mock.method(dns, 'lookup', (host, options, callback) => {
+    const entry = DNS_TABLE[host]
+    if (!entry) return lookup(host, options, callback)
+    if (options?.all) return callback(null, [entry])
+    return callback(null, entry.address, entry.family)
+  })
+  server = http.createServer((req, res) => {
+    const path = new URL(req.url, 'http://x').pathname
+    hits.set(path, (hits.get(path) || 0) + 1)
+    const route = routes[path]
+    if (route) return route(req, res)
+    res.statusCode = 404
+    res.end()
+  })
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://allowed.test:${server.address().port}`
+})
+
+after(() => {
+  server.closeAllConnections()
+  server.close()
+})
+
+const rejectsWithCode = (promise, code) => assert.rejects(promise, (err) => err.code === code)
+
+describe('内网地址拦截', () => {
+  test('域名解析到内网地址时拒绝', async () => {
+    await rejectsWithCode(downloadRemoteImage('http://private.test/a.png'), 'IMAGE_URL_BLOCKED')
+  })
+
+  test('域名解析到回环地址时拒绝', async () => {
+    const port = server.address().port
+    await rejectsWithCode(downloadRemoteImage(`http://loopback.test:${port}/png`), 'IMAGE_URL_BLOCKED')
+    await rejectsWithCode(downloadRemoteImage(`http://localhost:${port}/png`), 'IMAGE_URL_BLOCKED')
+  })
+
+  test('解析结果是 IPv4 映射的 IPv6 地址时按 IPv4 拒绝', async () => {
+    const port = server.address().port
+    await rejectsWithCode(downloadRemoteImage(`http://mapped.test:${port}/png`), 'IMAGE_URL_BLOCKED')
+    await rejectsWithCode(
+      downloadRemoteImage(`http://[::ffff:127.0.0.1]:${port}/png`),
+      'IMAGE_URL_BLOCKED',
+    )
+  })
+
+  test('IP 直连的内网地址不发起连接', async () => {
+    await rejectsWithCode(downloadRemoteImage('http://192.168.1.1/a.png'), 'IMAGE_URL_BLOCKED')
+    await rejectsWithCode(downloadRemoteImage('ftp://allowed.test/a.png'), 'IMAGE_URL_INVALID')
+  })
+
+  test('被拦截的请求不会到达本地服务', () => {
+    assert.equal(hits.get('/png') || 0, 0)
+  })
+})
+
+describe('重定向', () => {
+  test('跟随重定向下载', async () => {
+    const { contentType } = await downloadRemoteImage(`${baseUrl}/redirect-ok`)
+    assert.equal(contentType, 'image/png')
+  })
+
+  test('超过重定向上限时失败', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/loop`), 'IMAGE_URL_INVALID')
+    assert.equal(hits.get('/loop'), MAX_REDIRECTS + 1)
+  })
+
+  test('重定向到内网地址时拒绝', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/to-loopback-host`), 'IMAGE_URL_BLOCKED')
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/to-loopback-ip`), 'IMAGE_URL_BLOCKED')
+  })
+})
+
+describe('响应内容', () => {
+  test('返回按文件头识别的类型', async () => {
+    const png = await downloadRemoteImage(`${baseUrl}/png`)
+    assert.deepEqual(png, { buffer: PNG, contentType: 'image/png' })
+    assert.equal((await downloadRemoteImage(`${baseUrl}/octet`)).contentType, 'image/png')
+    assert.equal((await downloadRemoteImage(`${baseUrl}/mislabeled`)).contentType, 'image/png')
+  })
+
+  test('声明为图片但文件头不是图片时拒绝', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/html-as-png`), 'IMAGE_NOT_IMAGE')
+  })
+
+  test('声明为网页时不读取正文直接拒绝', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/html`), 'IMAGE_NOT_IMAGE')
+  })
+
+  test('超过大小上限时拒绝', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/big-declared`), 'IMAGE_TOO_LARGE')
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/big-chunked`), 'IMAGE_TOO_LARGE')
+  })
+})
+
+describe('超时与取消', () => {
+  test('迟迟不响应时超时', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/hang`), 'IMAGE_DOWNLOAD_TIMEOUT')
+  })
+
+  test('正文传到一半停住时超时', async () => {
+    await rejectsWithCode(downloadRemoteImage(`${baseUrl}/slow-body`), 'IMAGE_DOWNLOAD_TIMEOUT')
+  })
+
+  test('子任务取消时中止下载，不当作超时', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+    await assert.rejects(
+      downloadRemoteImage(`${baseUrl}/hang`, { signal: controller.signal }),
+      (err) => err.name === 'AbortError',
+    )
+  })
+
+  test('已取消的信号不再发起请求', async () => {
+    const before = hits.get('/png') || 0
+    await assert.rejects(
+      downloadRemoteImage(`${baseUrl}/png`, { signal: AbortSignal.abort() }),
+      (err) => err.name === 'AbortError',
+    )
+    assert.equal(hits.get('/png') || 0, before)
+  })
+})
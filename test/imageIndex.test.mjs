@@ -0,0 +1,217 @@
+import assert from 'node:assert/strict'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import { createRequire } from 'node:module'
+import os from 'node:os'
+import path from 'node:path'
+import { after, afterEach, beforeEach, describe, mock, test } from 'node:test'
+
+// 工作区数据写在 process.cwd()/server-data 下，导入前切到临时目录；SQLite 数据库也放在这里
+const dataRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'image-index-test-'))
+process.chdir(dataRoot)
+process.env.BACKEND_STORAGE = 'json'
+process.env.BACKEND_SQLITE_PATH = path.join(dataRoot, 'backend.sqlite')
+
+const { getWorkspacePaths } = await import('../server/config.mjs')
+const { createImageIndex, getImageHashFromKey } = await import('../server/imageIndex.mjs')
+const { loadBackendImageIndex, saveBackendImageIndex } = await import('../server/storage.mjs')
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url).resolve('better-sqlite3')
+    return true
+  } catch {
+    return false
+  }
+})()
+
+const SAVE_DELAY_MS = 1000
+
+// 带 IHDR 的最小 PNG 文件头，seed 让内容与哈希各不相同
+const createPng = (width, height, seed) => {
+  const buffer = Buffer.alloc(40)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer, 0)
+  buffer.writeUInt32BE(13, 8)
+  buffer.write('IHDR', 12, 'ascii')
+  buffer.writeUInt32BE(width, 16)
+  buffer.writeUInt32BE(height, 20)
+  buffer.write(seed, 30, 'ascii')
+  return buffer
+}
+
+const hashedName = (buffer) => `${crypto.createHash('sha256').update(buffer).digest('hex')}.png`
+
+// 内存中的图片存储，只实现索引用到的 list、stat 与 read，并记录列举次数
+const createMemoryStore = () => {
+  const files = new Map()
+  let listCalls = 0
+  const fileKey = (workspaceId, key) => `${workspaceId}/${key}`
+  return {
+    get listCalls() {
+      return listCalls
+    },
+    put: (workspaceId, key, buffer) => {
+      files.set(fileKey(workspaceId, key), { buffer, modifiedAt: 1_700_000_000_000 })
+    },
+    list: async (workspaceId) => {
+      listCalls += 1
+      return Array.from(files.keys())
+        .filter((item) => item.startsWith(`${workspaceId}/`))
+        .map((item) => item.slice(workspaceId.length + 1))
+    },
+    stat: async (workspaceId, key) => {
+      const file = files.get(fileKey(workspaceId, key))
+      return file ? { size: file.buffer.length, modifiedAt: file.modifiedAt } : null
+    },
+    read: async (workspaceId, key, { maxBytes } = {}) => {
+      const file = files.get(fileKey(workspaceId, key))
+      if (!file) return null
+      return maxBytes ? file.buffer.subarray(0, maxBytes) : file.buffer
+    },
+  }
+}
+
+// 索引合并写入：推进定时器后等待写入落到工作区存储
+const flushSave = async (workspaceId, predicate) => {
+  mock.timers.tick(SAVE_DELAY_MS)
+  for (let attempt = 0; attempt < 200; attempt += 1) {
+    const data = await loadBackendImageIndex(workspaceId)
+    if (data && predicate(data)) return data
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+  throw new Error('图片索引没有写入')
+}
+
+let workspaceSeq = 0
+const nextWorkspace = () => `index-${(workspaceSeq += 1)}`
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ['setTimeout'] })
+  mock.method(console, 'log', () => {})
+})
+
+afterEach(() => {
+  mock.timers.reset()
+})
+
+after(() => {
+  process.chdir(os.tmpdir())
+  fs.rmSync(dataRoot, { recursive: true, force: true })
+})
+
+describe('createImageIndex', () => {
+  test('只有 <sha256><扩展名> 形式的文件进入索引', () => {
+    const name = hashedName(createPng(1, 1, 'a'))
+    assert.equal(getImageHashFromKey(name), name.slice(0, 64))
+    assert.equal(getImageHashFromKey('photo.png'), '')
+    assert.equal(getImageHashFromKey(`${name.slice(0, 64)}.png.tmp`), '')
+  })
+
+  test('首次访问时从图片存储重建，并写入工作区存储而不是图片目录', async () => {
+    const workspaceId = nextWorkspace()
+    const store = createMemoryStore()
+    const first = createPng(640, 480, 'first')
+    const second = createPng(32, 16, 'second')
+    store.put(workspaceId, hashedName(first), first)
+    store.put(workspaceId, hashedName(second), second)
+    store.put(workspaceId, 'notes.txt', Buffer.from('not an image'))
+    const index = createImageIndex(store)
+
+    const entry = await index.find(workspaceId, hashedName(first).slice(0, 64))
+    assert.equal(entry.fileName, hashedName(first))
+    assert.equal(entry.mime, 'image/png')
+    assert.equal(entry.width, 640)
+    assert.equal(entry.height, 480)
+    assert.equal(entry.size, first.length)
+    assert.equal(entry.createdAt, 1_700_000_000_000)
+
+    const saved = await flushSave(workspaceId, (data) => data.images.length === 2)
+    assert.equal(saved.version, 1)
+    assert.ok(fs.existsSync(getWorkspacePaths(workspaceId).imageIndexPath))
+    assert.equal(fs.existsSync(getWorkspacePaths(workspaceId).imagesDir), false)
+  })
+
+  test('已保存的索引直接加载，查重不再列举存储', async () => {
+    const workspaceId = nextWorkspace()
+    const image = createPng(8, 8, 'stored')
+    await saveBackendImageIndex(workspaceId, {
+      version: 1,
+      images: [
+        { fileName: hashedName(image), size: image.length, mime: 'image/png', width: 8, height: 8, createdAt: 1 },
+        { fileName: 'invalid.png', size: 1 },
+      ],
+    })
+    const store = createMemoryStore()
+    const index = createImageIndex(store)
+    assert.equal((await index.find(workspaceId, hashedName(image).slice(0, 64))).width, 8)
+    assert.equal(await index.find(workspaceId, 'f'.repeat(64)), null)
+    assert.equal(store.listCalls, 0)
+  })
+
+  test('add 与 remove 合并写入', async () => {
+    const workspaceId = nextWorkspace()
+    const store = createMemoryStore()
+    const index = createImageIndex(store)
+    const kept = createPng(4, 4, 'kept')
+    const removed = createPng(4, 4, 'removed')
+    for (const image of [kept, removed]) {
+      await index.add(workspaceId, { fileName: hashedName(image), size: image.length, mime: 'image/png' })
+    }
+    await index.remove(workspaceId, hashedName(removed))
+    // 文件名与索引中记录的不同时不删除同哈希的条目
+    await index.remove(workspaceId, `${hashedName(kept).slice(0, 64)}.jpg`)
+    const saved = await flushSave(workspaceId, (data) => data.images.length === 1)
+    assert.deepEqual(saved.images.map((item) => item.fileName), [hashedName(kept)])
+  })
+
+  test('reconcile 按存储中的实际文件增删条目', async () => {
+    const workspaceId = nextWorkspace()
+    const store = createMemoryStore()
+    const index = createImageIndex(store)
+    const gone = createPng(2, 2, 'gone')
+    const added = createPng(3, 5, 'added')
+    await index.add(workspaceId, { fileName: hashedName(gone), size: gone.length, mime: 'image/png' })
+    store.put(workspaceId, hashedName(added), added)
+
+    await index.reconcile(workspaceId, [hashedName(added), 'notes.txt'])
+    assert.equal(await index.find(workspaceId, hashedName(gone).slice(0, 64)), null)
+    assert.equal((await index.find(workspaceId, hashedName(added).slice(0, 64))).height, 5)
+    const saved = await flushSave(
+      workspaceId,
+      (data) => data.images.length === 1 && data.images[0].fileName === hashedName(added),
+    )
+    assert.equal(saved.images[0].width, 3)
+  })
+
+  test('moveWorkspace 把索引移到目标工作区并清掉两边的缓存', async () => {
+    const from = nextWorkspace()
+    const to = nextWorkspace()
+    const store = createMemoryStore()
+    const index = createImageIndex(store)
+    const image = createPng(6, 6, 'moved')
+    await index.add(from, { fileName: hashedName(image), size: image.length, mime: 'image/png' })
+    // 目标工作区之前加载过空索引
+    assert.equal(await index.find(to, hashedName(image).slice(0, 64)), null)
+
+    await index.moveWorkspace(from, to)
+    assert.equal(await loadBackendImageIndex(from), null)
+    assert.deepEqual((await loadBackendImageIndex(to)).images.map((item) => item.fileName), [hashedName(image)])
+    assert.equal((await index.find(to, hashedName(image).slice(0, 64))).fileName, hashedName(image))
+  })
+})
+
+describe('SQLite 存储中的图片索引', { skip: hasSqlite ? false : '未安装 better-sqlite3' }, () => {
+  test('读写删除都在数据库里，不产生工作区目录', async () => {
+    const { sqliteWorkspaceStore } = await import('../server/sqliteWorkspaceStore.mjs')
+    const workspaceId = 'sqlite-index'
+    const data = { version: 1, images: [{ fileName: hashedName(createPng(1, 1, 'sqlite')), size: 40 }] }
+    assert.equal(await sqliteWorkspaceStore.readImageIndex(workspaceId), null)
+    await sqliteWorkspaceStore.writeImageIndex(workspaceId, data)
+    assert.deepEqual(await sqliteWorkspaceStore.readImageIndex(workspaceId), data)
+    assert.equal(fs.existsSync(getWorkspacePaths(workspaceId).baseDir), false)
+    // 只有索引的工作区不算已有数据
+    assert.equal((await sqliteWorkspaceStore.listWorkspaceIds()).includes(workspaceId), false)
+    await sqliteWorkspaceStore.deleteImageIndex(workspaceId)
+    assert.equal(await sqliteWorkspaceStore.readImageIndex(workspaceId), null)
+  })
+})
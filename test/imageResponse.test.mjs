@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import { describe, test } from 'node:test'
+import {
+  mergeGeminiStreamChunks,
+  mergeOpenAiStreamChunks,
+  parseImageResponse,
+  parseStreamText,
+  resolveImageFromResponse,
+} from '../shared/imageResponse.mjs'
+
+// 样例按各家接口的实际响应结构整理，图片是真实编码的小图
+const FIXTURES_DIR = new URL('./fixtures/responses/', import.meta.url)
+
+const readFixture = (name) => fs.readFileSync(new URL(name, FIXTURES_DIR), 'utf-8')
+
+const loadJsonFixture = (name) => JSON.parse(readFixture(name))
+
+// 与服务端、前端的流式读取一致：只取 data: 行，跳过 [DONE]
+const loadSseFixture = (name) =>
+  readFixture(name)
+    .split('\n')
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trim())
+    .filter((payload) => payload && payload !== '[DONE]')
+    .map((payload) => JSON.parse(payload))
+
+const readOpenAiStream = (name) => parseImageResponse(mergeOpenAiStreamChunks(loadSseFixture(name)))
+
+const readGeminiStream = (name) => parseImageResponse(mergeGeminiStreamChunks(loadSseFixture(name)))
+
+// base64 开头即文件头：PNG 为 iVBOR，JPEG 为 /9j/
+const BASE64_SIGNATURES = { 'image/png': 'iVBOR', 'image/jpeg': '/9j/' }
+
+const isDataUrl = (value, mimeType) =>
+  value.startsWith(`data:${mimeType};base64,${BASE64_SIGNATURES[mimeType]}`)
+
+describe('parseImageResponse', () => {
+  test('OpenAI Images b64_json', () => {
+    const parsed = parseImageResponse(loadJsonFixture('openai-images-b64.json'))
+    assert.equal(parsed.images.length, 1)
+    assert.ok(isDataUrl(parsed.images[0], 'image/png'))
+    assert.deepEqual(parsed.usage, {
+      promptTokens: 12,
+      completionTokens: 272,
+      thoughtsTokens: undefined,
+      totalTokens: 284,
+    })
+  })
+
+  test('OpenAI Images url 与 revised_prompt', () => {
+    const parsed = parseImageResponse(loadJsonFixture('openai-images-url.json'))
+    assert.equal(parsed.images.length, 2)
+    assert.match(parsed.images[0], /^https:\/\/oaidalleapiprodscus\.blob\.core\.windows\.net\/.+img-a\.png\?/)
+    assert.deepEqual(parsed.text, ['A red fox sitting in fresh snow, watercolor style'])
+  })
+
+  test('Chat Completions 中的 Markdown 图片', () => {
+    const parsed = parseImageResponse(loadJsonFixture('openai-chat-markdown.json'))
+    assert.equal(parsed.images.length, 1)
+    assert.ok(isDataUrl(parsed.images[0], 'image/png'))
+    assert.equal(parsed.finishReason, 'stop')
+    assert.equal(parsed.text.length, 1)
+  })
+
+  test('OpenRouter 的 message.images', () => {
+    const parsed = parseImageResponse(loadJsonFixture('openrouter-chat-images.json'))
+    assert.equal(parsed.images.length, 1)
+    assert.ok(isDataUrl(parsed.images[0], 'image/png'))
+    assert.deepEqual(parsed.text, ['Here is your image.'])
+  })
+
+  test('代理返回的 reasoning_content 与图片链接', () => {
+    const parsed = parseImageResponse(loadJsonFixture('deepseek-chat-reasoning.json'))
+    assert.deepEqual(parsed.images, ['https://cdn.example.com/out/aaaaaaaa.png'])
+    assert.deepEqual(parsed.thoughts, ['先构图，再上色。'])
+    assert.deepEqual(parsed.usage, {
+      promptTokens: 10,
+      completionTokens: 20,
+      thoughtsTokens: 40,
+      totalTokens: 70,
+    })
+  })
+
+  test('Gemini inlineData', () => {
+    const parsed = parseImageResponse(loadJsonFixture('gemini-inline-data.json'))
+    assert.equal(parsed.images.length, 1)
+    assert.ok(isDataUrl(parsed.images[0], 'image/png'))
+    assert.deepEqual(parsed.text, ['Here is a picture of a cat.'])
+    assert.equal(parsed.finishReason, 'STOP')
+    assert.deepEqual(parsed.usage, {
+      promptTokens: 9,
+      completionTokens: 1295,
+      thoughtsTokens: undefined,
+      totalTokens: 1304,
+    })
+  })
+
+  test('Gemini 思考内容单独归入 thoughts', () => {
+    const parsed = parseImageResponse(loadJsonFixture('gemini-thoughts.json'))
+    assert.equal(parsed.images.length, 1)
+    assert.ok(isDataUrl(parsed.images[0], 'image/jpeg'))
+    assert.deepEqual(parsed.text, [])
+    assert.equal(parsed.thoughts.length, 1)
+    assert.equal(parsed.usage.thoughtsTokens, 210)
+  })
+
+  test('Gemini 多个候选全部返回', () => {
+    const parsed = parseImageResponse(loadJsonFixture('gemini-multi-candidates.json'))
+    assert.equal(parsed.images.length, 2)
+    assert.notEqual(parsed.images[0], parsed.images[1])
+  })
+
+  test('Vertex inlineData', () => {
+    const parsed = parseImageResponse(loadJsonFixture('vertex-inline-data.json'))
+    assert.equal(parsed.images.length, 1)
+    assert.equal(parsed.usage.totalTokens, 1297)
+  })
+
+  test('代理的 resultUrl', () => {
+    assert.equal(
+      resolveImageFromResponse(loadJsonFixture('proxy-result-url.json')),
+      'https://files.example.com/results/20251001/abc.png',
+    )
+  })
+
+  test('安全拦截与错误响应没有图片', () => {
+    const blocked = parseImageResponse(loadJsonFixture('gemini-safety-prompt-blocked.json'))
+    assert.deepEqual(blocked.images, [])
+    const imageSafety = parseImageResponse(loadJsonFixture('gemini-image-safety.json'))
+    assert.deepEqual(imageSafety.images, [])
+    assert.equal(imageSafety.finishReason, 'IMAGE_SAFETY')
+    ;[
+      'openai-error-insufficient-quota.json',
+      'openai-error-rate-limit.json',
+      'gemini-error-429.json',
+      'gemini-error-invalid-key.json',
+    ].forEach((name) => {
+      const parsed = parseImageResponse(loadJsonFixture(name))
+      assert.deepEqual(parsed.images, [], name)
+      assert.equal(parsed.usage, null, name)
+    })
+  })
+})
+
+describe('流式响应', () => {
+  test('OpenAI 分块拼接出完整的 Markdown 图片', () => {
+    const parsed = readOpenAiStream('openai-chat-stream.sse')
+    assert.equal(parsed.images.length, 1)
+    assert.ok(isDataUrl(parsed.images[0], 'image/png'))
+    assert.equal(parsed.finishReason, 'stop')
+    assert.equal(parsed.usage.totalTokens, 320)
+  })
+
+  test('OpenAI 流式的 reasoning_content', () => {
+    const parsed = readOpenAiStream('openai-chat-stream-reasoning.sse')
+    assert.deepEqual(parsed.images, ['https://cdn.example.com/out/stream.png'])
+    assert.deepEqual(parsed.thoughts, ['先构图，再上色。'])
+    assert.equal(parsed.usage.completionTokens, 20)
+    assert.equal(parsed.usage.thoughtsTokens, 40)
+  })
+
+  test('OpenAI n=2 时交错到达的 choice 各自拼接', () => {
+    const parsed = readOpenAiStream('openai-chat-stream-n2.sse')
+    const expected = parseImageResponse(loadJsonFixture('gemini-multi-candidates.json')).images
+    assert.deepEqual(parsed.images, expected)
+    assert.equal(parsed.usage.totalTokens, 620)
+  })
+
+  test('只有文本时与 parseStreamText 结果一致', () => {
+    const content = '![img](https://cdn.example.com/out/stream.png)'
+    const chunks = [{ choices: [{ index: 0, delta: { content }, finish_reason: 'stop' }] }]
+    assert.deepEqual(
+      parseImageResponse(mergeOpenAiStreamChunks(chunks)),
+      parseStreamText(content, '', { finishReason: 'stop' }),
+    )
+  })
+
+  test('Gemini 分块合并后解析', () => {
+    const parsed = readGeminiStream('gemini-stream.sse')
+    assert.equal(parsed.images.length, 1)
+    assert.deepEqual(parsed.text, ['Sure, ', 'here you go.'])
+    assert.equal(parsed.finishReason, 'STOP')
+    assert.equal(parsed.usage.completionTokens, 1295)
+  })
+
+  test('Gemini 多个候选按 index 合并', () => {
+    const parsed = readGeminiStream('gemini-stream-multi-candidates.sse')
+    const expected = parseImageResponse(loadJsonFixture('gemini-multi-candidates.json')).images
+    assert.deepEqual(parsed.images, expected)
+    assert.deepEqual(parsed.text, ['First.', 'Second.'])
+  })
+
+  test('Gemini 流中途出错时返回错误分块', () => {
+    const merged = mergeGeminiStreamChunks(loadSseFixture('gemini-stream-error.sse'))
+    assert.equal(merged.error.status, 'UNAVAILABLE')
+    assert.deepEqual(parseImageResponse(merged).images, [])
+  })
+
+  test('没有分块时返回 null', () => {
+    assert.equal(mergeGeminiStreamChunks([]), null)
+    assert.equal(mergeOpenAiStreamChunks([]), null)
+  })
+})
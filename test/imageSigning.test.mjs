@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+
+// 会话记录写在 process.cwd()/server-data 下，导入前切到临时目录
+const dataRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'image-signing-test-'))
+process.chdir(dataRoot)
+process.env.BACKEND_SESSION_SECRET = 'image-signing-test-secret'
+
+const { buildSignedImageUrl, getImageUrlExpiresAt, verifyImageSignature } = await import(
+  '../server/imageSigning.mjs'
+)
+const { createBackendSession, findBackendSession, revokeBackendSession } = await import(
+  '../server/sessions.mjs'
+)
+
+after(() => {
+  process.chdir(os.tmpdir())
+  fs.rmSync(dataRoot, { recursive: true, force: true })
+})
+
+const parseSignedUrl = (url) => {
+  const parsed = new URL(url, 'http://localhost')
+  return {
+    key: decodeURIComponent(parsed.pathname.split('/').pop()),
+    query: Object.fromEntries(parsed.searchParams),
+  }
+}
+
+describe('图片签名地址', () => {
+  test('校验通过时返回工作区与签发地址的会话', () => {
+    const { key, query } = parseSignedUrl(buildSignedImageUrl('user-1', 'session-1', 'a.png'))
+    assert.equal(key, 'a.png')
+    assert.deepEqual(verifyImageSignature(key, query), { workspaceId: 'user-1', sessionId: 'session-1' })
+  })
+
+  test('改动图片、工作区或会话后签名失效', () => {
+    const { key, query } = parseSignedUrl(buildSignedImageUrl('user-1', 'session-1', 'a.png'))
+    assert.equal(verifyImageSignature('b.png', query), null)
+    assert.equal(verifyImageSignature(key, { ...query, ws: 'user-2' }), null)
+    assert.equal(verifyImageSignature(key, { ...query, sid: 'session-2' }), null)
+    assert.equal(verifyImageSignature(key, { ...query, sid: undefined }), null)
+  })
+
+  test('过期后签名失效', () => {
+    const expiresAt = Date.now() - 1
+    const { key, query } = parseSignedUrl(buildSignedImageUrl('', 'session-1', 'a.png', expiresAt))
+    assert.equal(verifyImageSignature(key, query), null)
+  })
+
+  test('过期时间按 5 分钟对齐，最长约 1 小时', () => {
+    const now = Date.UTC(2026, 4, 1, 8, 2)
+    const expiresAt = getImageUrlExpiresAt(now)
+    assert.equal(expiresAt % (5 * 60 * 1000), 0)
+    assert.ok(expiresAt - now >= 60 * 60 * 1000 && expiresAt - now < 65 * 60 * 1000)
+  })
+
+  test('会话撤销后，它签出的地址对应的会话立即查不到', async () => {
+    const { session } = await createBackendSession({ userId: 'user-1' })
+    const { key, query } = parseSignedUrl(buildSignedImageUrl('user-1', session.id, 'a.png'))
+    const signed = verifyImageSignature(key, query)
+    assert.equal((await findBackendSession(signed.sessionId)).userId, 'user-1')
+
+    assert.equal(await revokeBackendSession(session.id, 'user-1'), true)
+    // 签名本身仍然有效，由会话查询拒绝
+    assert.deepEqual(verifyImageSignature(key, query), signed)
+    assert.equal(await findBackendSession(signed.sessionId), null)
+  })
+})
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict'
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+
+// saved-images/ 在 process.cwd() 下，导入前切到临时目录
+const dataRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'image-store-test-'))
+process.chdir(dataRoot)
+process.env.BACKEND_IMAGE_STORAGE = 'local'
+// 每个目录最多放下两张测试图片
+process.env.SAVE_IMAGES_QUOTA_MB = String(100 / (1024 * 1024))
+
+const { saveDir } = await import('../server/config.mjs')
+const { saveImageBuffer } = await import('../server/imageStore.mjs')
+
+const createPng = (fill) =>
+  Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(32, fill)])
+const hashedName = (buffer) => `${crypto.createHash('sha256').update(buffer).digest('hex')}.png`
+
+const PNG = createPng(3)
+const PNG_NAME = hashedName(PNG)
+
+after(() => {
+  process.chdir(os.tmpdir())
+  fs.rmSync(dataRoot, { recursive: true, force: true })
+})
+
+describe('saveImageBuffer', () => {
+  test('按内容哈希命名，重复保存时直接返回已有文件，查重不列举目录', async (t) => {
+    const readdir = t.mock.method(fs.promises, 'readdir')
+    assert.deepEqual(await saveImageBuffer('', PNG), { saved: true, exists: false, fileName: PNG_NAME })
+    assert.deepEqual(fs.readFileSync(path.join(saveDir, PNG_NAME)), PNG)
+    // 第一次保存只为统计配额列举一次目录
+    const scans = readdir.mock.callCount()
+    assert.deepEqual(await saveImageBuffer('', PNG), { saved: false, exists: true, fileName: PNG_NAME })
+    assert.equal(readdir.mock.callCount(), scans)
+  })
+
+  test('文件头无法识别时拒绝保存', async () => {
+    await assert.rejects(saveImageBuffer('', Buffer.from('<html></html>')), { code: 'UNSUPPORTED_IMAGE' })
+  })
+
+  test('每个用户保存到自己的子目录，同一张图互不影响', async () => {
+    assert.equal((await saveImageBuffer('user-a', PNG)).saved, true)
+    assert.equal((await saveImageBuffer('user-b', PNG)).saved, true)
+    assert.ok(fs.existsSync(path.join(saveDir, 'users', 'user-a', PNG_NAME)))
+    assert.ok(fs.existsSync(path.join(saveDir, 'users', 'user-b', PNG_NAME)))
+  })
+
+  test('配额按用户分别计算', async () => {
+    assert.equal((await saveImageBuffer('quota-a', createPng(10))).saved, true)
+    assert.equal((await saveImageBuffer('quota-a', createPng(11))).saved, true)
+    await assert.rejects(saveImageBuffer('quota-a', createPng(12)), { code: 'SAVE_QUOTA_EXCEEDED' })
+    // 已保存过的图片不占新的配额
+    assert.equal((await saveImageBuffer('quota-a', createPng(10))).exists, true)
+    // 其他用户与根目录不受影响，根目录的占用也不包含用户子目录
+    assert.equal((await saveImageBuffer('quota-b', createPng(12))).saved, true)
+    assert.equal((await saveImageBuffer('', createPng(12))).saved, true)
+    assert.equal(fs.existsSync(path.join(saveDir, 'users', 'quota-a', hashedName(createPng(12)))), false)
+  })
+})
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import { describe, test } from 'node:test'
+import {
+  classifyProviderError,
+  detectSafetyBlock,
+  extractProviderErrorDetail,
+  isPermanentErrorKind,
+  resolveErrorKind,
+} from '../shared/providerError.mjs'
+
+const loadJsonFixture = (name) =>
+  JSON.parse(fs.readFileSync(new URL(`./fixtures/responses/${name}`, import.meta.url), 'utf-8'))
+
+const classifyFixture = (name, status) =>
+  classifyProviderError({ ...extractProviderErrorDetail(loadJsonFixture(name)), status })
+
+describe('classifyProviderError', () => {
+  test('OpenAI insufficient_quota 是额度用尽，不再重试', () => {
+    const kind = classifyFixture('openai-error-insufficient-quota.json', 429)
+    assert.equal(kind, 'quota')
+    assert.equal(isPermanentErrorKind(kind), true)
+  })
+
+  test('OpenAI 按分钟限流是 rate_limit', () => {
+    assert.equal(classifyFixture('openai-error-rate-limit.json', 429), 'rate_limit')
+  })
+
+  test('Gemini 429 正文带 quota 与 billing 字样时仍是 rate_limit', () => {
+    const kind = classifyFixture('gemini-error-429.json', 429)
+    assert.equal(kind, 'rate_limit')
+    assert.equal(isPermanentErrorKind(kind), false)
+  })
+
+  test('Gemini 无效密钥按错误码归为 invalid_request', () => {
+    assert.equal(classifyFixture('gemini-error-invalid-key.json', 400), 'invalid_request')
+  })
+
+  test('没有状态码时按正文识别额度用尽', () => {
+    assert.equal(classifyProviderError({ status: 200, message: '账户余额不足，请充值' }), 'quota')
+    assert.equal(classifyProviderError({ status: 402, message: 'billing details required' }), 'unknown')
+  })
+
+  test('状态码兜底', () => {
+    assert.equal(classifyProviderError({ status: 401 }), 'auth')
+    assert.equal(classifyProviderError({ status: 404 }), 'invalid_request')
+    assert.equal(classifyProviderError({ status: 503 }), 'server')
+    assert.equal(classifyProviderError({}), 'unknown')
+  })
+})
+
+describe('resolveErrorKind', () => {
+  test('优先使用已有的 errorKind', () => {
+    assert.equal(resolveErrorKind({ errorKind: 'safety', status: 429 }), 'safety')
+  })
+
+  test('axios 错误按响应体分类', () => {
+    const err = { response: { status: 429, data: loadJsonFixture('gemini-error-429.json') } }
+    assert.equal(resolveErrorKind(err), 'rate_limit')
+  })
+
+  test('网络错误', () => {
+    assert.equal(resolveErrorKind(new TypeError('fetch failed')), 'network')
+    assert.equal(resolveErrorKind({ code: 'ERR_NETWORK' }), 'network')
+  })
+})
+
+describe('detectSafetyBlock', () => {
+  test('提示词被拦截', () => {
+    assert.match(detectSafetyBlock(loadJsonFixture('gemini-safety-prompt-blocked.json')), /PROHIBITED_CONTENT/)
+  })
+
+  test('生成结果被拦截', () => {
+    assert.match(detectSafetyBlock(loadJsonFixture('gemini-image-safety.json')), /IMAGE_SAFETY/)
+  })
+
+  test('正常响应不拦截', () => {
+    assert.equal(detectSafetyBlock(loadJsonFixture('gemini-inline-data.json')), null)
+  })
+})
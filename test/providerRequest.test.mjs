@@ -0,0 +1,192 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+  buildGeminiUrl,
+  buildOpenAiChatUrl,
+  buildProviderRequest,
+} from '../shared/providerRequest.mjs'
+
+describe('buildOpenAiChatUrl', () => {
+  test('未填写地址时使用官方地址', () => {
+    assert.equal(buildOpenAiChatUrl({ model: 'm' }), 'https://api.openai.com/v1/chat/completions')
+  })
+
+  test('地址已带版本时不再追加', () => {
+    assert.equal(
+      buildOpenAiChatUrl({ apiUrl: 'https://api.openai.com/v1/', model: 'm' }),
+      'https://api.openai.com/v1/chat/completions',
+    )
+  })
+
+  test('自定义地址没有版本时按 apiVersion 追加', () => {
+    assert.equal(
+      buildOpenAiChatUrl({ apiUrl: 'https://proxy.example.com', model: 'm' }),
+      'https://proxy.example.com/v1/chat/completions',
+    )
+    assert.equal(
+      buildOpenAiChatUrl({ apiUrl: 'proxy.example.com/api', apiVersion: 'v1beta', model: 'm' }),
+      'https://proxy.example.com/api/v1beta/chat/completions',
+    )
+  })
+
+  test('完整的 chat/completions 地址原样使用', () => {
+    assert.equal(
+      buildOpenAiChatUrl({ apiUrl: 'https://proxy.example.com/openai/v1/chat/completions', model: 'm' }),
+      'https://proxy.example.com/openai/v1/chat/completions',
+    )
+  })
+})
+
+describe('buildGeminiUrl', () => {
+  test('官方 Gemini 地址默认 v1beta', () => {
+    assert.deepEqual(buildGeminiUrl({ apiFormat: 'gemini', model: 'gemini-2.5-flash-image' }), {
+      url: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image:generateContent',
+      isOfficial: true,
+    })
+  })
+
+  test('地址中的版本优先，models/ 前缀的模型名不重复，流式使用 streamGenerateContent', () => {
+    assert.deepEqual(
+      buildGeminiUrl({
+        apiFormat: 'gemini',
+        apiUrl: 'https://generativelanguage.googleapis.com/v1',
+        model: 'models/gemini-x',
+        stream: true,
+      }),
+      {
+        url: 'https://generativelanguage.googleapis.com/v1/models/gemini-x:streamGenerateContent',
+        isOfficial: true,
+      },
+    )
+  })
+
+  test('自定义代理地址保留路径且不视为官方地址', () => {
+    assert.deepEqual(
+      buildGeminiUrl({ apiFormat: 'gemini', apiUrl: 'https://proxy.example.com/google', model: 'gemini-x' }),
+      { url: 'https://proxy.example.com/google/v1beta/models/gemini-x:generateContent', isOfficial: false },
+    )
+  })
+
+  test('Vertex 按项目补全 locations 与 publishers', () => {
+    assert.equal(
+      buildGeminiUrl({ apiFormat: 'vertex', model: 'gemini-x', vertexProjectId: 'proj' }).url,
+      'https://aiplatform.googleapis.com/v1beta1/projects/proj/locations/us-central1/publishers/google/models/gemini-x:generateContent',
+    )
+  })
+
+  test('Vertex 地址中已有项目与区域时沿用', () => {
+    assert.equal(
+      buildGeminiUrl({
+        apiFormat: 'vertex',
+        apiUrl: 'https://aiplatform.googleapis.com/v1/projects/p2/locations/europe-west4',
+        model: 'gemini-x',
+      }).url,
+      'https://aiplatform.googleapis.com/v1/projects/p2/locations/europe-west4/publishers/google/models/gemini-x:generateContent',
+    )
+  })
+
+  test('Vertex 模型名是完整资源路径时直接拼接', () => {
+    assert.equal(
+      buildGeminiUrl({
+        apiFormat: 'vertex',
+        model: 'projects/p/locations/l/publishers/google/models/gemini-x',
+      }).url,
+      'https://aiplatform.googleapis.com/v1beta1/projects/p/locations/l/publishers/google/models/gemini-x:generateContent',
+    )
+  })
+
+  test('没有项目的 Vertex 地址退回 models/<模型>', () => {
+    assert.equal(
+      buildGeminiUrl({ apiFormat: 'vertex', model: 'gemini-x' }).url,
+      'https://aiplatform.googleapis.com/v1beta1/models/gemini-x:generateContent',
+    )
+  })
+
+  test('缺少模型名时报错', () => {
+    assert.throws(() => buildGeminiUrl({ apiFormat: 'gemini', model: ' ' }), /模型名称未配置/)
+  })
+})
+
+describe('buildProviderRequest', () => {
+  test('OpenAI：Bearer 鉴权，参考图转为 image_url，多张图映射为 n', () => {
+    const request = buildProviderRequest(
+      { apiFormat: 'openai', apiKey: 'k', model: 'm' },
+      {
+        prompt: ' hi ',
+        references: [{ data: 'AAA', mimeType: 'image/jpeg' }, { url: 'https://x.example.com/y.png' }],
+        imageCount: 3,
+      },
+    )
+    assert.deepEqual(request, {
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers: { Authorization: 'Bearer k', 'x-api-key': 'k', 'Content-Type': 'application/json' },
+      body: {
+        model: 'm',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'hi' },
+              { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAA' } },
+              { type: 'image_url', image_url: { url: 'https://x.example.com/y.png' } },
+            ],
+          },
+        ],
+        stream: false,
+        n: 3,
+      },
+    })
+  })
+
+  test('OpenAI：单张图时不带 n', () => {
+    const { body } = buildProviderRequest({ apiFormat: 'openai', model: 'm', stream: true }, { prompt: 'hi' })
+    assert.equal('n' in body, false)
+    assert.equal(body.stream, true)
+  })
+
+  test('Gemini 官方地址：密钥放在查询参数，多张图映射为 candidateCount', () => {
+    const request = buildProviderRequest(
+      {
+        apiFormat: 'gemini',
+        apiKey: 'k&1',
+        model: 'm',
+        includeImageConfig: true,
+        imageConfig: { imageSize: '1K', aspectRatio: '16:9' },
+      },
+      { prompt: 'hi', references: [{ data: 'AAA' }], imageCount: 2 },
+    )
+    assert.deepEqual(request, {
+      url: 'https://generativelanguage.googleapis.com/v1beta/models/m:generateContent?key=k%261',
+      headers: { 'Content-Type': 'application/json' },
+      body: {
+        contents: [
+          { role: 'user', parts: [{ text: 'hi' }, { inline_data: { mime_type: 'image/png', data: 'AAA' } }] },
+        ],
+        generationConfig: {
+          imageConfig: { imageSize: '1K', aspectRatio: '16:9' },
+          candidateCount: 2,
+        },
+      },
+    })
+  })
+
+  test('Gemini 自定义地址：改用 Bearer 鉴权，单张图不带 generationConfig', () => {
+    const request = buildProviderRequest(
+      { apiFormat: 'gemini', apiKey: 'k', apiUrl: 'https://proxy.example.com', model: 'm' },
+      { prompt: 'hi', imageCount: 1 },
+    )
+    assert.deepEqual(request, {
+      url: 'https://proxy.example.com/v1beta/models/m:generateContent',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer k' },
+      body: { contents: [{ role: 'user', parts: [{ text: 'hi' }] }] },
+    })
+  })
+
+  test('Gemini 自定义 JSON 合并进 generationConfig', () => {
+    const { body } = buildProviderRequest(
+      { apiFormat: 'gemini', model: 'm', customJson: '{"generationConfig":{"temperature":0.5}}' },
+      { prompt: 'hi', imageCount: 2 },
+    )
+    assert.deepEqual(body.generationConfig, { candidateCount: 2, temperature: 0.5 })
+  })
+})
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { parseRateLimitResetAt } from '../server/rateLimit.mjs'
+
+const NOW = 1_760_000_000_000
+
+describe('parseRateLimitResetAt', () => {
+  test('有 Retry-After 时以它为准', () => {
+    const headers = {
+      'retry-after': '20',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '6m0s',
+    }
+    assert.equal(parseRateLimitResetAt(headers, NOW), NOW + 20_000)
+  })
+
+  test('只取已耗尽的那一类限额', () => {
+    const headers = {
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-remaining-tokens': '15000',
+      'x-ratelimit-reset-tokens': '6m0s',
+    }
+    assert.equal(parseRateLimitResetAt(headers, NOW), NOW + 1000)
+  })
+
+  test('两类都耗尽时等到较晚的恢复', () => {
+    const headers = {
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '1m30s',
+    }
+    assert.equal(parseRateLimitResetAt(headers, NOW), NOW + 90_000)
+  })
+
+  test('无法判断触发哪一类时取最早的恢复时间', () => {
+    const headers = { 'x-ratelimit-reset-requests': '2s', 'x-ratelimit-reset-tokens': '6m0s' }
+    assert.equal(parseRateLimitResetAt(headers, NOW), NOW + 2000)
+  })
+
+  test('通用的 ratelimit-reset 与上限', () => {
+    assert.equal(parseRateLimitResetAt({ 'ratelimit-reset': '30' }, NOW), NOW + 30_000)
+    assert.equal(parseRateLimitResetAt({ 'retry-after': '86400' }, NOW), NOW + 6 * 60 * 60 * 1000)
+    assert.equal(parseRateLimitResetAt({}, NOW), null)
+  })
+})
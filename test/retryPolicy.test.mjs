@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  formatRetryDelay,
+  hasRetryAttemptsLeft,
+  normalizeRetryPolicy,
+} from '../shared/retryPolicy.mjs'
+
+describe('formatRetryDelay', () => {
+  test('10 秒内保留一位小数', () => {
+    assert.equal(formatRetryDelay(1234), '1.2s')
+    assert.equal(formatRetryDelay(9960), '10s')
+  })
+
+  test('一分钟内按整秒显示', () => {
+    assert.equal(formatRetryDelay(12400), '12s')
+    assert.equal(formatRetryDelay(59600), '1m0s')
+  })
+
+  test('先取整再拆分分钟与秒', () => {
+    assert.equal(formatRetryDelay(119600), '2m0s')
+    assert.equal(formatRetryDelay(61400), '1m1s')
+  })
+})
+
+describe('normalizeRetryPolicy', () => {
+  test('缺省值与越界值', () => {
+    assert.deepEqual(normalizeRetryPolicy(null), DEFAULT_RETRY_POLICY)
+    assert.deepEqual(
+      normalizeRetryPolicy({
+        maxAttempts: -3,
+        baseDelayMs: 5000,
+        backoffFactor: 50,
+        jitterPercent: 150,
+        maxDelayMs: 10,
+      }),
+      { maxAttempts: 0, baseDelayMs: 5000, backoffFactor: 10, jitterPercent: 100, maxDelayMs: 5000 },
+    )
+  })
+})
+
+describe('重试次数与间隔', () => {
+  test('maxAttempts 为 0 时不限次数', () => {
+    assert.equal(hasRetryAttemptsLeft({ maxAttempts: 0 }, 999), true)
+    assert.equal(hasRetryAttemptsLeft({ maxAttempts: 3 }, 3), false)
+  })
+
+  test('指数退避并受 maxDelayMs 限制', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitterPercent: 0 }
+    assert.equal(computeRetryDelay(policy, 1), 1000)
+    assert.equal(computeRetryDelay(policy, 3), 4000)
+    assert.equal(computeRetryDelay(policy, 20), 60000)
+  })
+
+  test('抖动不超出范围', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitterPercent: 20 }
+    for (let i = 0; i < 50; i += 1) {
+      const delay = computeRetryDelay(policy, 2)
+      assert.ok(delay >= 1600 && delay <= 2400, String(delay))
+    }
+  })
+})
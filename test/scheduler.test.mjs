@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict'
+import { after, describe, test } from 'node:test'
+import { dequeueSubTask, enqueueJob, getQueueSnapshot, pauseProvider } from '../server/scheduler.mjs'
+
+const enqueued = []
+
+const enqueue = (workspaceId, taskId, subTaskId, providerKey) => {
+  enqueued.push(subTaskId)
+  enqueueJob({ workspaceId, taskId, subTaskId, providerKey, run: () => {} })
+}
+
+after(() => {
+  enqueued.forEach(dequeueSubTask)
+})
+
+describe('getQueueSnapshot', () => {
+  test('限流暂停只返回本工作区排队任务用到的服务商', () => {
+    const until = Date.now() + 500
+    pauseProvider('openai:a.example.com', until)
+    pauseProvider('gemini:b.example.com', until)
+    enqueue('ws-a', 'task-a', 'sub-a1', 'openai:a.example.com')
+    enqueue('ws-a', 'task-a', 'sub-a2', 'openai:a.example.com')
+    enqueue('ws-b', 'task-b', 'sub-b1', 'gemini:b.example.com')
+
+    const snapshot = getQueueSnapshot('ws-a')
+    assert.deepEqual(snapshot.pausedProviders, { 'openai:a.example.com': until })
+    assert.deepEqual(snapshot.positions, { 'task-a': { 'sub-a1': 1, 'sub-a2': 2 } })
+    assert.deepEqual(snapshot.pausedUntil, { 'task-a': { 'sub-a1': until, 'sub-a2': until } })
+
+    const other = getQueueSnapshot('ws-b')
+    assert.deepEqual(other.pausedProviders, { 'gemini:b.example.com': until })
+    assert.deepEqual(other.pausedUntil, { 'task-b': { 'sub-b1': until } })
+  })
+
+  test('没有排队任务的工作区看不到任何暂停的服务商', () => {
+    const snapshot = getQueueSnapshot('ws-c')
+    assert.deepEqual(snapshot.pausedProviders, {})
+    assert.deepEqual(snapshot.pausedUntil, {})
+    assert.deepEqual(snapshot.positions, {})
+  })
+})
@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, beforeEach, describe, mock, test } from 'node:test'
+
+// 计划写在 process.cwd()/server-data 下，导入前切到临时目录
+const dataRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-test-'))
+process.chdir(dataRoot)
+
+const START = Date.UTC(2026, 4, 1, 8, 0)
+const MINUTE = 60 * 1000
+
+let schedules
+let taskResults
+
+before(async () => {
+  // 定时器不真正触发，由测试直接调用 startScheduleRunner 检查到期计划
+  mock.timers.enable({ apis: ['setTimeout', 'Date'], now: START })
+  schedules = await import('../server/schedules.mjs')
+  taskResults = await import('../server/taskResults.mjs')
+})
+
+beforeEach(() => {
+  mock.method(console, 'warn', () => {})
+})
+
+after(() => {
+  mock.timers.reset()
+  process.chdir(os.tmpdir())
+  fs.rmSync(dataRoot, { recursive: true, force: true })
+})
+
+const findSchedule = async (workspaceId, taskId, id) =>
+  (await schedules.listTaskSchedules(workspaceId, taskId)).find((item) => item.id === id)
+
+// 依次返回给定结果的触发函数，记录每次调用的任务
+const createRunner = (...outcomes) => {
+  const calls = []
+  const runTask = async (workspaceId, taskId) => {
+    calls.push(`${workspaceId}/${taskId}`)
+    const outcome = outcomes.length > 1 ? outcomes.shift() : outcomes[0]
+    if (outcome instanceof Error) throw outcome
+    return outcome
+  }
+  return { calls, runTask }
+}
+
+describe('重复运行计划', () => {
+  test('第一次立即触发，跑满次数后停用', async () => {
+    mock.timers.setTime(START)
+    const created = await schedules.createTaskSchedule('ws', 'task-repeat', {
+      type: 'repeat',
+      intervalMinutes: 5,
+      totalRuns: 2,
+    })
+    assert.equal(created.nextRunAt, START)
+
+    const runner = createRunner('started')
+    await schedules.startScheduleRunner(runner.runTask)
+    let current = await findSchedule('ws', 'task-repeat', created.id)
+    assert.equal(current.runCount, 1)
+    assert.equal(current.lastRunAt, START)
+    assert.equal(current.nextRunAt, START + 5 * MINUTE)
+
+    // 还没到下一次时间不会触发
+    await schedules.startScheduleRunner(runner.runTask)
+    assert.equal(runner.calls.length, 1)
+
+    mock.timers.setTime(START + 5 * MINUTE)
+    await schedules.startScheduleRunner(runner.runTask)
+    current = await findSchedule('ws', 'task-repeat', created.id)
+    assert.equal(current.runCount, 2)
+    assert.equal(current.enabled, false)
+    assert.equal(current.nextRunAt, null)
+    assert.deepEqual(runner.calls, ['ws/task-repeat', 'ws/task-repeat'])
+  })
+
+  test('任务仍在生成时 30 秒后重新检查，不计入次数', async () => {
+    mock.timers.setTime(START)
+    const created = await schedules.createTaskSchedule('ws', 'task-busy', {
+      type: 'repeat',
+      intervalMinutes: 1,
+      totalRuns: 3,
+    })
+    const runner = createRunner('busy', 'started')
+    await schedules.startScheduleRunner(runner.runTask)
+    let current = await findSchedule('ws', 'task-busy', created.id)
+    assert.equal(current.runCount, 0)
+    assert.equal(current.nextRunAt, START + 30 * 1000)
+    assert.equal(current.enabled, true)
+
+    mock.timers.setTime(START + 30 * 1000)
+    await schedules.startScheduleRunner(runner.runTask)
+    current = await findSchedule('ws', 'task-busy', created.id)
+    assert.equal(current.runCount, 1)
+    assert.equal(current.nextRunAt, START + 30 * 1000 + MINUTE)
+  })
+
+  test('任务已删除时停用计划', async () => {
+    mock.timers.setTime(START)
+    const created = await schedules.createTaskSchedule('ws', 'task-missing', {
+      type: 'repeat',
+      intervalMinutes: 1,
+      totalRuns: 3,
+    })
+    await schedules.startScheduleRunner(createRunner('missing').runTask)
+    const current = await findSchedule('ws', 'task-missing', created.id)
+    assert.equal(current.enabled, false)
+    assert.equal(current.nextRunAt, null)
+    assert.equal(current.runCount, 0)
+    assert.ok(current.lastError)
+  })
+
+  test('触发失败记录错误并按间隔继续', async () => {
+    mock.timers.setTime(START)
+    const created = await schedules.createTaskSchedule('ws', 'task-error', {
+      type: 'repeat',
+      intervalMinutes: 2,
+      totalRuns: 3,
+    })
+    await schedules.startScheduleRunner(createRunner(new Error('上游不可用')).runTask)
+    const current = await findSchedule('ws', 'task-error', created.id)
+    assert.equal(current.lastError, '上游不可用')
+    assert.equal(current.runCount, 0)
+    assert.equal(current.nextRunAt, START + 2 * MINUTE)
+  })
+
+  test('同一任务的多个到期计划只触发一次', async () => {
+    mock.timers.setTime(START)
+    const payload = { type: 'repeat', intervalMinutes: 10, totalRuns: 5 }
+    const first = await schedules.createTaskSchedule('ws', 'task-shared', payload)
+    const second = await schedules.createTaskSchedule('ws', 'task-shared', payload)
+    const runner = createRunner('started')
+    await schedules.startScheduleRunner(runner.runTask)
+    assert.deepEqual(runner.calls, ['ws/task-shared'])
+    assert.equal((await findSchedule('ws', 'task-shared', first.id)).runCount, 1)
+    assert.equal((await findSchedule('ws', 'task-shared', second.id)).runCount, 1)
+  })
+})
+
+describe('cron 计划', () => {
+  test('按表达式计算下一次触发时间', async () => {
+    mock.timers.setTime(START)
+    const created = await schedules.createTaskSchedule('ws', 'task-cron', {
+      type: 'cron',
+      cron: '*/15 * * * *',
+    })
+    assert.equal(created.nextRunAt, START + 15 * MINUTE)
+
+    mock.timers.setTime(START + 15 * MINUTE)
+    await schedules.startScheduleRunner(createRunner('started').runTask)
+    const current = await findSchedule('ws', 'task-cron', created.id)
+    assert.equal(current.runCount, 1)
+    assert.equal(current.nextRunAt, START + 30 * MINUTE)
+    assert.equal(current.enabled, true)
+  })
+
+  test('没有可触发时间的表达式被拒绝', async () => {
+    await assert.rejects(
+      schedules.createTaskSchedule('ws', 'task-cron', { type: 'cron', cron: '0 0 30 2 *' }),
+      { code: 'INVALID_SCHEDULE' },
+    )
+    await assert.rejects(
+      schedules.createTaskSchedule('ws', 'task-cron', { type: 'cron', cron: '0 0 * *' }),
+      { code: 'INVALID_CRON' },
+    )
+  })
+})
+
+describe('定时运行的结果追加', () => {
+  test('定时运行追加在已有结果之后，手动生成替换', () => {
+    const previous = [
+      { id: 'old-1', status: 'success', localKey: 'a.png' },
+      { id: 'old-2', status: 'error' },
+    ]
+    const added = taskResults.createLoadingResults(2, START)
+    assert.equal(added.length, 2)
+    assert.ok(added.every((result) => result.status === 'loading' && result.startTime === START))
+    assert.notEqual(added[0].id, added[1].id)
+
+    const appended = taskResults.mergeGenerationResults(previous, added, { append: true })
+    assert.deepEqual(appended.map((result) => result.id), ['old-1', 'old-2', added[0].id, added[1].id])
+    assert.equal(appended[0].localKey, 'a.png')
+
+    const replaced = taskResults.mergeGenerationResults(previous, added)
+    assert.deepEqual(replaced, added)
+  })
+
+  test('还有子任务在生成时视为忙碌', () => {
+    assert.equal(taskResults.isTaskGenerating({ results: [{ status: 'success' }, { status: 'loading' }] }), true)
+    assert.equal(taskResults.isTaskGenerating({ results: [{ status: 'success' }, { status: 'error' }] }), false)
+    assert.equal(taskResults.isTaskGenerating({ results: [] }), false)
+  })
+})
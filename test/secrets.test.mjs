@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+import { redactStateSecrets, restoreRedactedSecrets } from '../server/secrets.mjs'
+import { normalizeTaskOverrides } from '../shared/taskOverrides.mjs'
+
+const CURRENT = {
+  config: {
+    apiFormat: 'openai',
+    apiKey: 'sk-openai-key-000001234',
+    providerProfiles: [
+      { id: 'a', apiKeys: ['short-a', 'long-key-aaaa-1111', 'long-key-bbbb-2222'] },
+      { id: 'b', apiKeys: ['short-b'] },
+    ],
+  },
+  configByFormat: {
+    openai: { apiKey: 'sk-openai-key-000001234' },
+    gemini: { apiKey: 'short-g' },
+  },
+}
+
+describe('restoreRedactedSecrets', () => {
+  test('原样提交脱敏结果时全部找回', () => {
+    assert.deepEqual(restoreRedactedSecrets(redactStateSecrets(CURRENT), CURRENT), CURRENT)
+  })
+
+  test('短密钥按所在供应商配置找回，不会串到其它配置', () => {
+    const redacted = redactStateSecrets(CURRENT)
+    const swapped = {
+      ...redacted,
+      config: {
+        ...redacted.config,
+        providerProfiles: [redacted.config.providerProfiles[1], redacted.config.providerProfiles[0]],
+      },
+    }
+    const restored = restoreRedactedSecrets(swapped, CURRENT)
+    assert.deepEqual(restored.config.providerProfiles[0].apiKeys, ['short-b'])
+    assert.equal(restored.config.providerProfiles[1].apiKeys[0], 'short-a')
+  })
+
+  test('切换格式时按格式找回对应密钥', () => {
+    const redacted = redactStateSecrets(CURRENT)
+    const next = {
+      ...redacted,
+      config: { ...redacted.config, apiFormat: 'gemini', apiKey: redacted.configByFormat.gemini.apiKey },
+    }
+    assert.equal(restoreRedactedSecrets(next, CURRENT).config.apiKey, 'short-g')
+  })
+
+  test('删除前面的密钥后，后面的长密钥按掩码找回', () => {
+    const redacted = redactStateSecrets(CURRENT)
+    const next = {
+      ...redacted,
+      config: {
+        ...redacted.config,
+        providerProfiles: [{ id: 'a', apiKeys: [redacted.config.providerProfiles[0].apiKeys[2]] }],
+      },
+    }
+    assert.deepEqual(restoreRedactedSecrets(next, CURRENT).config.providerProfiles[0].apiKeys, [
+      'long-key-bbbb-2222',
+    ])
+  })
+})
+
+describe('任务覆盖不保存接口地址与密钥', () => {
+  test('apiUrl 与 apiKey 被丢弃', () => {
+    assert.deepEqual(
+      normalizeTaskOverrides({ apiUrl: 'https://evil.example.com', apiKey: 'sk-task', model: 'm' }),
+      { model: 'm' },
+    )
+  })
+})
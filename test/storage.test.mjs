@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import { createRequire } from 'node:module'
+import os from 'node:os'
+import path from 'node:path'
+import { after, describe, test } from 'node:test'
+import { fileURLToPath } from 'node:url'
+
+// 存储驱动在加载配置时确定，每种存储各起一个进程运行压力脚本，次数限制在测试可接受的范围
+const STRESS_SCRIPT = fileURLToPath(new URL('../scripts/stress-storage.mjs', import.meta.url))
+const ROUNDS = 100
+const TIMEOUT_MS = 60 * 1000
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url).resolve('better-sqlite3')
+    return true
+  } catch {
+    return false
+  }
+})()
+
+// JSON 存储写在 process.cwd()/server-data 下，放到临时目录避免碰到仓库里的数据
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'))
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true })
+})
+
+const runStress = (args) =>
+  new Promise((resolve) => {
+    const env = { ...process.env }
+    delete env.BACKEND_STORAGE
+    delete env.BACKEND_SQLITE_PATH
+    execFile(
+      process.execPath,
+      [STRESS_SCRIPT, '--rounds', String(ROUNDS), ...args],
+      { cwd: workDir, env, timeout: TIMEOUT_MS },
+      (error, stdout, stderr) => {
+        resolve({ code: error ? error.code ?? 1 : 0, output: `${stdout}${stderr}` })
+      },
+    )
+  })
+
+const assertStressPassed = ({ code, output }) => {
+  assert.equal(code, 0, output)
+  assert.match(output, /全部通过/, output)
+  // 全局统计、任务状态与收藏各自的计数都要核对到
+  for (const label of ['全局请求数', '全局成功数', '成功的子任务', '任务请求数', '任务成功数', '收藏条目']) {
+    assert.match(output, new RegExp(`通过 ${label}：${ROUNDS} / ${ROUNDS}`), output)
+  }
+}
+
+describe('存储并发读改写', () => {
+  test('JSON 存储下 updateBackendState、updateTaskState 与 updateBackendCollection 不丢更新', async () => {
+    assertStressPassed(await runStress([]))
+  })
+
+  test(
+    'SQLite 存储下 updateBackendState、updateTaskState 与 updateBackendCollection 不丢更新',
+    { skip: hasSqlite ? false : '未安装 better-sqlite3' },
+    async () => {
+      assertStressPassed(await runStress(['--sqlite']))
+    },
+  )
+})
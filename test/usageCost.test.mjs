@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import { describe, test } from 'node:test'
+import { parseImageResponse } from '../shared/imageResponse.mjs'
+import { addUsageToStats, computeUsageCost, normalizeUsage } from '../shared/usageCost.mjs'
+
+const loadJsonFixture = (name) =>
+  JSON.parse(fs.readFileSync(new URL(`./fixtures/responses/${name}`, import.meta.url), 'utf-8'))
+
+const PRICE = { model: 'test', inputPrice: 1, outputPrice: 10, imagePrice: 0.04 }
+
+describe('思考 token 只计一次', () => {
+  test('OpenAI reasoning_tokens 不重复计入输出', () => {
+    const { usage } = parseImageResponse(loadJsonFixture('deepseek-chat-reasoning.json'))
+    const normalized = normalizeUsage(usage)
+    assert.equal(
+      normalized.promptTokens + normalized.completionTokens + normalized.thoughtsTokens,
+      normalized.totalTokens,
+    )
+    // 10 输入 + 60 输出（含 40 思考）
+    assert.equal(computeUsageCost(usage, PRICE), (10 * 1 + 60 * 10) / 1e6)
+  })
+
+  test('Gemini thoughtsTokenCount 单独计费', () => {
+    const { usage } = parseImageResponse(loadJsonFixture('gemini-thoughts.json'))
+    const expected =
+      (usage.promptTokens * 1 + (usage.completionTokens + usage.thoughtsTokens) * 10) / 1e6
+    assert.equal(computeUsageCost(usage, PRICE), Math.round(expected * 1e6) / 1e6)
+  })
+
+  test('累加统计时各项之和等于总 token', () => {
+    const { usage } = parseImageResponse(loadJsonFixture('deepseek-chat-reasoning.json'))
+    const stats = addUsageToStats(addUsageToStats({}, usage), usage)
+    assert.equal(stats.promptTokens + stats.completionTokens + stats.thoughtsTokens, 140)
+  })
+})
+
+describe('computeUsageCost', () => {
+  test('没有价格时为 0', () => {
+    assert.equal(computeUsageCost({ promptTokens: 100 }, null, 2), 0)
+  })
+
+  test('按张计图片价格', () => {
+    assert.equal(computeUsageCost(null, PRICE, 3), 0.12)
+  })
+})